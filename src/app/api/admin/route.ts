@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { UserProfilesService } from '@/lib/database/user-profiles'
+import { TwitterOAuthConnectionService } from '@/lib/database/twitter-oauth-connections'
 
 export async function GET(request: NextRequest) {
   try {
@@ -144,6 +145,11 @@ export async function POST(request: NextRequest) {
         }
         return NextResponse.json({ success: true })
 
+      case 'rotate-token-encryption-key':
+        // Re-encrypt stored Twitter tokens under TOKEN_ENCRYPTION_KEY_VERSION
+        const rotation = await new TwitterOAuthConnectionService(supabase).rotateEncryptionKey()
+        return NextResponse.json({ success: rotation.failed === 0, ...rotation })
+
       default:
         return NextResponse.json(
           { error: 'Invalid action' },
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { GroqService } from '@/lib/ai/groq-service'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { topic, context } = await request.json().catch(() => ({}))
+
+    const groqService = new GroqService()
+    const poll = await groqService.generatePoll(topic, context)
+
+    await systemLogger.info('AI API', 'Poll generated successfully', {
+      topic,
+      optionCount: poll.options.length,
+      durationMinutes: poll.durationMinutes
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { poll },
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    await systemLogger.error('AI API', 'Poll generation failed', { error })
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to generate poll',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
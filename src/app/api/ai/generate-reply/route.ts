@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ReplyGenerator, ReplyContext, Tone } from '@/lib/ai/reply-generator'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { loadConversationContext } from '@/lib/ai/conversation-context'
+import { createAppTwitterAPI } from '@/lib/twitter/credential-resolver'
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,7 +14,9 @@ export async function POST(request: NextRequest) {
       authorUsername,
       userKeywords = [],
       tone,
-      engagementMetrics
+      engagementMetrics,
+      conversationId,
+      inReplyToTweetId
     } = body
 
     // Validate required fields
@@ -47,13 +51,27 @@ export async function POST(request: NextRequest) {
       hasEngagement: !!engagementMetrics
     })
 
+    // Replies inside a thread get the surrounding conversation as context
+    const conversationContext = conversationId
+      ? await loadConversationContext(createAppTwitterAPI(), {
+          id: tweetId,
+          text: tweetContent,
+          author_id: '',
+          author_username: authorUsername,
+          created_at: '',
+          conversation_id: conversationId,
+          referenced_tweets: inReplyToTweetId ? [{ type: 'replied_to', id: inReplyToTweetId }] : undefined
+        })
+      : undefined
+
     // Build context
     const context: ReplyContext = {
       tweetId,
       tweetContent,
       authorUsername,
       userKeywords,
-      engagementMetrics
+      engagementMetrics,
+      conversationContext
     }
 
     // Generate reply suggestions
@@ -3,11 +3,14 @@ import { GroqService } from '@/lib/ai/groq-service'
 import { AIAgent } from '@/lib/ai/ai-agent'
 import { systemLogger } from '@/lib/logging/system-logger'
 import { getGroqConfig } from '@/lib/config/ai-config'
+import { createClient } from '@/lib/supabase/server'
+import { TwitterCredentialResolver, buildCredentialsForConnection, createAppTwitterAPI } from '@/lib/twitter/credential-resolver'
+import { loadConversationContext } from '@/lib/ai/conversation-context'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { tweet, context, action } = body
+    const { tweet, context, action, accountId, responseType } = body
 
     if (!tweet || !tweet.id || !tweet.text) {
       return NextResponse.json(
@@ -38,7 +41,21 @@ export async function POST(request: NextRequest) {
       bearerToken: process.env.TWITTER_BEARER_TOKEN || ''
     }
     
-    const aiAgent = new AIAgent(mockCredentials)
+    let aiAgent = new AIAgent(mockCredentials)
+    let userId: string | undefined
+
+    // Act as one of the user's connected accounts when one is chosen
+    if (accountId) {
+      const supabase = await createClient()
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+      if (authError || !user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const { connection } = await new TwitterCredentialResolver(supabase).resolveForUser(user.id, accountId)
+      aiAgent = new AIAgent(buildCredentialsForConnection(connection), connection.id, user.id)
+      userId = user.id
+    }
 
     let result: unknown
 
@@ -49,14 +66,17 @@ export async function POST(request: NextRequest) {
         break
         
       case 'generate_response':
-        // Generate AI response
+        // Generate AI response; quotes get their own prompt
         const intent = await groqService.analyzeIntent(tweet)
-        result = await groqService.generateResponse(tweet, intent, context)
+        const conversation = await loadConversationContext(createAppTwitterAPI(), tweet)
+        result = responseType === 'quote'
+          ? await groqService.generateQuote(tweet, intent, context, conversation)
+          : await groqService.generateResponse(tweet, intent, context, conversation)
         break
         
       case 'process_tweet':
         // Full tweet processing with AI agent
-        result = await aiAgent.processTweet(tweet, context)
+        result = await aiAgent.processTweet(tweet, context, { userId })
         break
         
       case 'execute_action':
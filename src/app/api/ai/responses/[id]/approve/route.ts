@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { TweetHydrationService } from '@/lib/twitter/tweet-hydration'
 
 export async function POST(
   request: NextRequest,
@@ -9,6 +10,7 @@ export async function POST(
   try {
     const supabase = await createClient()
     const { id } = await params
+    const { account_id } = await request.json().catch(() => ({}))
     
     // Get current user
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -40,7 +42,9 @@ export async function POST(
         status: 'approved',
         approved_by: user.id,
         approved_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+        updated_at: new Date().toISOString(),
+        // Keep the account chosen at draft time unless the approver picked another
+        ...(account_id ? { account_id } : {})
       })
       .eq('id', id)
       .select()
@@ -57,12 +61,18 @@ export async function POST(
     await systemLogger.info('AI Response API', 'Response approved successfully', { 
       responseId: id,
       userId: user.id,
-      tweetId: existingResponse.tweet_id
+      tweetId: existingResponse.tweet_id,
+      accountId: account_id || existingResponse.account_id
     })
 
+    const originals = await new TweetHydrationService().hydrate([existingResponse.tweet_id])
+
     return NextResponse.json({
       success: true,
-      response: updatedResponse
+      response: {
+        ...updatedResponse,
+        original_tweet: originals.get(existingResponse.tweet_id) || null
+      }
     })
 
   } catch (error) {
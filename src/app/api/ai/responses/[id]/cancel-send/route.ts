@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ResponseSender } from '@/lib/ai/response-sender'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { AIResponse } from '@/types/database'
+
+/**
+ * Undo a send while the response is still in its holding window
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: existingResponse, error: fetchError } = await supabase
+      .from('ai_responses')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !existingResponse) {
+      return NextResponse.json(
+        { error: 'Response not found' },
+        { status: 404 }
+      )
+    }
+
+    try {
+      const response = await new ResponseSender(supabase).cancelSend(existingResponse as AIResponse)
+      return NextResponse.json({ success: true, response })
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to cancel send', details: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 409 }
+      )
+    }
+
+  } catch (error) {
+    await systemLogger.error('AI Response API', 'Cancel send request failed', { error })
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
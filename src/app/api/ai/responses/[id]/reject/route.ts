@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { TweetHydrationService } from '@/lib/twitter/tweet-hydration'
 
 export async function POST(
   request: NextRequest,
@@ -60,9 +61,14 @@ export async function POST(
       tweetId: existingResponse.tweet_id
     })
 
+    const originals = await new TweetHydrationService().hydrate([existingResponse.tweet_id])
+
     return NextResponse.json({
       success: true,
-      response: updatedResponse
+      response: {
+        ...updatedResponse,
+        original_tweet: originals.get(existingResponse.tweet_id) || null
+      }
     })
 
   } catch (error) {
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { UserProfilesService } from '@/lib/database/user-profiles'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { TweetHydrationService } from '@/lib/twitter/tweet-hydration'
+import { AIResponse, RESPONSE_TYPES, ResponseType } from '@/types/database'
 
 export async function GET(request: NextRequest) {
   try {
@@ -60,9 +62,16 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Show each draft next to the tweet it answers, even once the feed has moved on
+    const rows = (responses || []) as AIResponse[]
+    const originals = await new TweetHydrationService().hydrate(rows.map(response => response.tweet_id))
+
     return NextResponse.json({
       success: true,
-      responses: responses || [],
+      responses: rows.map(response => ({
+        ...response,
+        original_tweet: response.tweet_id ? originals.get(response.tweet_id) || null : null
+      })),
       pagination: {
         limit,
         offset,
@@ -84,7 +93,7 @@ export async function POST(request: NextRequest) {
     const supabase = await createClient()
     const body = await request.json()
     
-    const { tweet_id, response_type, content, ai_generated, confidence_score, status } = body
+    const { tweet_id, account_id, response_type, content, ai_generated, confidence_score, status } = body
 
     // Validate required fields
     if (!tweet_id || !response_type || !content) {
@@ -94,6 +103,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Replies and quotes are reviewed as separate approval types
+    if (!RESPONSE_TYPES.includes(response_type as ResponseType)) {
+      return NextResponse.json(
+        { error: `Invalid response_type. Use: ${RESPONSE_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
     // Get current user
     const { data: { user }, error: authError } = await supabase.auth.getUser()
     if (authError || !user) {
@@ -108,6 +125,7 @@ export async function POST(request: NextRequest) {
       .from('ai_responses')
       .insert({
         tweet_id,
+        account_id,
         response_type,
         content,
         ai_generated: ai_generated ?? true,
@@ -128,7 +146,8 @@ export async function POST(request: NextRequest) {
 
     await systemLogger.info('AI Responses API', 'Response created successfully', { 
       responseId: response.id,
-      userId: user.id 
+      userId: user.id,
+      responseType: response_type
     })
 
     return NextResponse.json({
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ResponseSender } from '@/lib/ai/response-sender'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+/**
+ * Post the current user's responses whose undo window has ended, without
+ * waiting for the send worker's next tick
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const responses = await new ResponseSender(supabase).sendDueResponses(user.id)
+
+    return NextResponse.json({
+      success: true,
+      published: responses.filter(response => response.status === 'published').length,
+      failed: responses.filter(response => response.status === 'failed').length,
+      responses
+    })
+
+  } catch (error) {
+    await systemLogger.error('AI Response API', 'Sending due responses failed', { error })
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { GroqService } from '@/lib/ai/groq-service'
+import { MediaAttachmentService } from '@/lib/content/media-attachments'
+import { validateMediaFile } from '@/lib/twitter/twitter-api'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+/**
+ * Suggest alt text for an image. Accepts either multipart form data with a
+ * file (before it is attached) or JSON with the id of a stored attachment.
+ * An optional context is the tweet text the image goes with.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let image: Uint8Array
+    let mediaType: string
+    let context: string | undefined
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      const formContext = formData.get('context')
+
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'file is required' }, { status: 400 })
+      }
+
+      image = new Uint8Array(await file.arrayBuffer())
+      mediaType = file.type
+      context = typeof formContext === 'string' ? formContext : undefined
+    } else {
+      const body = await request.json()
+      const mediaService = new MediaAttachmentService()
+      const attachment = body.attachmentId ? await mediaService.getAttachment(body.attachmentId) : null
+
+      if (!attachment || attachment.user_id !== user.id) {
+        return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+      }
+
+      image = await mediaService.downloadAttachment(attachment)
+      mediaType = attachment.media_type
+      context = body.context
+    }
+
+    const fileError = validateMediaFile(mediaType, image.byteLength)
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 })
+    }
+
+    const altText = await new GroqService().suggestAltText(image, mediaType, context)
+
+    await systemLogger.info('AI API', 'Alt text suggested', {
+      userId: user.id,
+      mediaType,
+      length: altText.length
+    })
+
+    return NextResponse.json({ success: true, altText })
+  } catch (error) {
+    await systemLogger.error('AI API', 'Alt text suggestion failed', { error })
+    return NextResponse.json(
+      { error: 'Failed to suggest alt text', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { UserProfilesService } from '@/lib/database/user-profiles'
+import { IntentFiltersService } from '@/lib/database/intent-filters'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { twitterSearchCache } from '@/lib/cache/twitter-cache'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const isAdmin = await new UserProfilesService().isAdmin(user.id)
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const keyword = searchParams.get('keyword')?.toLowerCase()
+
+    const entries = (await twitterSearchCache.listEntries())
+      .filter(entry => !keyword || entry.keywords.includes(keyword))
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      totalSizeBytes: entries.reduce((total, entry) => total + entry.sizeBytes, 0)
+    })
+
+  } catch (error) {
+    await systemLogger.error('Cache Entries API', 'Failed to list cache entries', { error })
+    return NextResponse.json(
+      { error: 'Failed to list cache entries' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Invalidate the entries for a keyword, or for every keyword a user filters on
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const isAdmin = await new UserProfilesService().isAdmin(user.id)
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const keyword = searchParams.get('keyword')
+    const userId = searchParams.get('user_id')
+
+    if (!keyword && !userId) {
+      return NextResponse.json(
+        { error: 'Provide a keyword or user_id' },
+        { status: 400 }
+      )
+    }
+
+    const keywords = keyword ? [keyword] : await new IntentFiltersService().getUserKeywords(userId!)
+    const removed = await twitterSearchCache.invalidateKeywords(keywords)
+
+    await systemLogger.info('Cache Management', 'Search cache entries invalidated', {
+      keywords,
+      forUserId: userId,
+      removed
+    }, user.id)
+
+    return NextResponse.json({
+      success: true,
+      keywords,
+      removed
+    })
+
+  } catch (error) {
+    await systemLogger.error('Cache Entries API', 'Failed to invalidate cache entries', { error })
+    return NextResponse.json(
+      { error: 'Failed to invalidate cache entries' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { UserProfilesService } from '@/lib/database/user-profiles'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { intentPollingWorker } from '@/lib/twitter/intent-polling-worker'
+import { twitterRequestScheduler } from '@/lib/twitter/request-scheduler'
+import { searchCacheWarmer } from '@/lib/twitter/search-cache-warmer'
+import { twitterSearchCache } from '@/lib/cache/twitter-cache'
 
 export async function GET() {
   try {
@@ -19,11 +24,14 @@ export async function GET() {
         status: 'active',
         message: 'Twitter API caching is enabled',
         features: [
-          '15-minute cache duration',
-          'Automatic rate limit handling',
-          'Fallback to cached data when API fails',
-          'LRU cache eviction'
-        ]
+          'Freshness set by how fast new tweets arrive for each query',
+          'Stale results served while refreshing in the background',
+          'In-memory LRU backed by a durable table',
+          'Fallback to cached data when rate limited',
+          'Warmed for intent filters before peak hours'
+        ],
+        search: twitterSearchCache.getCacheStats(),
+        warmer: searchCacheWarmer.getStatus()
       },
       rateLimiting: {
         status: 'active',
@@ -33,7 +41,9 @@ export async function GET() {
           'Graceful degradation to cached data',
           'User-friendly error messages'
         ]
-      }
+      },
+      pollingWorker: intentPollingWorker.getStatus(user.id),
+      requestScheduler: twitterRequestScheduler.getStatus()
     })
 
   } catch (error) {
@@ -55,21 +65,35 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Check if user is admin
+    const isAdmin = await new UserProfilesService().isAdmin(user.id)
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
     const { action } = await request.json()
     
     switch (action) {
       case 'clear':
-        // Note: In a real implementation, you'd clear the cache here
-        await systemLogger.info('Cache Management', 'Cache clear requested', { userId: user.id })
+        await twitterSearchCache.clearCache()
+        await systemLogger.info('Cache Management', 'Search cache cleared', {}, user.id)
+        return NextResponse.json({
+          success: true,
+          message: 'Search cache cleared'
+        })
+
+      case 'cleanup':
+        const removed = await twitterSearchCache.cleanupExpired()
+        await systemLogger.info('Cache Management', 'Expired search cache entries removed', { removed }, user.id)
         return NextResponse.json({
           success: true,
-          message: 'Cache clear requested (cache will be cleared on next request)'
+          removed
         })
       
       case 'stats':
         return NextResponse.json({
           success: true,
-          message: 'Cache statistics are available in the Twitter API service'
+          stats: twitterSearchCache.getCacheStats()
         })
       
       default:
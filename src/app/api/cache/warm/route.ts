@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { UserProfilesService } from '@/lib/database/user-profiles'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { searchCacheWarmer } from '@/lib/twitter/search-cache-warmer'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      warmer: searchCacheWarmer.getStatus()
+    })
+
+  } catch (error) {
+    await systemLogger.error('Cache Warm API', 'Failed to get cache warmer status', { error })
+    return NextResponse.json(
+      { error: 'Failed to get cache warmer status' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Warm the search cache for every intent filter now, rather than waiting
+ * for the next peak hour
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const isAdmin = await new UserProfilesService().isAdmin(user.id)
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const result = await searchCacheWarmer.warm()
+    await systemLogger.info('Cache Management', 'Search cache warm requested', { searched: result.searched }, user.id)
+
+    return NextResponse.json({
+      success: true,
+      result
+    })
+
+  } catch (error) {
+    await systemLogger.error('Cache Warm API', 'Failed to warm cache', { error })
+    return NextResponse.json(
+      { error: 'Failed to warm cache' },
+      { status: 500 }
+    )
+  }
+}
@@ -7,7 +7,7 @@ import { createClient } from '@/lib/supabase/server'
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { contentId, userId, scheduledAt, postingTimeSlot, timezone } = body
+    const { contentId, userId, scheduledAt, postingTimeSlot, timezone, accountId } = body
 
     if (!contentId || !userId || !scheduledAt || !postingTimeSlot) {
       return NextResponse.json(
@@ -35,7 +35,8 @@ export async function POST(request: NextRequest) {
       userId,
       new Date(scheduledAt),
       postingTimeSlot,
-      timezone || 'UTC'
+      timezone || 'UTC',
+      accountId
     )
 
     // Add to approval queue if needed
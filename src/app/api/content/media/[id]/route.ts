@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { MediaAttachmentService } from '@/lib/content/media-attachments'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+/**
+ * Edit an attachment's alt text
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { altText, aiSuggested } = await request.json()
+    if (typeof altText !== 'string') {
+      return NextResponse.json({ error: 'altText is required' }, { status: 400 })
+    }
+
+    const mediaService = new MediaAttachmentService()
+    const attachment = await mediaService.getAttachment(id)
+
+    if (!attachment || attachment.user_id !== user.id) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    const updated = await mediaService.updateAltText(id, altText.trim(), aiSuggested === true)
+
+    return NextResponse.json({ success: true, attachment: updated })
+  } catch (error) {
+    await systemLogger.error('Content Media API', 'Failed to update alt text', { error })
+    return NextResponse.json(
+      { error: 'Failed to update alt text', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Remove an attachment from its content item
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const mediaService = new MediaAttachmentService()
+    const attachment = await mediaService.getAttachment(id)
+
+    if (!attachment || attachment.user_id !== user.id) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    await mediaService.removeAttachment(attachment)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    await systemLogger.error('Content Media API', 'Failed to delete attachment', { error })
+    return NextResponse.json(
+      { error: 'Failed to delete attachment', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { MediaAttachmentService } from '@/lib/content/media-attachments'
+import { MEDIA_MAX_ATTACHMENTS, validateMediaFile } from '@/lib/twitter/twitter-api'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+/**
+ * List the attachments of a content item
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const contentId = new URL(request.url).searchParams.get('contentId')
+    if (!contentId) {
+      return NextResponse.json({ error: 'contentId is required' }, { status: 400 })
+    }
+
+    const attachments = await new MediaAttachmentService(supabase).getAttachments(contentId)
+
+    return NextResponse.json({
+      success: true,
+      attachments: attachments.filter(attachment => attachment.user_id === user.id)
+    })
+  } catch (error) {
+    await systemLogger.error('Content Media API', 'Failed to fetch attachments', { error })
+    return NextResponse.json(
+      { error: 'Failed to fetch attachments', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Attach an image or GIF to one of the user's content items. Expects
+ * multipart form data with contentId, file and optional altText /
+ * altTextAISuggested fields.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const contentId = formData.get('contentId')
+    const file = formData.get('file')
+    const altText = formData.get('altText')
+
+    if (typeof contentId !== 'string' || !(file instanceof File)) {
+      return NextResponse.json({ error: 'contentId and file are required' }, { status: 400 })
+    }
+
+    const { data: content } = await supabase
+      .from('ai_superconnector_content')
+      .select('id')
+      .eq('id', contentId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!content) {
+      return NextResponse.json({ error: 'Content not found' }, { status: 404 })
+    }
+
+    const fileError = validateMediaFile(file.type, file.size)
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 })
+    }
+
+    const mediaService = new MediaAttachmentService(supabase)
+    const existing = await mediaService.getAttachments(contentId)
+    if (existing.length >= MEDIA_MAX_ATTACHMENTS) {
+      return NextResponse.json(
+        { error: `Content can have at most ${MEDIA_MAX_ATTACHMENTS} attachments` },
+        { status: 400 }
+      )
+    }
+
+    const attachment = await mediaService.addAttachment({
+      contentId,
+      userId: user.id,
+      fileName: file.name,
+      mediaType: file.type,
+      data: new Uint8Array(await file.arrayBuffer()),
+      altText: typeof altText === 'string' && altText.trim() ? altText.trim() : undefined,
+      altTextAISuggested: formData.get('altTextAISuggested') === 'true'
+    })
+
+    return NextResponse.json({ success: true, attachment })
+  } catch (error) {
+    await systemLogger.error('Content Media API', 'Failed to attach media', { error })
+    return NextResponse.json(
+      { error: 'Failed to attach media', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { TweetHydrationService } from '@/lib/twitter/tweet-hydration'
+import { ContentSchedule } from '@/types/database'
+
+// Published tweets' metrics are looked up again once they're this old
+const PUBLISHED_TWEET_MAX_AGE_MS = 15 * 60 * 1000
 
 export async function GET(request: NextRequest) {
   try {
@@ -122,6 +127,13 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Show each published item with the tweet it became and that tweet's current metrics
+    const published = (topContent || []) as ContentSchedule[]
+    const publishedTweets = await new TweetHydrationService().hydrate(
+      published.map(item => item.twitter_post_id),
+      { maxAgeMs: PUBLISHED_TWEET_MAX_AGE_MS }
+    )
+
     // Get upcoming scheduled content
     const { data: upcomingContent, error: upcomingError } = await supabase
       .from('content_schedule')
@@ -150,7 +162,10 @@ export async function GET(request: NextRequest) {
       statusDistribution,
       typeDistribution,
       contentVelocity,
-      topPerformingContent: topContent || [],
+      topPerformingContent: published.map(item => ({
+        ...item,
+        tweet: item.twitter_post_id ? publishedTweets.get(item.twitter_post_id) || null : null
+      })),
       upcomingContent: upcomingContent || [],
       timeRange
     }
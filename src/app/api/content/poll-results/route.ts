@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ContentPublisher } from '@/lib/content/content-publisher'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+/**
+ * Collect votes for the current user's polls that have closed
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const results = await new ContentPublisher(supabase).collectPollResults(user.id)
+
+    return NextResponse.json({
+      success: true,
+      collected: results.length,
+      results
+    })
+  } catch (error) {
+    await systemLogger.error('Content Poll Results API', 'Poll result collection failed', { error })
+    return NextResponse.json(
+      { error: 'Failed to collect poll results', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ContentPublisher } from '@/lib/content/content-publisher'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { ContentSchedule } from '@/types/database'
+
+/**
+ * Publish due scheduled content for the current user, or publish/resume one
+ * item immediately when a scheduleId is given
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { scheduleId } = await request.json().catch(() => ({}))
+    const publisher = new ContentPublisher(supabase)
+
+    if (scheduleId) {
+      const { data: item, error: fetchError } = await supabase
+        .from('content_schedule')
+        .select('*')
+        .eq('id', scheduleId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (fetchError || !item) {
+        return NextResponse.json({ error: 'Content not found' }, { status: 404 })
+      }
+
+      if (item.status === 'published') {
+        return NextResponse.json({ error: 'Content is already published' }, { status: 400 })
+      }
+
+      const result = await publisher.publishItem(item as ContentSchedule)
+      return NextResponse.json({ success: result.success, result }, { status: result.success ? 200 : 502 })
+    }
+
+    const results = await publisher.publishDueContent(user.id)
+
+    return NextResponse.json({
+      success: true,
+      published: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length,
+      results
+    })
+  } catch (error) {
+    await systemLogger.error('Content Publish API', 'Publishing failed', { error })
+    return NextResponse.json(
+      { error: 'Failed to publish content', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
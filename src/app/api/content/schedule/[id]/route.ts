@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { validatePollSettings } from '@/lib/twitter/twitter-api'
 
 export async function PUT(
   request: NextRequest,
@@ -18,7 +19,10 @@ export async function PUT(
       status, 
       scheduled_at, 
       hashtags, 
-      mentions 
+      mentions,
+      account_id,
+      poll_options,
+      poll_duration_minutes
     } = body
 
     // Get current user
@@ -44,6 +48,18 @@ export async function PUT(
       )
     }
 
+    // Validate the poll as it will look after the update
+    if ((content_type ?? existingContent.content_type) === 'poll') {
+      const pollError = validatePollSettings({
+        options: poll_options ?? existingContent.poll_options ?? [],
+        durationMinutes: poll_duration_minutes ?? existingContent.poll_duration_minutes
+      })
+
+      if (pollError) {
+        return NextResponse.json({ error: pollError }, { status: 400 })
+      }
+    }
+
     // Prepare update data
     const updateData: Record<string, unknown> = {}
     
@@ -54,6 +70,9 @@ export async function PUT(
     if (title !== undefined) updateData.title = title
     if (hashtags !== undefined) updateData.hashtags = hashtags
     if (mentions !== undefined) updateData.mentions = mentions
+    if (account_id !== undefined) updateData.account_id = account_id
+    if (poll_options !== undefined) updateData.poll_options = poll_options
+    if (poll_duration_minutes !== undefined) updateData.poll_duration_minutes = poll_duration_minutes
     
     updateData.updated_at = new Date().toISOString()
 
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ContentPublisher } from '@/lib/content/content-publisher'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { ContentSchedule } from '@/types/database'
+
+/**
+ * Delete the tweets of a published item and mark it deleted
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+    const { reason } = await request.json().catch(() => ({}))
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: item, error: fetchError } = await supabase
+      .from('content_schedule')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !item) {
+      return NextResponse.json(
+        { error: 'Content not found' },
+        { status: 404 }
+      )
+    }
+
+    if (item.status === 'deleted') {
+      return NextResponse.json(
+        { error: 'Content is already deleted' },
+        { status: 400 }
+      )
+    }
+
+    try {
+      await new ContentPublisher(supabase).unpublishItem(item as ContentSchedule, reason)
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to delete tweets', details: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    await systemLogger.error('Content Schedule API', 'Unpublish request failed', { error })
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
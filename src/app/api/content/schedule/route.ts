@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { validatePollSettings } from '@/lib/twitter/twitter-api'
 
 export async function GET(request: NextRequest) {
   try {
@@ -70,7 +71,10 @@ export async function POST(request: NextRequest) {
       status, 
       scheduled_at, 
       hashtags, 
-      mentions 
+      mentions,
+      account_id,
+      poll_options,
+      poll_duration_minutes
     } = body
 
     // Validate required fields
@@ -81,6 +85,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Polls must carry valid options so they publish intact
+    if (content_type === 'poll') {
+      const pollError = validatePollSettings({
+        options: Array.isArray(poll_options) ? poll_options : [],
+        durationMinutes: poll_duration_minutes
+      })
+
+      if (pollError) {
+        return NextResponse.json({ error: pollError }, { status: 400 })
+      }
+    }
+
     // Get current user
     const { data: { user }, error: authError } = await supabase.auth.getUser()
     if (authError || !user) {
@@ -100,6 +116,11 @@ export async function POST(request: NextRequest) {
 
     // Add optional fields
     if (title) contentData.title = title
+    if (account_id) contentData.account_id = account_id
+    if (content_type === 'poll') {
+      contentData.poll_options = poll_options
+      contentData.poll_duration_minutes = poll_duration_minutes
+    }
     if (scheduled_at) contentData.scheduled_at = scheduled_at
     if (hashtags && Array.isArray(hashtags)) {
       contentData.hashtags = hashtags
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { IntentFiltersService } from '@/lib/database/intent-filters'
+import { filteredStream } from '@/lib/twitter/filtered-stream'
 import { systemLogger } from '@/lib/logging/system-logger'
 
 export async function DELETE(
@@ -29,6 +30,7 @@ export async function DELETE(
     
     // Remove the filter
     await intentService.removeFilter(filterId, user.id)
+    await filteredStream.refreshRules()
 
     await systemLogger.info('Intent Filters API', 'Filter removed successfully', {
       userId: user.id,
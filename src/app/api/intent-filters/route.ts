@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { IntentFiltersService } from '@/lib/database/intent-filters'
+import { filteredStream } from '@/lib/twitter/filtered-stream'
 import { UserProfilesService } from '@/lib/database/user-profiles'
 import { systemLogger } from '@/lib/logging/system-logger'
 
@@ -79,6 +80,7 @@ export async function POST(request: NextRequest) {
     
     // Add the filter
     const newFilter = await intentService.addFilter(user.id, keyword.trim())
+    await filteredStream.refreshRules()
     
     // Get all filters to return in response
     const allFilters = await intentService.getUserFilters(user.id)
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TwitterOAuthConnectionService } from '@/lib/database/twitter-oauth-connections'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const connections = await new TwitterOAuthConnectionService(supabase).getConnectionsByUserId(user.id)
+
+    // Never send tokens to the browser
+    const accounts = connections.map(connection => ({
+      id: connection.id,
+      twitter_user_id: connection.twitter_user_id,
+      twitter_username: connection.twitter_username,
+      connection_status: connection.connection_status,
+      last_used: connection.last_used
+    }))
+
+    return NextResponse.json({ success: true, accounts })
+  } catch (error) {
+    await systemLogger.error('Twitter Accounts API', 'Failed to list accounts', { error })
+    return NextResponse.json(
+      { error: 'Failed to list Twitter accounts' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,24 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { TwitterAPIService } from '@/lib/twitter/twitter-api'
+import { TwitterCredentialResolver, createAppTwitterAPI } from '@/lib/twitter/credential-resolver'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { TwitterActionAuditService } from '@/lib/database/twitter-action-audit'
+import { AuditedTwitterAction } from '@/types/database'
 
-let twitterAPI: TwitterAPIService | null = null
+// Actions that act as one of the user's connected accounts
+const ACCOUNT_ACTIONS = [
+  'post-tweet',
+  'reply-tweet',
+  'quote-tweet',
+  'like-tweet',
+  'retweet',
+  'delete-tweet',
+  'unlike-tweet',
+  'unretweet',
+  'validate-credentials'
+]
 
-function getTwitterAPI() {
-  if (!twitterAPI) {
-    const credentials = {
-      apiKey: process.env.TWITTER_API_KEY || '',
-      apiSecret: process.env.TWITTER_API_SECRET || '',
-      accessToken: process.env.TWITTER_ACCESS_TOKEN || '',
-      accessTokenSecret: process.env.TWITTER_ACCESS_TOKEN_SECRET || '',
-      bearerToken: process.env.TWITTER_BEARER_TOKEN || ''
-    }
-    
-    twitterAPI = new TwitterAPIService(credentials)
-  }
-  
-  return twitterAPI
+// Undo actions, with the audit action each one records
+const UNDO_ACTIONS: Record<string, AuditedTwitterAction> = {
+  'delete-tweet': 'delete_tweet',
+  'unlike-tweet': 'unlike',
+  'unretweet': 'unretweet'
 }
 
 export async function POST(request: NextRequest) {
@@ -32,13 +36,32 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { action, ...data } = body
+    const { action, accountId, ...data } = body
 
-    const twitterAPI = getTwitterAPI()
+    // Writes go through the chosen account; reads use the app-only token
+    let twitterAPI = createAppTwitterAPI()
+    let account: { id: string; twitterUserId: string; twitterUsername: string } | null = null
+
+    if (ACCOUNT_ACTIONS.includes(action)) {
+      try {
+        const resolved = await new TwitterCredentialResolver(supabase).resolveForUser(user.id, accountId)
+        twitterAPI = resolved.twitterAPI
+        account = {
+          id: resolved.connection.id,
+          twitterUserId: resolved.connection.twitter_user_id,
+          twitterUsername: resolved.connection.twitter_username
+        }
+      } catch (error) {
+        return NextResponse.json(
+          { error: 'Twitter account unavailable', details: error instanceof Error ? error.message : 'Unknown error' },
+          { status: 400 }
+        )
+      }
+    }
 
     switch (action) {
       case 'post-tweet':
-        const { text } = data
+        const { text, mediaIds } = data
         if (!text) {
           return NextResponse.json(
             { error: 'Tweet text is required' },
@@ -47,9 +70,10 @@ export async function POST(request: NextRequest) {
         }
         
         try {
-          const result = await twitterAPI.postTweet(text)
+          const result = await twitterAPI.postTweet(text, { mediaIds })
           await systemLogger.info('Twitter Actions', 'Tweet posted successfully', {
             userId: user.id,
+            accountId: account?.id,
             tweetText: text.substring(0, 50) + '...'
           })
           return NextResponse.json({ success: true, result })
@@ -65,7 +89,7 @@ export async function POST(request: NextRequest) {
         }
 
       case 'reply-tweet':
-        const { text: replyText, replyToTweetId } = data
+        const { text: replyText, replyToTweetId, mediaIds: replyMediaIds } = data
         if (!replyText || !replyToTweetId) {
           return NextResponse.json(
             { error: 'Reply text and tweet ID are required' },
@@ -74,9 +98,10 @@ export async function POST(request: NextRequest) {
         }
         
         try {
-          const result = await twitterAPI.replyToTweet(replyText, replyToTweetId)
+          const result = await twitterAPI.replyToTweet(replyText, replyToTweetId, replyMediaIds)
           await systemLogger.info('Twitter Actions', 'Tweet reply posted successfully', {
             userId: user.id,
+            accountId: account?.id,
             replyToTweetId,
             replyText: replyText.substring(0, 50) + '...'
           })
@@ -93,11 +118,43 @@ export async function POST(request: NextRequest) {
           )
         }
 
+      case 'quote-tweet':
+        const { text: quoteText, quotedTweetId, mediaIds: quoteMediaIds } = data
+        if (!quoteText || !quotedTweetId) {
+          return NextResponse.json(
+            { error: 'Quote text and quoted tweet ID are required' },
+            { status: 400 }
+          )
+        }
+        
+        try {
+          const result = await twitterAPI.quoteTweet(quoteText, quotedTweetId, quoteMediaIds)
+          await systemLogger.info('Twitter Actions', 'Quote tweet posted successfully', {
+            userId: user.id,
+            accountId: account?.id,
+            quotedTweetId,
+            quoteText: quoteText.substring(0, 50) + '...'
+          })
+          return NextResponse.json({ success: true, result })
+        } catch (error) {
+          await systemLogger.error('Twitter Actions', 'Failed to post quote tweet', {
+            userId: user.id,
+            quotedTweetId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          })
+          return NextResponse.json(
+            { error: 'Failed to post quote tweet', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+
       case 'like-tweet':
-        const { tweetId, userId: targetUserId } = data
+        const { tweetId } = data
+        // Likes are always made by the acting account
+        const targetUserId = account?.twitterUserId
         if (!tweetId || !targetUserId) {
           return NextResponse.json(
-            { error: 'Tweet ID and user ID are required' },
+            { error: 'Tweet ID and a connected account are required' },
             { status: 400 }
           )
         }
@@ -124,10 +181,11 @@ export async function POST(request: NextRequest) {
         }
 
       case 'retweet':
-        const { tweetId: retweetId, userId: retweetUserId } = data
+        const { tweetId: retweetId } = data
+        const retweetUserId = account?.twitterUserId
         if (!retweetId || !retweetUserId) {
           return NextResponse.json(
-            { error: 'Tweet ID and user ID are required' },
+            { error: 'Tweet ID and a connected account are required' },
             { status: 400 }
           )
         }
@@ -153,6 +211,45 @@ export async function POST(request: NextRequest) {
           )
         }
 
+      case 'delete-tweet':
+      case 'unlike-tweet':
+      case 'unretweet':
+        const { tweetId: undoTweetId, reason } = data
+        if (!undoTweetId || !account) {
+          return NextResponse.json(
+            { error: 'Tweet ID and a connected account are required' },
+            { status: 400 }
+          )
+        }
+        
+        try {
+          const result = action === 'delete-tweet'
+            ? await twitterAPI.deleteTweet(undoTweetId)
+            : action === 'unlike-tweet'
+              ? await twitterAPI.unlikeTweet(undoTweetId, account.twitterUserId)
+              : await twitterAPI.unretweet(undoTweetId, account.twitterUserId)
+
+          await new TwitterActionAuditService().record({
+            user_id: user.id,
+            account_id: account.id,
+            action: UNDO_ACTIONS[action],
+            twitter_post_id: undoTweetId,
+            metadata: { reason, via: 'actions-api' }
+          })
+          return NextResponse.json({ success: true, result })
+        } catch (error) {
+          await systemLogger.error('Twitter Actions', `Failed to ${action.replace('-', ' ')}`, {
+            userId: user.id,
+            tweetId: undoTweetId,
+            accountId: account.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          })
+          return NextResponse.json(
+            { error: `Failed to ${action.replace('-', ' ')}`, details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+
       case 'search-tweets':
         const { query, filters, maxResults } = data
         if (!query) {
@@ -224,6 +321,7 @@ export async function POST(request: NextRequest) {
           return NextResponse.json({ 
             success: true, 
             valid: isValid,
+            account,
             message: isValid ? 'Twitter API credentials are valid' : 'Twitter API credentials are invalid'
           })
         } catch (error) {
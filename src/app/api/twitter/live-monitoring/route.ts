@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { UserProfilesService } from '@/lib/database/user-profiles'
+import { filteredStream } from '@/lib/twitter/filtered-stream'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { liveEvents, isVisibleTo, formatServerSentEvent } from '@/lib/realtime/live-events'
+
+const STREAM_ACTIONS = ['start-stream', 'stop-stream', 'sync-rules', 'status']
+const HEARTBEAT_INTERVAL_MS = 15000
+const CLIENT_RETRY_MS = 5000
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Server-Sent Events feed of matched tweets, rate limit changes and agent
+ * decisions for the signed-in user. Reconnecting clients send
+ * Last-Event-ID and get the events they missed replayed first.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient()
+
+  // Check authentication
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const lastEventId = Number(
+    request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId') || 0
+  ) || 0
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      send(`retry: ${CLIENT_RETRY_MS}\n\n`)
+      liveEvents.getEventsSince(lastEventId, user.id).forEach(event => send(formatServerSentEvent(event)))
+
+      const unsubscribe = liveEvents.subscribe(event => {
+        if (isVisibleTo(event, user.id)) {
+          send(formatServerSentEvent(event))
+        }
+      })
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+      request.signal.addEventListener('abort', () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      }, { once: true })
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
+
+/**
+ * Control the filtered stream: start or stop it, resync its rules from
+ * intent filters, or read its status. Matches land in monitored_tweets.
+ * The stream is shared by every user, so only admins can change it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { action } = await request.json().catch(() => ({}))
+    if (!STREAM_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Invalid action. Use: ${STREAM_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Check if user is admin
+    if (action !== 'status' && !(await new UserProfilesService().isAdmin(user.id))) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    switch (action) {
+      case 'start-stream':
+        await filteredStream.start()
+        await systemLogger.info('Live Monitoring API', 'Filtered stream started', { userId: user.id }, user.id)
+        return NextResponse.json({ success: true, streamId: 'filtered-stream', status: filteredStream.getStatus() })
+
+      case 'stop-stream':
+        filteredStream.stop()
+        await systemLogger.info('Live Monitoring API', 'Filtered stream stopped', { userId: user.id }, user.id)
+        return NextResponse.json({ success: true, status: filteredStream.getStatus() })
+
+      case 'sync-rules': {
+        const result = await filteredStream.syncRules()
+        return NextResponse.json({ success: true, ...result, status: filteredStream.getStatus() })
+      }
+
+      default:
+        return NextResponse.json({ success: true, status: filteredStream.getStatus() })
+    }
+  } catch (error) {
+    await systemLogger.error('Live Monitoring API', 'Live monitoring action failed', { error })
+    return NextResponse.json(
+      { error: 'Live monitoring action failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { MentionsInbox } from '@/lib/ai/mentions-inbox'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+/**
+ * Mark mentions as read; all of the user's unread mentions when no ids are sent
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { mentionIds } = await request.json().catch(() => ({}))
+    if (mentionIds !== undefined && !Array.isArray(mentionIds)) {
+      return NextResponse.json({ error: 'mentionIds must be an array' }, { status: 400 })
+    }
+
+    const inbox = new MentionsInbox(supabase)
+    await inbox.markRead(user.id, mentionIds)
+
+    return NextResponse.json({ success: true, unreadCount: await inbox.getUnreadCount(user.id) })
+  } catch (error) {
+    await systemLogger.error('Mentions API', 'Failed to mark mentions read', { error })
+    return NextResponse.json(
+      { error: 'Failed to mark mentions read', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { MentionsInbox } from '@/lib/ai/mentions-inbox'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+/**
+ * List the current user's mentions with their unread count
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const inbox = new MentionsInbox(supabase)
+
+    const mentions = await inbox.getMentions(user.id, {
+      accountId: searchParams.get('accountId') || undefined,
+      unreadOnly: searchParams.get('unread') === 'true',
+      limit: parseInt(searchParams.get('limit') || '50')
+    })
+    const unreadCount = await inbox.getUnreadCount(user.id)
+
+    return NextResponse.json({ mentions, unreadCount })
+  } catch (error) {
+    await systemLogger.error('Mentions API', 'Failed to fetch mentions', { error })
+    return NextResponse.json(
+      { error: 'Failed to fetch mentions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Pull new mentions of a connected account into the inbox
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const result = await new MentionsInbox(supabase).syncMentions(user.id, body.accountId)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.includes('Rate limited')) {
+      await systemLogger.warn('Mentions API', 'Mentions sync rate limited', { error: message })
+      return NextResponse.json({ error: 'rate_limited', message }, { status: 429 })
+    }
+
+    await systemLogger.error('Mentions API', 'Mentions sync failed', { error })
+    return NextResponse.json(
+      { error: 'Failed to sync mentions', details: message },
+      { status: 500 }
+    )
+  }
+}
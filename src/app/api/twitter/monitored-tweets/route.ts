@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { MonitoredTweetsService } from '@/lib/database/monitored-tweets'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { TriageStatus, TRIAGE_STATUSES } from '@/types/database'
+
+/**
+ * List the current user's monitored tweets with a count per triage status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as TriageStatus | null
+    if (status && !TRIAGE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Use: ${TRIAGE_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const service = new MonitoredTweetsService()
+    const tweets = await service.getTweets(user.id, {
+      status: status || undefined,
+      limit: parseInt(searchParams.get('limit') || '50')
+    })
+    const counts = await service.getStatusCounts(user.id)
+
+    return NextResponse.json({ tweets, counts })
+  } catch (error) {
+    await systemLogger.error('Monitored Tweets API', 'Failed to fetch monitored tweets', { error })
+    return NextResponse.json(
+      { error: 'Failed to fetch monitored tweets', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Move monitored tweets to a triage status. Snoozing takes snoozedUntil
+ * or snoozeMinutes.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { ids, status, snoozedUntil, snoozeMinutes } = await request.json().catch(() => ({}))
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json({ error: 'ids must be a non-empty array' }, { status: 400 })
+    }
+    if (!TRIAGE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Use: ${TRIAGE_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let until: string | undefined
+    if (status === 'snoozed') {
+      until = snoozedUntil || (snoozeMinutes ? new Date(Date.now() + snoozeMinutes * 60000).toISOString() : undefined)
+      if (!until || isNaN(new Date(until).getTime()) || new Date(until).getTime() <= Date.now()) {
+        return NextResponse.json(
+          { error: 'Snoozing requires snoozedUntil in the future or a positive snoozeMinutes' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const tweets = await new MonitoredTweetsService().updateStatus(user.id, ids, status, until)
+
+    await systemLogger.info('Monitored Tweets API', 'Triage status updated', {
+      status,
+      count: tweets.length
+    }, user.id)
+
+    return NextResponse.json({ success: true, tweets })
+  } catch (error) {
+    await systemLogger.error('Monitored Tweets API', 'Failed to update triage status', { error })
+    return NextResponse.json(
+      { error: 'Failed to update triage status', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
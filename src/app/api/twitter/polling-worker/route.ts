@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { UserProfilesService } from '@/lib/database/user-profiles'
+import { intentPollingWorker } from '@/lib/twitter/intent-polling-worker'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+const WORKER_ACTIONS = ['start', 'stop', 'run-once', 'status']
+
+/**
+ * Control the background intent polling worker: start or stop it, run
+ * one pass over the users who are due, or read its status. The worker
+ * serves every user, so only admins can change it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { action } = await request.json().catch(() => ({}))
+    if (!WORKER_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Invalid action. Use: ${WORKER_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Check if user is admin
+    if (action !== 'status' && !(await new UserProfilesService().isAdmin(user.id))) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    switch (action) {
+      case 'start':
+        intentPollingWorker.start()
+        break
+
+      case 'stop':
+        intentPollingWorker.stop()
+        break
+
+      case 'run-once':
+        await intentPollingWorker.runOnce()
+        break
+    }
+
+    return NextResponse.json({ success: true, status: intentPollingWorker.getStatus(user.id) })
+  } catch (error) {
+    await systemLogger.error('Polling Worker API', 'Polling worker action failed', { error })
+    return NextResponse.json(
+      { error: 'Polling worker action failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
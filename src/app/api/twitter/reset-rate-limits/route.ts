@@ -12,9 +12,9 @@ export async function POST() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Reset rate limits
+    // Reset the shared rate limits for every token
     const rateLimiter = new TwitterRateLimiter()
-    rateLimiter.resetAllLimits()
+    await rateLimiter.resetAllLimits()
 
     return NextResponse.json({
       success: true,
@@ -1,11 +1,10 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { TwitterAPIService } from '@/lib/twitter/twitter-api'
-import { IntentFiltersService } from '@/lib/database/intent-filters'
+import { createAppTwitterAPI } from '@/lib/twitter/credential-resolver'
+import { IntentFiltersService, IntentFilter } from '@/lib/database/intent-filters'
 import { UserProfilesService } from '@/lib/database/user-profiles'
 import { systemLogger } from '@/lib/logging/system-logger'
-
-
+import { searchIntentFilters } from '@/lib/twitter/intent-search'
 
 export async function GET() {
   try {
@@ -47,14 +46,13 @@ export async function POST() {
 
     // Get user's intent filters
     const intentService = new IntentFiltersService()
-    const userKeywords = await intentService.getUserKeywords(user.id) || []
+    const filters = await intentService.getUserFilters(user.id).catch(() => [] as IntentFilter[])
     
-    if (userKeywords.length === 0) {
+    if (filters.length === 0) {
       // Create a default filter for new users
       try {
         const defaultKeyword = 'startup'
-        await intentService.addFilter(user.id, defaultKeyword)
-        userKeywords.push(defaultKeyword)
+        filters.push(await intentService.addFilter(user.id, defaultKeyword))
         
         await systemLogger.info('Live Search', 'Created default intent filter for new user', {
           userId: user.id,
@@ -75,31 +73,33 @@ export async function POST() {
       }
     }
 
-    // Initialize Twitter API service with only the required credentials
-    const twitterAPI = new TwitterAPIService({
-      apiKey: process.env.TWITTER_API_KEY || '',
-      apiSecret: process.env.TWITTER_API_SECRET || '',
-      accessToken: '', // Not needed for Bearer token auth
-      accessTokenSecret: '', // Not needed for Bearer token auth
-      bearerToken: process.env.TWITTER_BEARER_TOKEN || ''
-    })
+    // Searching is a read, so it uses the app-only Bearer token
+    const twitterAPI = createAppTwitterAPI()
 
-    // Build search query from user keywords
+    const userKeywords = filters.map(filter => filter.keyword)
     const searchQuery = userKeywords.map(keyword => `"${keyword}"`).join(' OR ')
     
-    // Search Twitter with user's filters
+    // Search each filter separately so each can resume from its own since_id
     try {
-      const searchResult = await twitterAPI.searchTweets(searchQuery, {
-        keywords: userKeywords,
-        excludeRetweets: true,
-        excludeReplies: false,
-        languages: ['en']
-      }, 10) // Get up to 10 recent tweets for better performance
+      const result = await searchIntentFilters(twitterAPI, user.id, filters)
+      const searchResult = {
+        data: result.tweets,
+        includes: { users: result.users },
+        meta: {
+          result_count: result.tweets.length,
+          newest_id: result.tweets[0]?.id,
+          pages_fetched: result.pagesFetched,
+          complete: result.complete,
+          stored: result.stored.length,
+          analyzed: result.analyzed
+        }
+      }
 
       await systemLogger.info('Live Search', 'Twitter search completed', {
         userId: user.id,
         keywords: userKeywords,
-        resultCount: searchResult.data?.length || 0
+        resultCount: searchResult.data.length,
+        pagesFetched: result.pagesFetched
       })
 
       return NextResponse.json({
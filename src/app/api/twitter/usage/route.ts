@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TwitterOAuthConnectionService } from '@/lib/database/twitter-oauth-connections'
+import { usageLedger } from '@/lib/usage/usage-ledger'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * This month's Twitter API usage for the app, with the caller's accounts
+ * broken out
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [summary, connections] = await Promise.all([
+      usageLedger.getSummary(),
+      new TwitterOAuthConnectionService(supabase).getConnectionsByUserId(user.id)
+    ])
+
+    // Other users' accounts only show up in the app totals
+    const accounts = connections.map(connection => ({
+      id: connection.id,
+      twitter_username: connection.twitter_username,
+      reads: summary.accounts[connection.id]?.reads || 0,
+      writes: summary.accounts[connection.id]?.writes || 0
+    }))
+
+    return NextResponse.json({
+      success: true,
+      usage: { ...summary, accounts }
+    })
+  } catch (error) {
+    await systemLogger.error('Twitter Usage API', 'Failed to load usage', { error })
+    return NextResponse.json(
+      { error: 'Failed to load Twitter API usage' },
+      { status: 500 }
+    )
+  }
+}
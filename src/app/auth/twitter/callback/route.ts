@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { exchangeCodeForTokens } from '@/lib/auth/twitter-oauth2'
+import { TwitterOAuthConnectionService } from '@/lib/database/twitter-oauth-connections'
+import { getAppCredentials } from '@/lib/twitter/credential-resolver'
+import { TwitterAPIService, TwitterUser } from '@/lib/twitter/twitter-api'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+function redirectWithError(request: NextRequest, error: string, details?: string) {
+  const errorUrl = `/dashboard?error=${error}${details ? `&details=${encodeURIComponent(details)}` : ''}`
+  const response = NextResponse.redirect(new URL(errorUrl, request.url))
+  response.cookies.delete({ name: 'twitter_oauth_state', path: '/auth/twitter' })
+  response.cookies.delete({ name: 'twitter_oauth_verifier', path: '/auth/twitter' })
+  return response
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const code = searchParams.get('code')
+    const state = searchParams.get('state')
+    const error = searchParams.get('error')
+
+    if (error) {
+      return redirectWithError(request, `twitter_${error}`, searchParams.get('error_description') || undefined)
+    }
+
+    const expectedState = request.cookies.get('twitter_oauth_state')?.value
+    const codeVerifier = request.cookies.get('twitter_oauth_verifier')?.value
+
+    if (!code || !state || !expectedState || !codeVerifier || state !== expectedState) {
+      return redirectWithError(request, 'twitter_invalid_state')
+    }
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return redirectWithError(request, 'twitter_connect_unauthenticated')
+    }
+
+    const tokens = await exchangeCodeForTokens(code, codeVerifier)
+
+    // Identify which Twitter account was authorized
+    let me: TwitterUser | null
+    try {
+      me = await new TwitterAPIService({
+        ...getAppCredentials(),
+        oauth2: { accessToken: tokens.accessToken }
+      }).getAuthenticatedUser()
+    } catch (profileError) {
+      return redirectWithError(request, 'twitter_profile_failed', profileError instanceof Error ? profileError.message : undefined)
+    }
+    if (!me) {
+      return redirectWithError(request, 'twitter_profile_failed')
+    }
+
+    const connectionService = new TwitterOAuthConnectionService(supabase)
+    const tokenFields = {
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken,
+      token_expires_at: new Date(tokens.expiresAt).toISOString(),
+      twitter_username: me.username,
+      connection_status: 'connected' as const,
+      permissions: { scopes: tokens.scope?.split(' ') || [] },
+      last_used: new Date().toISOString()
+    }
+
+    // Other users' rows are hidden from the session client, so ownership is checked with the admin client
+    const existing = await new TwitterOAuthConnectionService(createAdminClient()).getConnectionByTwitterUserId(me.id)
+    if (existing && existing.user_id !== user.id) {
+      await systemLogger.warn('Twitter OAuth2', 'Twitter account already connected to another user', {
+        userId: user.id,
+        twitterUsername: me.username
+      }, user.id)
+      return redirectWithError(request, 'twitter_account_in_use', `@${me.username} is connected to another account; disconnect it there first`)
+    }
+
+    const connection = existing
+      ? await connectionService.updateConnection(existing.id, tokenFields)
+      : await connectionService.createConnection({
+          user_id: user.id,
+          twitter_user_id: me.id,
+          ...tokenFields
+        })
+
+    if (!connection) {
+      return redirectWithError(request, 'twitter_connection_save_failed')
+    }
+
+    await systemLogger.info('Twitter OAuth2', 'Twitter account connected', {
+      userId: user.id,
+      connectionId: connection.id,
+      twitterUsername: me.username
+    }, user.id)
+
+    const response = NextResponse.redirect(new URL('/dashboard?success=twitter_connected', request.url))
+    response.cookies.delete({ name: 'twitter_oauth_state', path: '/auth/twitter' })
+    response.cookies.delete({ name: 'twitter_oauth_verifier', path: '/auth/twitter' })
+    return response
+  } catch (error) {
+    await systemLogger.error('Twitter OAuth2', 'Callback failed', { error })
+    return redirectWithError(request, 'twitter_callback_error', error instanceof Error ? error.message : 'Unknown error')
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  buildAuthorizationUrl,
+  generateCodeChallenge,
+  generateCodeVerifier,
+  generateState
+} from '@/lib/auth/twitter-oauth2'
+
+const PKCE_COOKIE_MAX_AGE = 10 * 60 // 10 minutes
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Connecting a Twitter account requires an app session
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.redirect(new URL('/?error=twitter_connect_unauthenticated', request.url))
+    }
+
+    const state = generateState()
+    const codeVerifier = generateCodeVerifier()
+    const authorizationUrl = buildAuthorizationUrl(state, generateCodeChallenge(codeVerifier))
+
+    const response = NextResponse.redirect(authorizationUrl)
+    const cookieOptions = {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax' as const,
+      path: '/auth/twitter',
+      maxAge: PKCE_COOKIE_MAX_AGE
+    }
+
+    response.cookies.set('twitter_oauth_state', state, cookieOptions)
+    response.cookies.set('twitter_oauth_verifier', codeVerifier, cookieOptions)
+
+    return response
+  } catch (error) {
+    console.error('Twitter OAuth2: Failed to start authorization', error)
+    const errorUrl = `/dashboard?error=twitter_connect_failed&details=${encodeURIComponent(error instanceof Error ? error.message : 'Unknown error')}`
+    return NextResponse.redirect(new URL(errorUrl, request.url))
+  }
+}
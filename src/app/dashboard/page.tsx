@@ -9,6 +9,9 @@ import { Button } from "@/components/ui/button"
 import { IntentFilters } from "@/components/twitter-agent/intent-filters"
 
 import { LiveFeed } from "@/components/twitter-agent/live-feed"
+import { MentionsInbox } from "@/components/twitter-agent/mentions-inbox"
+import { TriageBacklog } from "@/components/twitter-agent/triage-backlog"
+import { UsagePanel } from "@/components/twitter-agent/usage-panel"
 
 import SimpleContentGenerator from "@/components/twitter-agent/simple-content-generator"
 
@@ -127,6 +130,9 @@ export default function DashboardPage() {
                       selectedTone={selectedTone}
                     />
                   </div>
+                  <TriageBacklog />
+                  <MentionsInbox />
+                  <UsagePanel />
                 </TabsContent>
 
                 <TabsContent value="create" className="mt-6">
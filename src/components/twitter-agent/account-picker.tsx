@@ -0,0 +1,60 @@
+"use client"
+
+import { useId } from "react"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { AtSign, Plus } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useTwitterAccounts } from "@/lib/hooks/useTwitterAccounts"
+import { TwitterOAuthService } from "@/lib/auth/twitter-oauth"
+
+interface AccountPickerProps {
+  value: string
+  onChange: (accountId: string) => void
+  label?: string
+  className?: string
+}
+
+export function AccountPicker({ value, onChange, label = "Post as", className }: AccountPickerProps) {
+  const { connectedAccounts, loading, error } = useTwitterAccounts()
+  const selectId = useId()
+
+  const handleConnect = () => {
+    new TwitterOAuthService().connectPostingAccount()
+  }
+
+  if (!loading && connectedAccounts.length === 0) {
+    return (
+      <div className={cn("flex items-center justify-between gap-2 rounded-md border border-dashed p-2 text-sm text-gray-600", className)}>
+        <span>{error ? 'Could not load Twitter accounts' : 'No Twitter account connected'}</span>
+        <Button size="sm" variant="outline" onClick={handleConnect}>
+          <Plus className="mr-1 h-4 w-4" />
+          Connect
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <Label htmlFor={selectId} className="flex items-center gap-1 text-xs text-gray-700">
+        <AtSign className="h-3 w-3 text-cyan-600" />
+        {label}
+      </Label>
+      <select
+        id={selectId}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={loading}
+        className="w-full p-2 border rounded-md text-sm"
+      >
+        <option value="">{loading ? 'Loading accounts...' : 'Default account'}</option>
+        {connectedAccounts.map((account) => (
+          <option key={account.id} value={account.id}>
+            @{account.twitter_username}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
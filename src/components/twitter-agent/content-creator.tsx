@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Switch } from '@/components/ui/switch'
 import { AIResponse } from '@/types/ai'
+import { AccountPicker } from '@/components/twitter-agent/account-picker'
 
 interface ContentSuggestion {
   suggestionId: number
@@ -17,6 +18,12 @@ interface ContentSuggestion {
   content: AIResponse
 }
 
+interface PendingMedia {
+  file: File
+  altText: string
+  aiSuggested: boolean
+}
+
 interface ContentCreatorProps {
   onContentCreated?: (content: AIResponse) => void
   onClose?: () => void
@@ -36,6 +43,11 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
   const [customEmojis, setCustomEmojis] = useState('')
   const [scheduledAt, setScheduledAt] = useState('')
   const [postingTimeSlot, setPostingTimeSlot] = useState('')
+  const [accountId, setAccountId] = useState('')
+  const [pollOptions, setPollOptions] = useState<string[]>(['', ''])
+  const [pollDuration, setPollDuration] = useState(1440)
+  const [mediaFiles, setMediaFiles] = useState<PendingMedia[]>([])
+  const [suggestingAltFor, setSuggestingAltFor] = useState<number | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -43,14 +55,29 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
     { value: 'varied', label: 'Varied Content', icon: '🎲', description: 'AI-generated diverse content mix' },
     { value: 'networking_tips', label: 'Networking Tips', icon: '🤝', description: 'Professional networking advice and strategies' },
     { value: 'ai_insights', label: 'AI Superconnector', icon: '🧠', description: 'AI superconnector concept and value' },
-    { value: 'startup_humor', label: 'Founder Humor', icon: '😄', description: 'Founder-friendly humor and tech memes' }
+    { value: 'startup_humor', label: 'Founder Humor', icon: '😄', description: 'Founder-friendly humor and tech memes' },
+    { value: 'poll', label: 'Audience Poll', icon: '📊', description: 'A question with 2-4 options to vote on' }
+  ]
+
+  const pollDurations = [
+    { value: 5, label: '5 minutes' },
+    { value: 60, label: '1 hour' },
+    { value: 1440, label: '1 day' },
+    { value: 4320, label: '3 days' },
+    { value: 10080, label: '7 days' }
   ]
 
+  const isPoll = contentType === 'poll'
+
   const timeSlots = [
     '9:00 AM', '12:00 PM', '3:00 PM', '6:00 PM', '9:00 PM'
   ]
 
   const generateContent = async () => {
+    if (isPoll) {
+      return generatePoll()
+    }
+
     try {
       setLoading(true)
       setError(null)
@@ -84,6 +111,109 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
     }
   }
 
+  const generatePoll = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/ai/generate-poll', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ context: context || undefined })
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        const poll = data.data.poll
+        setSelectedContent(null)
+        setCustomContent(poll.question)
+        setCustomHashtags(poll.hashtags?.join(', ') || '')
+        setCustomEmojis('')
+        setPollOptions(poll.options)
+        // Snap to the nearest duration the picker offers
+        setPollDuration(pollDurations.reduce((closest, duration) =>
+          Math.abs(duration.value - poll.durationMinutes) < Math.abs(closest - poll.durationMinutes)
+            ? duration.value
+            : closest
+        , pollDurations[0].value))
+      } else {
+        setError(data.error || 'Failed to generate poll')
+      }
+    } catch (error) {
+      setError('Failed to generate poll')
+      console.error('Error generating poll:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updatePollOption = (index: number, value: string) => {
+    setPollOptions(prev => prev.map((option, i) => (i === index ? value : option)))
+  }
+
+  const addMediaFiles = (files: FileList | null) => {
+    if (!files) return
+    const added = Array.from(files).map(file => ({ file, altText: '', aiSuggested: false }))
+    setMediaFiles(prev => [...prev, ...added].slice(0, 4))
+  }
+
+  const updateMediaAltText = (index: number, altText: string, aiSuggested = false) => {
+    setMediaFiles(prev => prev.map((media, i) => (i === index ? { ...media, altText, aiSuggested } : media)))
+  }
+
+  const suggestAltText = async (index: number) => {
+    try {
+      setSuggestingAltFor(index)
+      setError(null)
+
+      const formData = new FormData()
+      formData.append('file', mediaFiles[index].file)
+      if (customContent.trim()) {
+        formData.append('context', customContent)
+      }
+
+      const response = await fetch('/api/ai/suggest-alt-text', {
+        method: 'POST',
+        body: formData
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        updateMediaAltText(index, data.altText, true)
+      } else {
+        setError(data.error || 'Failed to suggest alt text')
+      }
+    } catch (error) {
+      setError('Failed to suggest alt text')
+      console.error('Error suggesting alt text:', error)
+    } finally {
+      setSuggestingAltFor(null)
+    }
+  }
+
+  // Attach pending media to a created content item
+  const uploadMediaFiles = async (contentId: string) => {
+    for (const media of mediaFiles) {
+      const formData = new FormData()
+      formData.append('contentId', contentId)
+      formData.append('file', media.file)
+      formData.append('altText', media.altText)
+      formData.append('altTextAISuggested', String(media.aiSuggested))
+
+      const response = await fetch('/api/content/media', {
+        method: 'POST',
+        body: formData
+      })
+
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.details || data.error || `Failed to attach ${media.file.name}`)
+      }
+    }
+  }
+
   const getContentSuggestions = async () => {
     try {
       setLoading(true)
@@ -112,6 +242,49 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
     setCustomEmojis(suggestion.content.emojis?.join(' ') || '')
   }
 
+  // Convert a date and a "9:00 AM" style slot into an ISO timestamp
+  const toScheduledAt = (date: string, slot: string) => {
+    const [time, period] = slot.split(' ')
+    const [hours, minutes] = time.split(':').map(Number)
+    const scheduled = new Date(`${date}T00:00:00`)
+    scheduled.setHours((hours % 12) + (period === 'PM' ? 12 : 0), minutes)
+    return scheduled.toISOString()
+  }
+
+  const schedulePoll = async () => {
+    const options = pollOptions.map(option => option.trim()).filter(Boolean)
+    if (options.length < 2) {
+      setError('Polls need at least 2 options')
+      return
+    }
+
+    const isScheduled = Boolean(scheduledAt && postingTimeSlot)
+    const hashtags = customHashtags.split(',').map(tag => tag.trim()).filter(Boolean)
+
+    const response = await fetch('/api/content/schedule', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        content_type: 'poll',
+        content: [customContent.trim(), ...hashtags].join(' '),
+        status: isScheduled ? 'scheduled' : 'draft',
+        scheduled_at: isScheduled ? toScheduledAt(scheduledAt, postingTimeSlot) : undefined,
+        account_id: accountId || undefined,
+        poll_options: options,
+        poll_duration_minutes: pollDuration
+      })
+    })
+
+    const data = await response.json()
+
+    if (data.success) {
+      onContentCreated?.(data.content)
+      setError(null)
+    } else {
+      setError(data.error || 'Failed to schedule poll')
+    }
+  }
+
   const scheduleContent = async () => {
     try {
       if (!customContent.trim()) {
@@ -119,6 +292,13 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
         return
       }
 
+      if (isPoll) {
+        setLoading(true)
+        setError(null)
+        await schedulePoll()
+        return
+      }
+
       setLoading(true)
       setError(null)
 
@@ -139,6 +319,16 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
       const contentData = await contentResponse.json()
       
       if (contentData.success) {
+        if (mediaFiles.length > 0) {
+          try {
+            await uploadMediaFiles(contentData.data.id)
+            setMediaFiles([])
+          } catch (error) {
+            setError(error instanceof Error ? error.message : 'Content created but media upload failed')
+            return
+          }
+        }
+
         // Schedule content if date/time provided
         if (scheduledAt && postingTimeSlot) {
           const scheduleResponse = await fetch('/api/content/calendar', {
@@ -149,7 +339,8 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
               userId: 'current', // This should come from auth context
               scheduledAt,
               postingTimeSlot,
-              timezone: 'UTC'
+              timezone: 'UTC',
+              accountId: accountId || undefined
             })
           })
 
@@ -281,6 +472,18 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
                 <div className="text-red-500 text-sm">{error}</div>
               )}
 
+              {isPoll && customContent && (
+                <div className="mt-4 p-4 border rounded-lg bg-muted/50">
+                  <h4 className="font-medium mb-2">Generated Poll:</h4>
+                  <p className="text-sm mb-2">{customContent}</p>
+                  <div className="space-y-1">
+                    {pollOptions.filter(Boolean).map((option, index) => (
+                      <div key={index} className="text-xs border rounded-md px-2 py-1">{option}</div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {selectedContent && (
                 <div className="mt-4 p-4 border rounded-lg bg-muted/50">
                   <h4 className="font-medium mb-2">Generated Content:</h4>
@@ -317,7 +520,7 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
                     onChange={(e) => setContentType(e.target.value)}
                     className="w-full p-2 border rounded-md"
                   >
-                    {contentTypes.map((type) => (
+                    {contentTypes.filter((type) => type.value !== 'poll').map((type) => (
                       <option key={type.value} value={type.value}>
                         {type.label}
                       </option>
@@ -381,7 +584,7 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="customContent">Content</Label>
+                <Label htmlFor="customContent">{isPoll ? 'Poll Question' : 'Content'}</Label>
                 <Textarea
                   id="customContent"
                   placeholder="Enter your content here..."
@@ -395,6 +598,54 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
                 </div>
               </div>
 
+              {isPoll && (
+                <div className="space-y-2">
+                  <Label>Poll Options</Label>
+                  {pollOptions.map((option, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <Input
+                        placeholder={`Option ${index + 1}`}
+                        value={option}
+                        onChange={(e) => updatePollOption(index, e.target.value)}
+                        maxLength={25}
+                      />
+                      {pollOptions.length > 2 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPollOptions(prev => prev.filter((_, i) => i !== index))}
+                        >
+                          Remove
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    {pollOptions.length < 4 ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPollOptions(prev => [...prev, ''])}
+                      >
+                        Add option
+                      </Button>
+                    ) : <span />}
+                    <select
+                      id="pollDuration"
+                      value={pollDuration}
+                      onChange={(e) => setPollDuration(parseInt(e.target.value))}
+                      className="p-2 border rounded-md text-sm"
+                    >
+                      {pollDurations.map((duration) => (
+                        <option key={duration.value} value={duration.value}>
+                          {duration.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="customHashtags">Hashtags (comma-separated)</Label>
@@ -416,6 +667,57 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
                 </div>
               </div>
 
+              {!isPoll && (
+                <div className="space-y-2">
+                  <Label htmlFor="mediaFiles">Images (up to 4)</Label>
+                  <Input
+                    id="mediaFiles"
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp,image/gif"
+                    multiple
+                    disabled={mediaFiles.length >= 4}
+                    onChange={(e) => {
+                      addMediaFiles(e.target.files)
+                      e.target.value = ''
+                    }}
+                  />
+                  {mediaFiles.map((media, index) => (
+                    <div key={`${media.file.name}-${index}`} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium truncate">{media.file.name}</span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setMediaFiles(prev => prev.filter((_, i) => i !== index))}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                      <Textarea
+                        placeholder="Describe this image for people using screen readers..."
+                        value={media.altText}
+                        onChange={(e) => updateMediaAltText(index, e.target.value)}
+                        rows={2}
+                        maxLength={1000}
+                      />
+                      <div className="flex items-center justify-between">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => suggestAltText(index)}
+                          disabled={suggestingAltFor !== null}
+                        >
+                          {suggestingAltFor === index ? 'Suggesting...' : 'Suggest alt text'}
+                        </Button>
+                        {media.aiSuggested && (
+                          <Badge variant="secondary">AI suggested</Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div className="text-sm text-muted-foreground">
                 <p>💡 Tip: Keep hashtags relevant and limit to 2-3 per post for better engagement.</p>
               </div>
@@ -461,6 +763,8 @@ export default function ContentCreator({ onContentCreated, onClose }: ContentCre
                 </div>
               </div>
 
+              <AccountPicker value={accountId} onChange={setAccountId} />
+
               <div className="text-sm text-muted-foreground">
                 <p>📅 Optimal posting times are automatically calculated based on your audience engagement patterns.</p>
               </div>
@@ -4,9 +4,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { MessageSquareQuote, RefreshCw, AlertCircle, Loader2, Sparkles } from "lucide-react"
+import { MessageSquareQuote, RefreshCw, AlertCircle, Loader2, Sparkles, Radio, Bot, BadgeCheck } from "lucide-react"
 import { cn } from "@/lib/utils"
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
+import { realtimeService } from "@/lib/realtime/subscriptions"
+import type { AgentDecisionEvent, RateLimitEvent } from "@/lib/realtime/live-events"
+import { MonitoredTweet } from "@/types/database"
 import { ReplySuggestions } from "./reply-suggestions"
 import { ReplySuggestion, Tone } from "@/lib/ai/reply-generator"
 
@@ -15,6 +18,11 @@ interface TweetData {
   text: string
   author_id: string
   created_at: string
+  conversation_id?: string
+  referenced_tweets?: Array<{
+    type: 'retweeted' | 'replied_to' | 'quoted'
+    id: string
+  }>
   public_metrics?: {
     retweet_count: number
     reply_count: number
@@ -23,15 +31,20 @@ interface TweetData {
   }
 }
 
+interface FeedAuthor {
+  username: string
+  name: string
+  verified?: boolean
+  description?: string
+  public_metrics?: {
+    followers_count: number
+  }
+}
+
 interface TwitterSearchResult {
   tweets: TweetData[]
   includes?: {
-    users?: Array<{
-      id: string
-      username: string
-      name: string
-      profile_image_url?: string
-    }>
+    users?: Array<FeedAuthor & { id: string }>
   }
   searchQuery: string
   keywords: string[]
@@ -42,12 +55,17 @@ type FeedItem = {
   id: string
   user: string
   handle: string
+  verified: boolean
+  followers?: number
+  bio?: string
   text: string
   tags: string[]
   minutesAgo: number
   engagement: number
 }
 
+const POLL_INTERVAL_MS = 60000
+
 interface LiveFeedProps {
   className?: string
   selectedTone?: Tone
@@ -55,7 +73,7 @@ interface LiveFeedProps {
 
 export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps) {
   const [tweets, setTweets] = useState<TweetData[]>([])
-  const [users, setUsers] = useState<Record<string, { username: string; name: string }>>({})
+  const [users, setUsers] = useState<Record<string, FeedAuthor>>({})
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState<string>("")
@@ -70,7 +88,7 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
   // Transform tweets to feed items
   const transformTweetsToFeed = (tweets: TweetData[]): FeedItem[] => {
     return tweets.map(tweet => {
-      const user = users[tweet.author_id] || { username: 'Unknown User', name: 'Unknown User' }
+      const user: FeedAuthor = users[tweet.author_id] || { username: 'Unknown User', name: 'Unknown User' }
       const engagement = tweet.public_metrics ? 
         tweet.public_metrics.retweet_count + tweet.public_metrics.reply_count + 
         tweet.public_metrics.like_count + tweet.public_metrics.quote_count : 0
@@ -79,6 +97,9 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
         id: tweet.id,
         user: user.name,
         handle: user.username,
+        verified: Boolean(user.verified),
+        followers: user.public_metrics?.followers_count,
+        bio: user.description,
         text: tweet.text,
         tags: keywords,
         minutesAgo: tweet.created_at ? Math.floor((Date.now() - new Date(tweet.created_at).getTime()) / 60000) : 0,
@@ -104,24 +125,30 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
       
       const data: TwitterSearchResult = await response.json()
       
+      // Each search only returns tweets newer than the last one, so add them on top
       if (data.tweets.length === 0) {
-        setTweets([])
-        setError(data.message || 'No tweets found')
+        if (tweets.length === 0) {
+          setError(data.message || 'No tweets found')
+        }
+        setLastRefresh(new Date())
         return
       }
       
-      setTweets(data.tweets)
+      setTweets(prev => {
+        const seen = new Set(data.tweets.map(tweet => tweet.id))
+        return [...data.tweets, ...prev.filter(tweet => !seen.has(tweet.id))]
+      })
       setSearchQuery(data.searchQuery)
       setKeywords(data.keywords)
       setLastRefresh(new Date())
       
       // Process user data from includes
       if (data.includes?.users) {
-        const userMap: Record<string, { username: string; name: string }> = {}
-        data.includes.users.forEach(user => {
-          userMap[user.id] = { username: user.username, name: user.name }
+        const userMap: Record<string, FeedAuthor> = {}
+        data.includes.users.forEach(({ id, ...user }) => {
+          userMap[id] = user
         })
-        setUsers(userMap)
+        setUsers(prev => ({ ...prev, ...userMap }))
       }
       
       setError(null)
@@ -138,11 +165,74 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
     searchTwitter()
   }
 
+  // Live mode: matches, rate limits and agent decisions arrive over the
+  // live monitoring event stream; without it we poll search instead
+  const [liveStatus, setLiveStatus] = useState<'connecting' | 'live' | 'polling'>('connecting')
+  const [rateLimits, setRateLimits] = useState<Record<string, RateLimitEvent>>({})
+  const [decisions, setDecisions] = useState<Record<string, AgentDecisionEvent>>({})
+  const searchRef = useRef(searchTwitter)
+  searchRef.current = searchTwitter
+
+  const addStreamedTweet = (row: MonitoredTweet) => {
+    setTweets(prev => prev.some(tweet => tweet.id === row.tweet_id) ? prev : [{
+      id: row.tweet_id,
+      text: row.text,
+      author_id: row.author_id,
+      created_at: row.tweet_created_at || row.created_at
+    }, ...prev])
+    if (row.author_username) {
+      // Keep a full profile from an earlier search over the bare handle the stream row carries
+      setUsers(prev => prev[row.author_id]
+        ? prev
+        : { ...prev, [row.author_id]: { username: row.author_username!, name: row.author_username! } })
+    }
+    setLastRefresh(new Date())
+  }
+
+  useEffect(() => {
+    realtimeService.startLiveStream(event => {
+      switch (event.type) {
+        case 'connected':
+          setLiveStatus('live')
+          break
+        case 'tweet':
+          addStreamedTweet(event.data)
+          break
+        case 'rate_limit':
+          setRateLimits(prev => ({ ...prev, [event.data.endpoint]: event.data }))
+          break
+        case 'agent_decision':
+          setDecisions(prev => ({ ...prev, [event.data.tweetId]: event.data }))
+          break
+        case 'unavailable':
+          setLiveStatus('polling')
+          break
+      }
+    })
+
+    return () => {
+      realtimeService.stopLiveStream()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (liveStatus !== 'polling') {
+      return
+    }
+
+    searchRef.current()
+    const interval = setInterval(() => searchRef.current(), POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [liveStatus])
+
+  const limitedEndpoints = Object.values(rateLimits).filter(limit => limit.limited && limit.resetTime > Date.now())
+
   const handleSuggestReply = async (tweetId: string, tweetContent: string, authorUsername: string) => {
     try {
       setGeneratingReplies(prev => ({ ...prev, [tweetId]: true }))
       setShowSuggestions(prev => ({ ...prev, [tweetId]: true }))
       
+      const tweet = tweets.find(t => t.id === tweetId)
       const response = await fetch('/api/ai/generate-reply', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -152,7 +242,9 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
           authorUsername,
           userKeywords: keywords,
           tone: selectedTone,
-          engagementMetrics: tweets.find(t => t.id === tweetId)?.public_metrics
+          engagementMetrics: tweet?.public_metrics,
+          conversationId: tweet?.conversation_id,
+          inReplyToTweetId: tweet?.referenced_tweets?.find(ref => ref.type === 'replied_to')?.id
         })
       })
       
@@ -192,7 +284,7 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
   const localTweets = transformTweetsToFeed(tweets)
 
   // Show empty state when no tweets and not loading
-  if (!loading && tweets.length === 0 && !lastRefresh) {
+  if (!loading && tweets.length === 0 && !lastRefresh && liveStatus === 'polling') {
     return (
       <Card className={cn(className, "bg-white border-gray-200 shadow-sm")}>
         <CardHeader>
@@ -205,7 +297,7 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
           <div className="text-center py-8">
             <MessageSquareQuote className="h-12 w-12 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No tweets loaded yet</h3>
-            <p className="text-gray-600 mb-4">Click the refresh button below to start monitoring your intent filters</p>
+            <p className="text-gray-600 mb-4">Live updates are unavailable, so the feed checks your intent filters every minute</p>
             <Button 
               onClick={handleRefresh} 
               disabled={loading}
@@ -219,7 +311,7 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
               ) : (
                 <>
                   <RefreshCw className="mr-2 h-4 w-4" />
-                  Start Monitoring
+                  Check now
                 </>
               )}
             </Button>
@@ -292,6 +384,13 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
             )}
             Refresh
           </Button>
+          <Badge
+            variant="outline"
+            className={liveStatus === 'live' ? "border-cyan-200 text-cyan-700 bg-cyan-50" : "border-gray-200 text-gray-600"}
+          >
+            <Radio className={cn("mr-1 h-3 w-3", liveStatus === 'live' && "animate-pulse")} />
+            {liveStatus === 'live' ? 'Live' : liveStatus === 'polling' ? 'Polling' : 'Connecting'}
+          </Badge>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -302,6 +401,16 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
           </div>
         )}
         
+        {limitedEndpoints.length > 0 && (
+          <div className="flex items-center gap-2 text-amber-700 p-3 bg-amber-50 rounded-md border border-amber-200 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            <span>
+              Rate limited on {limitedEndpoints.map(limit => limit.endpoint).join(', ')} until{' '}
+              {new Date(Math.max(...limitedEndpoints.map(limit => limit.resetTime))).toLocaleTimeString()}
+            </span>
+          </div>
+        )}
+
         {searchQuery && (
           <div className="text-xs text-gray-500 p-2 bg-gray-50 rounded border">
             <strong>Search:</strong> {searchQuery}
@@ -323,12 +432,30 @@ export function LiveFeed({ className, selectedTone = 'HELPFUL' }: LiveFeedProps)
                     <Avatar className="h-8 w-8">
                       <AvatarFallback className="bg-cyan-100 text-cyan-700">{item.user.slice(0, 2).toUpperCase()}</AvatarFallback>
                     </Avatar>
-                    <div>
-                      <p className="text-sm font-medium leading-none text-gray-900">{item.user}</p>
-                      <p className="text-xs text-gray-500">@{item.handle}</p>
+                    <div title={item.bio}>
+                      <p className="flex items-center gap-1 text-sm font-medium leading-none text-gray-900">
+                        {item.user}
+                        {item.verified && <BadgeCheck className="h-3.5 w-3.5 text-cyan-600" />}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        @{item.handle}
+                        {item.followers !== undefined && ` · ${item.followers.toLocaleString()} followers`}
+                      </p>
                     </div>
                   </div>
-                  <div className="text-right">
+                  <div className="flex items-center gap-2">
+                    {decisions[item.id] && (
+                      <Badge
+                        variant="outline"
+                        title={decisions[item.id].reasoning}
+                        className={decisions[item.id].action === 'respond' ? "border-green-200 text-green-700" : "border-gray-200 text-gray-600"}
+                      >
+                        <Bot className="mr-1 h-3 w-3" />
+                        <span className="capitalize">{decisions[item.id].action}</span>
+                        {decisions[item.id].action === 'respond' && ` (${decisions[item.id].responseType || 'reply'})`}
+                        {' '}· P{decisions[item.id].priority}
+                      </Badge>
+                    )}
                     <time className="text-xs text-gray-500">{item.minutesAgo}m</time>
                   </div>
                 </header>
@@ -0,0 +1,111 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { AtSign, RefreshCw, AlertCircle, Loader2, CheckCheck } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useMentions } from "@/lib/hooks/useMentions"
+
+interface MentionsInboxProps {
+  className?: string
+}
+
+export function MentionsInbox({ className }: MentionsInboxProps) {
+  const { mentions, unreadCount, loading, syncing, error, syncMentions, markRead } = useMentions()
+
+  const minutesAgo = (date: string) => Math.floor((Date.now() - new Date(date).getTime()) / 60000)
+
+  return (
+    <Card className={cn(className, "bg-white border-gray-200 shadow-sm")}>
+      <CardHeader className="flex items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-gray-900">
+          <AtSign className="h-5 w-5 text-cyan-600" />
+          Mentions
+          {unreadCount > 0 && (
+            <Badge className="bg-cyan-600 text-white">{unreadCount} unread</Badge>
+          )}
+        </CardTitle>
+        <div className="flex items-center gap-3">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => markRead()}
+            disabled={unreadCount === 0}
+            className="border-gray-200 text-gray-700 hover:bg-gray-50"
+          >
+            <CheckCheck className="mr-2 h-4 w-4" />
+            Mark all read
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => syncMentions()}
+            disabled={syncing}
+            className="border-gray-200 text-gray-700 hover:bg-gray-50"
+          >
+            {syncing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Check mentions
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 text-red-600 p-3 bg-red-50 rounded-md border border-red-200">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {loading && mentions.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-cyan-600" />
+          </div>
+        ) : mentions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <AtSign className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p>No mentions yet</p>
+            <p className="text-sm">Mentions of your connected account show up here</p>
+          </div>
+        ) : (
+          mentions.map((mention) => (
+            <article
+              key={mention.id}
+              onClick={() => !mention.read_at && markRead([mention.id])}
+              className={cn(
+                "rounded-md border p-4 w-full cursor-pointer",
+                mention.read_at ? "border-gray-200 bg-gray-50" : "border-cyan-200 bg-cyan-50"
+              )}
+            >
+              <header className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarFallback className="bg-cyan-100 text-cyan-700">
+                      {(mention.author_username || '?').slice(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">@{mention.author_username || mention.author_id}</p>
+                    <p className="text-xs text-gray-500">{minutesAgo(mention.mentioned_at)}m ago</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {!mention.read_at && <Badge className="bg-cyan-600 text-white">New</Badge>}
+                  {mention.response_id && (
+                    <Badge variant="outline" className="border-green-200 text-green-700">Reply drafted</Badge>
+                  )}
+                </div>
+              </header>
+              <p className="text-sm text-gray-800 whitespace-pre-wrap">{mention.text}</p>
+            </article>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,10 +5,11 @@ import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { Edit3, Send, ThumbsUp, AlertCircle, Loader2, RefreshCw } from "lucide-react"
+import { Edit3, Send, ThumbsUp, AlertCircle, Loader2, RefreshCw, Undo2, Trash2 } from "lucide-react"
 import { useDashboardData } from "@/contexts/DashboardDataContext"
-import { useState } from "react"
-import { ResponseStatus } from "@/types/database"
+import { useEffect, useRef, useState } from "react"
+import { ResponseStatus, ResponseType } from "@/types/database"
+import { AccountPicker } from "@/components/twitter-agent/account-picker"
 
 type Suggestion = {
   id: string
@@ -17,34 +18,102 @@ type Suggestion = {
   draft: string
   tags: string[]
   status: ResponseStatus
+  type: ResponseType
+  sendAt?: string
+  errorMessage?: string
 }
 
+type TypeFilter = 'all' | 'reply' | 'quote'
+
+const DUE_REFRESH_INTERVAL_MS = 5000
+
 export function ReplyQueue() {
   const { responses, tweets } = useDashboardData();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [accountId, setAccountId] = useState('');
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [now, setNow] = useState(() => Date.now());
+  const lastDueRefresh = useRef(0);
 
   // Transform responses to suggestions
   const suggestions: Suggestion[] = responses.data.map(response => {
+    // The API attaches the original tweet; the feed only still has recent ones
+    const original = response.original_tweet;
     const tweet = tweets.data.find(t => t.id === response.tweet_id);
     return {
       id: response.id,
-      source: tweet ? tweet.handle : 'Unknown',
-      original: tweet ? tweet.text : 'No content',
+      source: original?.author_username || tweet?.handle || 'Unknown',
+      original: original?.text || tweet?.text || 'No content',
       draft: response.content,
       tags: [response.intent, response.status],
-      status: response.status
+      status: response.status,
+      type: response.response_type,
+      sendAt: response.send_at,
+      errorMessage: response.error_message
     };
   });
 
+  const hasPendingSends = suggestions.some(s => s.status === 'sending');
+
+  // Tick the undo countdown; the server posts responses once their window ends
+  useEffect(() => {
+    if (!hasPendingSends) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasPendingSends]);
+
+  // Refresh while responses are past their window so their published status shows
+  useEffect(() => {
+    const due = suggestions.some(s => s.status === 'sending' && s.sendAt && new Date(s.sendAt).getTime() <= now);
+    if (!due || now - lastDueRefresh.current < DUE_REFRESH_INTERVAL_MS) return;
+
+    lastDueRefresh.current = now;
+    responses.refresh();
+  }, [now, suggestions, responses]);
+
+  const visibleSuggestions = typeFilter === 'all'
+    ? suggestions
+    : suggestions.filter(s => s.type === typeFilter);
+
   const handleApprove = async (id: string) => {
     try {
-      await responses.approveResponse(id);
+      await responses.approveResponse(id, accountId);
     } catch (error) {
       console.error('Failed to approve response:', error);
     }
   };
 
+  const handleSend = async (id: string) => {
+    try {
+      await responses.sendResponse(id);
+    } catch (error) {
+      console.error('Failed to send response:', error);
+    }
+  };
+
+  const handleUndoSend = async (id: string) => {
+    try {
+      await responses.cancelSend(id);
+    } catch (error) {
+      console.error('Failed to undo send:', error);
+    }
+  };
+
+  const handleDeleteTweet = async (id: string) => {
+    if (!window.confirm('Delete this tweet from Twitter? This cannot be undone.')) return;
+
+    try {
+      await responses.unpublishResponse(id);
+    } catch (error) {
+      console.error('Failed to delete tweet:', error);
+    }
+  };
+
+  const secondsUntil = (sendAt?: string) =>
+    sendAt ? Math.max(0, Math.ceil((new Date(sendAt).getTime() - now) / 1000)) : 0;
+
   const handleEdit = (id: string) => {
     setEditingId(id);
     if (!drafts[id]) {
@@ -125,20 +194,37 @@ export function ReplyQueue() {
         </Button>
       </CardHeader>
       <CardContent className="space-y-6">
-        {suggestions.length === 0 ? (
+        <AccountPicker value={accountId} onChange={setAccountId} label="Approve replies as" />
+        <div className="flex gap-2">
+          {(['all', 'reply', 'quote'] as TypeFilter[]).map((filter) => (
+            <Button
+              key={filter}
+              size="sm"
+              variant={typeFilter === filter ? 'default' : 'outline'}
+              onClick={() => setTypeFilter(filter)}
+            >
+              {filter === 'all' ? 'All' : filter === 'reply' ? 'Replies' : 'Quotes'}
+              {' '}({filter === 'all' ? suggestions.length : suggestions.filter(s => s.type === filter).length})
+            </Button>
+          ))}
+        </div>
+        {visibleSuggestions.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             <Edit3 className="h-12 w-12 mx-auto mb-4 text-gray-300" />
             <p>No suggested replies yet</p>
             <p className="text-sm">AI-generated responses will appear here for your review</p>
           </div>
         ) : (
-          suggestions.map((s) => (
-            <section key={s.id} aria-label="Suggested reply" className="rounded-md border p-3">
+          visibleSuggestions.map((s) => (
+            <section key={s.id} aria-label={s.type === 'quote' ? 'Suggested quote' : 'Suggested reply'} className="rounded-md border p-3">
               <div className="flex items-center justify-between">
                 <div className="text-sm">
                   <span className="text-muted-foreground">Source:</span> <span className="font-medium">{s.source}</span>
                 </div>
                 <div className="flex gap-2">
+                  <Badge variant={s.type === 'quote' ? 'default' : 'secondary'}>
+                    {s.type === 'quote' ? 'Quote' : 'Reply'}
+                  </Badge>
                   {s.tags.map((t) => (
                     <Badge key={t} variant="outline">
                       {t}
@@ -148,7 +234,7 @@ export function ReplyQueue() {
               </div>
 
               <p className="mt-2 text-sm leading-relaxed">
-                <span className="text-muted-foreground">Original: </span>
+                <span className="text-muted-foreground">{s.type === 'quote' ? 'Quoting: ' : 'Original: '}</span>
                 {s.original}
               </p>
 
@@ -156,7 +242,7 @@ export function ReplyQueue() {
 
               <div className="space-y-2">
                 <label htmlFor={`draft-${s.id}`} className="text-xs font-medium">
-                  Draft reply
+                  {s.type === 'quote' ? 'Draft quote' : 'Draft reply'}
                 </label>
                 {editingId === s.id ? (
                   <div className="space-y-2">
@@ -192,20 +278,45 @@ export function ReplyQueue() {
                   size="sm" 
                   variant="outline"
                   onClick={() => handleApprove(s.id)}
-                  disabled={s.status === 'approved'}
+                  disabled={s.status !== 'pending' && s.status !== 'rejected'}
                 >
                   <ThumbsUp className="mr-2 h-4 w-4" />
-                  {s.status === 'approved' ? 'Approved' : 'Approve'}
-                </Button>
-                <Button 
-                  size="sm" 
-                  className="bg-cyan-600 hover:bg-cyan-700 text-white"
-                  disabled={s.status !== 'approved'}
-                >
-                  <Send className="mr-2 h-4 w-4" />
-                  Send Now
+                  {s.status === 'pending' || s.status === 'rejected' ? 'Approve' : 'Approved'}
                 </Button>
-                <span className="ml-auto text-xs text-amber-600">Preview before posting.</span>
+                {s.status === 'sending' ? (
+                  <Button 
+                    size="sm" 
+                    variant="outline"
+                    onClick={() => handleUndoSend(s.id)}
+                    disabled={secondsUntil(s.sendAt) === 0}
+                  >
+                    <Undo2 className="mr-2 h-4 w-4" />
+                    Undo ({secondsUntil(s.sendAt)}s)
+                  </Button>
+                ) : s.status === 'published' ? (
+                  <Button 
+                    size="sm" 
+                    variant="outline"
+                    className="text-red-600"
+                    onClick={() => handleDeleteTweet(s.id)}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete Tweet
+                  </Button>
+                ) : (
+                  <Button 
+                    size="sm" 
+                    className="bg-cyan-600 hover:bg-cyan-700 text-white"
+                    onClick={() => handleSend(s.id)}
+                    disabled={s.status !== 'approved' && s.status !== 'failed'}
+                  >
+                    <Send className="mr-2 h-4 w-4" />
+                    {s.status === 'failed' ? 'Retry Send' : 'Send Now'}
+                  </Button>
+                )}
+                <span className="ml-auto text-xs text-amber-600">
+                  {s.status === 'failed' && s.errorMessage ? `Send failed: ${s.errorMessage}` : 'Preview before posting.'}
+                </span>
               </div>
             </section>
           ))
@@ -0,0 +1,156 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { Inbox, RefreshCw, AlertCircle, Loader2, Eye, MessageCircle, X, Clock } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useTriageBacklog } from "@/lib/hooks/useTriageBacklog"
+import { TriageStatus, TRIAGE_STATUSES } from "@/types/database"
+
+const SNOOZE_MINUTES = 240
+
+interface TriageBacklogProps {
+  className?: string
+}
+
+export function TriageBacklog({ className }: TriageBacklogProps) {
+  const { tweets, counts, status, loading, error, setStatus, refresh, updateStatus } = useTriageBacklog()
+
+  const minutesAgo = (date: string) => Math.floor((Date.now() - new Date(date).getTime()) / 60000)
+
+  const actions: Array<{ status: TriageStatus; label: string; icon: typeof Eye }> = [
+    { status: 'seen', label: 'Seen', icon: Eye },
+    { status: 'replied', label: 'Replied', icon: MessageCircle },
+    { status: 'snoozed', label: 'Snooze 4h', icon: Clock },
+    { status: 'dismissed', label: 'Dismiss', icon: X }
+  ]
+
+  return (
+    <Card className={cn(className, "bg-white border-gray-200 shadow-sm")}>
+      <CardHeader className="flex items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-gray-900">
+          <Inbox className="h-5 w-5 text-cyan-600" />
+          Triage Backlog
+          {(counts.new || 0) > 0 && (
+            <Badge className="bg-cyan-600 text-white">{counts.new} new</Badge>
+          )}
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={refresh}
+          disabled={loading}
+          className="border-gray-200 text-gray-700 hover:bg-gray-50"
+        >
+          {loading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {TRIAGE_STATUSES.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={status === option ? "default" : "outline"}
+              onClick={() => setStatus(option)}
+              className={cn(
+                "capitalize",
+                status === option ? "bg-cyan-600 hover:bg-cyan-700 text-white" : "border-gray-200 text-gray-700 hover:bg-gray-50"
+              )}
+            >
+              {option} ({counts[option] || 0})
+            </Button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-red-600 p-3 bg-red-50 rounded-md border border-red-200">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {loading && tweets.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-cyan-600" />
+          </div>
+        ) : tweets.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Inbox className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p>Nothing here</p>
+            <p className="text-sm">Tweets matched by your intent filters are kept here until you triage them</p>
+          </div>
+        ) : (
+          tweets.map((tweet) => (
+            <article key={tweet.id} className="rounded-md border border-gray-200 p-4 bg-gray-50 w-full">
+              <header className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarFallback className="bg-cyan-100 text-cyan-700">
+                      {(tweet.author_username || '?').slice(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">@{tweet.author_username || tweet.author_id}</p>
+                    <p className="text-xs text-gray-500">{minutesAgo(tweet.tweet_created_at || tweet.created_at)}m ago</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {tweet.intent_analysis && (
+                    <Badge variant="outline" title={tweet.intent_analysis.reasoning} className="border-cyan-200 text-cyan-700 bg-cyan-50">
+                      {tweet.intent_analysis.category} · {tweet.intent_analysis.priority}
+                    </Badge>
+                  )}
+                  {tweet.agent_decision && (
+                    <Badge
+                      variant="outline"
+                      title={tweet.agent_decision.reasoning}
+                      className={tweet.agent_decision.shouldRespond ? "border-green-200 text-green-700" : "border-gray-200 text-gray-600"}
+                    >
+                      {tweet.agent_decision.shouldRespond ? `Suggest ${tweet.agent_decision.responseType}` : 'Skip'}
+                    </Badge>
+                  )}
+                </div>
+              </header>
+              <p className="text-sm text-gray-800 whitespace-pre-wrap mb-3">{tweet.text}</p>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap gap-2">
+                  {tweet.matched_keywords.map((keyword) => (
+                    <Badge key={keyword} variant="outline" className="border-gray-200 text-gray-600">
+                      {keyword}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {actions.filter(action => action.status !== status).map((action) => (
+                    <Button
+                      key={action.status}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateStatus(
+                        [tweet.id],
+                        action.status,
+                        action.status === 'snoozed' ? SNOOZE_MINUTES : undefined
+                      )}
+                      className="border-gray-200 text-gray-700 hover:bg-gray-50"
+                    >
+                      <action.icon className="mr-2 h-4 w-4" />
+                      {action.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </article>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Gauge, RefreshCw, AlertTriangle, AlertCircle, Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useTwitterUsage } from "@/lib/hooks/useTwitterUsage"
+import type { UsageBudget, UsageLevel } from "@/lib/usage/usage-ledger"
+
+const LEVEL_STYLES: Record<UsageLevel, { bar: string; badge: string; label: string }> = {
+  ok: { bar: "bg-cyan-600", badge: "border-green-200 text-green-700 bg-green-50", label: "On track" },
+  warning: { bar: "bg-yellow-500", badge: "border-yellow-200 text-yellow-700 bg-yellow-50", label: "Watch" },
+  critical: { bar: "bg-orange-500", badge: "border-orange-200 text-orange-700 bg-orange-50", label: "Near cap" },
+  stopped: { bar: "bg-red-600", badge: "border-red-200 text-red-700 bg-red-50", label: "Writes paused" }
+}
+
+interface UsagePanelProps {
+  className?: string
+}
+
+export function UsagePanel({ className }: UsagePanelProps) {
+  const { usage, loading, error, refresh } = useTwitterUsage()
+
+  const renderBudget = (label: string, budget: UsageBudget) => {
+    const style = LEVEL_STYLES[budget.level]
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-900">{label}</span>
+          <Badge variant="outline" className={style.badge}>{style.label}</Badge>
+        </div>
+        <div className="h-2 w-full rounded-full bg-gray-100 overflow-hidden">
+          <div className={cn("h-full rounded-full", style.bar)} style={{ width: `${Math.min(budget.percentUsed, 100)}%` }} />
+        </div>
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{budget.used.toLocaleString()} of {budget.cap.toLocaleString()} ({budget.percentUsed}%)</span>
+          <span>Projected {budget.projected.toLocaleString()}</span>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Card className={cn(className, "bg-white border-gray-200 shadow-sm")}>
+      <CardHeader className="flex items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-gray-900">
+          <Gauge className="h-5 w-5 text-cyan-600" />
+          Monthly API Usage
+          {usage && <span className="text-sm font-normal text-gray-500">{usage.month}</span>}
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={refresh}
+          disabled={loading}
+          className="border-gray-200 text-gray-700 hover:bg-gray-50"
+        >
+          {loading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 text-red-600 p-3 bg-red-50 rounded-md border border-red-200">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {loading && !usage ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-cyan-600" />
+          </div>
+        ) : usage && (
+          <>
+            <div className="grid gap-6 md:grid-cols-2">
+              {renderBudget("Tweets read", usage.reads)}
+              {renderBudget("Writes", usage.writes)}
+            </div>
+
+            {usage.warnings.length > 0 && (
+              <div className="space-y-2">
+                {usage.warnings.map((warning) => (
+                  <div key={warning} className="flex items-center gap-2 text-yellow-800 p-3 bg-yellow-50 rounded-md border border-yellow-200 text-sm">
+                    <AlertTriangle className="h-4 w-4" />
+                    <span>{warning}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {usage.accounts.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-900">Your accounts</p>
+                {usage.accounts.map((account) => (
+                  <div key={account.id} className="flex items-center justify-between text-sm text-gray-700 rounded-md border border-gray-200 bg-gray-50 px-3 py-2">
+                    <span>@{account.twitter_username}</span>
+                    <span className="text-gray-500">
+                      {account.reads.toLocaleString()} read · {account.writes.toLocaleString()} written
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Automated replies and scheduled posts pause at {usage.hardStopPercent}% of the write cap. Resets {new Date(usage.periodEnd).toLocaleDateString()}.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -47,8 +47,11 @@ interface DashboardDataContextType {
     loading: boolean;
     error: string | null;
     refresh: () => void;
-    approveResponse: (id: string) => Promise<void>;
+    approveResponse: (id: string, accountId?: string) => Promise<void>;
     rejectResponse: (id: string) => Promise<void>;
+    sendResponse: (id: string) => Promise<void>;
+    cancelSend: (id: string) => Promise<void>;
+    unpublishResponse: (id: string) => Promise<void>;
     generateResponse: (tweetId: string, intent: string) => Promise<void>;
   };
   content: {
@@ -102,6 +105,9 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
       refresh: responses.refresh,
       approveResponse: responses.approveResponse,
       rejectResponse: responses.rejectResponse,
+      sendResponse: responses.sendResponse,
+      cancelSend: responses.cancelSend,
+      unpublishResponse: responses.unpublishResponse,
       generateResponse: responses.generateResponse,
     },
     content: {
@@ -0,0 +1,43 @@
+/**
+ * Runs once when the Next.js server starts. Background jobs that need a
+ * long-running process are started here when enabled.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  if (process.env.TWITTER_RATE_LIMIT_STORE === 'file') {
+    const { FileRateLimitStore } = await import('@/lib/rate-limit/file-rate-limit-store')
+    const { setRateLimitStore } = await import('@/lib/rate-limit/rate-limit-store')
+    setRateLimitStore(new FileRateLimitStore(process.env.TWITTER_RATE_LIMIT_FILE || '.next/cache/twitter-rate-limits.json'))
+  }
+
+  // Approved replies wait out their undo window on the server, not in an open tab
+  if (process.env.RESPONSE_SEND_WORKER !== 'off') {
+    const { responseSendWorker } = await import('@/lib/ai/response-send-worker')
+    responseSendWorker.start()
+  }
+
+  // Scheduled posts and thread resumes go out on time with nobody signed in
+  if (process.env.CONTENT_PUBLISH_WORKER !== 'off') {
+    const { contentPublishWorker } = await import('@/lib/content/content-publish-worker')
+    contentPublishWorker.start()
+  }
+
+  if (process.env.INTENT_POLLING_WORKER === 'local') {
+    const { intentPollingWorker } = await import('@/lib/twitter/intent-polling-worker')
+    intentPollingWorker.start()
+  }
+
+  if (process.env.TWITTER_FILTERED_STREAM === 'local') {
+    const { filteredStream } = await import('@/lib/twitter/filtered-stream')
+    // A failed first sync shouldn't stop the server from starting
+    await filteredStream.start().catch(error => console.error('Failed to start filtered stream:', error))
+  }
+
+  if (process.env.TWITTER_CACHE_WARMER === 'local') {
+    const { searchCacheWarmer } = await import('@/lib/twitter/search-cache-warmer')
+    searchCacheWarmer.start()
+  }
+}
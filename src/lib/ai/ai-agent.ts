@@ -2,6 +2,11 @@ import { GroqService, IntentAnalysis, AIResponse } from './groq-service'
 import { TwitterAPIService, TweetData, TwitterCredentials } from '@/lib/twitter/twitter-api'
 import { systemLogger } from '@/lib/logging/system-logger'
 import { getAgentConfig } from '@/lib/config/ai-config'
+import { loadConversationContext } from './conversation-context'
+import { liveEvents } from '@/lib/realtime/live-events'
+import { usageLedger } from '@/lib/usage/usage-ledger'
+import { authorProfiles } from '@/lib/twitter/author-profiles'
+import { checkReplyLimit, countRepliesToday, recordDirectReply } from './reply-limits'
 
 export interface AgentDecision {
   shouldRespond: boolean
@@ -11,16 +16,36 @@ export interface AgentDecision {
   confidence: number
 }
 
+// Where a tweet came from: a keyword search match or an @mention of our account
+export type TweetSource = 'search' | 'mention'
+
+export interface ProcessTweetOptions {
+  source?: TweetSource
+  userId?: string // when set, the decision is published to the user's live feed
+}
+
+export interface TweetTriage {
+  intent: IntentAnalysis
+  decision: AgentDecision
+}
+
 export interface AgentAction {
   action: 'respond' | 'like' | 'retweet' | 'ignore' | 'flag'
   tweet: TweetData
   intent: IntentAnalysis
   response?: AIResponse
+  responseType?: AgentDecision['responseType']
+  source?: TweetSource
   priority: number
   scheduledAt?: Date
   reasoning?: string
 }
 
+const DEFAULT_ACCOUNT_KEY = 'default'
+
+// Added on top of the capped score so mentions always outrank keyword matches
+const MENTION_PRIORITY_BOOST = 100
+
 export interface EngagementMetrics {
   totalResponses: number
   successfulEngagements: number
@@ -33,62 +58,133 @@ export class AIAgent {
   private groqService: GroqService
   private twitterAPI: TwitterAPIService
   private agentConfig: ReturnType<typeof getAgentConfig>
-  private dailyResponseCount: number = 0
+  private accountKey: string
+  private accountId?: string
+  private userId?: string
   private lastResponseTime: Map<string, number> = new Map()
   private engagementHistory: Map<string, number> = new Map()
 
-  constructor(twitterCredentials: TwitterCredentials) {
+  // userId is the owner of the account, recorded on replies the agent posts itself
+  constructor(twitterCredentials: TwitterCredentials, accountId?: string, userId?: string) {
     this.groqService = new GroqService()
     this.twitterAPI = new TwitterAPIService(twitterCredentials)
     this.agentConfig = getAgentConfig()
+    this.accountKey = accountId || DEFAULT_ACCOUNT_KEY
+    this.accountId = accountId
+    this.userId = userId
+  }
+
+  /**
+   * Whether the posting account is under its daily reply limit. Agents
+   * without an account can't post, so there is nothing to count.
+   */
+  private async isUnderReplyLimit(): Promise<boolean> {
+    if (!this.accountId) {
+      return true
+    }
+
+    try {
+      return (await checkReplyLimit(this.accountId)).allowed
+    } catch (error) {
+      await systemLogger.warn('AI Agent', 'Could not count today\'s replies; holding off', {
+        accountId: this.accountId,
+        error: error instanceof Error ? error.message : error
+      })
+      return false
+    }
   }
 
   /**
    * Process a tweet and decide on action
    */
-  async processTweet(tweet: TweetData, context?: string): Promise<AgentAction> {
+  async processTweet(tweet: TweetData, context?: string, options: ProcessTweetOptions = {}): Promise<AgentAction> {
+    const action = await this.decideAction(tweet, context, options.source || 'search')
+
+    if (options.userId) {
+      liveEvents.publish('agent_decision', {
+        tweetId: tweet.id,
+        action: action.action,
+        responseType: action.responseType,
+        priority: action.priority,
+        reasoning: action.reasoning,
+        source: action.source
+      }, options.userId)
+    }
+
+    return action
+  }
+
+  /**
+   * Analyze a tweet and decide how to handle it, without drafting or
+   * sending anything
+   */
+  async triageTweet(tweet: TweetData, source: TweetSource = 'search'): Promise<TweetTriage> {
+    const withAuthor = await this.withAuthor(tweet)
+    const intent = await this.groqService.analyzeIntent(withAuthor)
+    const decision = await this.makeDecision(withAuthor, intent, source)
+    return { intent, decision }
+  }
+
+  /**
+   * Attach the author's profile, looking it up if the store doesn't have it
+   */
+  private async withAuthor(tweet: TweetData): Promise<TweetData> {
+    if (tweet.author) {
+      return tweet
+    }
+    const [hydrated] = await authorProfiles.hydrate(this.twitterAPI, [tweet])
+    return hydrated
+  }
+
+  private async decideAction(tweet: TweetData, context: string | undefined, source: TweetSource): Promise<AgentAction> {
+    tweet = await this.withAuthor(tweet)
+
     try {
-      // Analyze tweet intent
-      const intent = await this.groqService.analyzeIntent(tweet)
-      
-      // Make decision on whether to respond
-      const decision = await this.makeDecision(tweet, intent)
+      // Analyze intent and decide whether to respond
+      const { intent, decision } = await this.triageTweet(tweet, source)
       
       if (!decision.shouldRespond) {
         return {
           action: 'ignore',
           tweet,
           intent,
+          source,
           priority: 0,
           reasoning: decision.reasoning
         }
       }
 
       // Check rate limits and cooldowns
-      if (!this.canRespond(tweet.author_id)) {
+      if (!(await this.canRespond(tweet.author_id))) {
         return {
           action: 'ignore',
           tweet,
           intent,
+          source,
           priority: 0,
           reasoning: 'Rate limited or cooldown active'
         }
       }
 
-      // Generate AI response if needed
+      // Generate AI response if needed, with the thread it sits in
       let response: AIResponse | undefined
       if (decision.responseType === 'reply' || decision.responseType === 'quote') {
-        response = await this.groqService.generateResponse(tweet, intent, context)
+        const conversation = await loadConversationContext(this.twitterAPI, tweet)
+        response = decision.responseType === 'quote'
+          ? await this.groqService.generateQuote(tweet, intent, context, conversation)
+          : await this.groqService.generateResponse(tweet, intent, context, conversation)
       }
 
       // Determine priority score
-      const priority = this.calculatePriority(intent, decision, response)
+      const priority = this.calculatePriority(intent, decision, response, source)
 
       return {
         action: decision.responseType === 'like' ? 'like' : 'respond',
         tweet,
         intent,
         response,
+        responseType: decision.responseType,
+        source,
         priority,
         reasoning: decision.reasoning
       }
@@ -108,6 +204,7 @@ export class AIAgent {
           priority: 'low',
           reasoning: 'Processing failed'
         },
+        source,
         priority: 0,
         reasoning: 'Error in processing'
       }
@@ -119,10 +216,23 @@ export class AIAgent {
    */
   async executeAction(action: AgentAction): Promise<boolean> {
     try {
+      // Writes stop once the month's write budget hits the hard stop
+      if (action.action === 'respond' || action.action === 'like' || action.action === 'retweet') {
+        const budget = await usageLedger.canWrite()
+        if (!budget.allowed) {
+          await systemLogger.warn('AI Agent', 'Action skipped: monthly write budget reached', {
+            action: action.action,
+            tweetId: action.tweet.id,
+            reason: budget.reason
+          })
+          return false
+        }
+      }
+
       switch (action.action) {
         case 'respond':
           if (action.response) {
-            return await this.postResponse(action.tweet, action.response)
+            return await this.postResponse(action.tweet, action.response, action.intent, action.responseType === 'quote')
           }
           break
           
@@ -181,7 +291,7 @@ export class AIAgent {
   /**
    * Make decision on whether to respond to a tweet
    */
-  private async makeDecision(tweet: TweetData, intent: IntentAnalysis): Promise<AgentDecision> {
+  private async makeDecision(tweet: TweetData, intent: IntentAnalysis, source: TweetSource = 'search'): Promise<AgentDecision> {
     const metrics = tweet.public_metrics || {
       like_count: 0,
       retweet_count: 0,
@@ -207,11 +317,22 @@ export class AIAgent {
       shouldRespond = true
       intent.priority = 'high'
     }
+
+    // Someone talking to us directly gets an answer unless the mention looks like spam
+    const isMention = source === 'mention'
+    if (isMention && intent.category !== 'spam_detection') {
+      shouldRespond = true
+      if (intent.priority === 'low') {
+        intent.priority = 'medium'
+      }
+    }
     
     // Determine response type
     let responseType: 'reply' | 'quote' | 'retweet' | 'like' = 'like'
     
-    if (shouldRespond) {
+    if (isMention && shouldRespond) {
+      responseType = 'reply'
+    } else if (shouldRespond) {
       if (intent.category === 'customer_support' || intent.category === 'community_building') {
         responseType = 'reply'
       } else if (intent.sentiment === 'positive' && engagement > 50) {
@@ -228,7 +349,7 @@ export class AIAgent {
       shouldRespond,
       priority: intent.priority,
       responseType,
-      reasoning: `Intent: ${intent.category}, Sentiment: ${intent.sentiment}, Engagement: ${engagement}, Keywords: ${hasPriorityKeywords ? 'Priority' : 'Standard'}`,
+      reasoning: `${isMention ? 'Mention, ' : ''}Intent: ${intent.category}, Sentiment: ${intent.sentiment}, Engagement: ${engagement}, Keywords: ${hasPriorityKeywords ? 'Priority' : 'Standard'}`,
       confidence
     }
   }
@@ -236,7 +357,12 @@ export class AIAgent {
   /**
    * Calculate priority score for response
    */
-  private calculatePriority(intent: IntentAnalysis, decision: AgentDecision, response?: AIResponse): number {
+  private calculatePriority(
+    intent: IntentAnalysis,
+    decision: AgentDecision,
+    response?: AIResponse,
+    source: TweetSource = 'search'
+  ): number {
     let priority = 0
     
     // Base priority from intent
@@ -275,15 +401,16 @@ export class AIAgent {
       priority += 25
     }
     
-    return Math.min(priority, 200) // Cap at 200
+    const mentionBoost = source === 'mention' ? MENTION_PRIORITY_BOOST : 0
+    return Math.min(priority, 200) + mentionBoost // Cap at 200, then lift mentions above it
   }
 
   /**
    * Check if agent can respond to user
    */
-  private canRespond(authorId: string): boolean {
-    // Check daily response limit
-    if (this.dailyResponseCount >= this.agentConfig.response.maxDailyResponses) {
+  private async canRespond(authorId: string): Promise<boolean> {
+    // Check daily response limit for the posting account
+    if (!(await this.isUnderReplyLimit())) {
       return false
     }
     
@@ -302,9 +429,14 @@ export class AIAgent {
   }
 
   /**
-   * Post response to tweet
+   * Post response to tweet, as a reply or as a quote tweet
    */
-  private async postResponse(tweet: TweetData, response: AIResponse): Promise<boolean> {
+  private async postResponse(
+    tweet: TweetData,
+    response: AIResponse,
+    intent: IntentAnalysis,
+    asQuote: boolean = false
+  ): Promise<boolean> {
     try {
       // Validate response before posting
       if (!response.isAppropriate) {
@@ -316,17 +448,43 @@ export class AIAgent {
         await systemLogger.warn('AI Agent', 'Response too long', { length: response.length })
         return false
       }
+
+      if (!(await this.isUnderReplyLimit())) {
+        await systemLogger.warn('AI Agent', 'Response skipped: daily reply limit reached', {
+          accountId: this.accountKey,
+          tweetId: tweet.id
+        })
+        return false
+      }
       
       // Post the response
-      const result = await this.twitterAPI.replyToTweet(response.content, tweet.id)
+      const result = asQuote
+        ? await this.twitterAPI.quoteTweet(response.content, tweet.id)
+        : await this.twitterAPI.replyToTweet(response.content, tweet.id)
       
       if (result.data?.id) {
-        // Update tracking
-        this.dailyResponseCount++
+        // Update tracking; the stored reply is what the daily limit counts
+        if (this.accountId && this.userId) {
+          await recordDirectReply({
+            userId: this.userId,
+            accountId: this.accountId,
+            tweetId: tweet.id,
+            twitterPostId: result.data.id,
+            content: response.content,
+            intent: intent.category,
+            responseType: asQuote ? 'quote' : 'reply',
+            confidence: response.confidence
+          }).catch(error => systemLogger.error('AI Agent', 'Failed to record posted response', {
+            error,
+            tweetId: tweet.id,
+            responseId: result.data.id
+          }))
+        }
         this.lastResponseTime.set(tweet.author_id, Date.now())
         this.engagementHistory.set(tweet.id, Date.now())
         
-        await systemLogger.info('AI Agent', 'Response posted successfully', {
+        await systemLogger.info('AI Agent', asQuote ? 'Quote posted successfully' : 'Response posted successfully', {
+          accountId: this.accountKey,
           tweetId: tweet.id,
           responseId: result.data.id,
           confidence: response.confidence
@@ -337,7 +495,7 @@ export class AIAgent {
       
       return false
     } catch (error) {
-      await systemLogger.error('AI Agent', 'Response posting failed', { error, tweetId: tweet.id })
+      await systemLogger.error('AI Agent', 'Response posting failed', { error, tweetId: tweet.id, asQuote })
       return false
     }
   }
@@ -398,7 +556,7 @@ export class AIAgent {
   /**
    * Get engagement metrics
    */
-  getEngagementMetrics(): EngagementMetrics {
+  async getEngagementMetrics(): Promise<EngagementMetrics> {
     const now = Date.now()
     const oneDayAgo = now - (24 * 60 * 60 * 1000)
     
@@ -406,8 +564,10 @@ export class AIAgent {
     const recentEngagements = Array.from(this.engagementHistory.values())
       .filter(timestamp => timestamp > oneDayAgo)
     
-    const totalResponses = this.dailyResponseCount
     const successfulEngagements = recentEngagements.length
+    const totalResponses = this.accountId
+      ? await countRepliesToday(this.accountId).catch(() => successfulEngagements)
+      : successfulEngagements
     
     // Calculate average response time (simplified)
     const averageResponseTime = recentEngagements.length > 0 
@@ -424,14 +584,14 @@ export class AIAgent {
   }
 
   /**
-   * Reset daily counters (call this daily)
+   * Reset in-process cooldowns and engagement history (call this daily).
+   * The daily reply count starts over by itself at midnight UTC.
    */
   resetDailyCounters(): void {
-    this.dailyResponseCount = 0
     this.lastResponseTime.clear()
     this.engagementHistory.clear()
     
-    systemLogger.info('AI Agent', 'Daily counters reset')
+    systemLogger.info('AI Agent', 'Daily counters reset', { accountId: this.accountKey })
   }
 
   /**
@@ -0,0 +1,72 @@
+/**
+ * Conversation Context
+ *
+ * Turns the thread around a tweet into a short transcript for reply
+ * prompts, so generated replies know what the tweet is answering and what
+ * others have already said.
+ */
+
+import { TwitterAPIService, TweetData, TwitterConversation } from '@/lib/twitter/twitter-api'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+const MAX_TWEET_CHARS = 200
+const MAX_SUMMARY_CHARS = 1500
+
+function formatTweet(tweet: TweetData, label?: string): string {
+  const text = tweet.text.replace(/\s+/g, ' ').trim()
+  const clipped = text.length > MAX_TWEET_CHARS ? `${text.slice(0, MAX_TWEET_CHARS - 1)}…` : text
+  const author = tweet.author_username ? `@${tweet.author_username}` : 'unknown'
+  return `- ${label ? `[${label}] ` : ''}${author}: ${clipped}`
+}
+
+/**
+ * Summarise a conversation as a transcript: the root and parent chain in
+ * order, then other replies. Other replies are dropped first, oldest
+ * first, when the transcript runs long.
+ */
+export function summarizeConversation(conversation: TwitterConversation): string {
+  const label = (tweet: TweetData, base?: string) => {
+    const labels = [base, tweet.id === conversation.parentId ? 'replying to' : undefined].filter(Boolean)
+    return labels.length > 0 ? labels.join(', ') : undefined
+  }
+
+  const chain = [
+    ...(conversation.root ? [formatTweet(conversation.root, label(conversation.root, 'thread start'))] : []),
+    ...conversation.ancestors.map(tweet => formatTweet(tweet, label(tweet)))
+  ]
+  const replies = conversation.replies.map(tweet => formatTweet(tweet, 'other reply'))
+
+  let lines = [...chain, ...replies]
+  while (replies.length > 0 && lines.join('\n').length > MAX_SUMMARY_CHARS) {
+    replies.shift()
+    lines = [...chain, ...replies]
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Fetch and summarise the thread a tweet belongs to. Returns undefined for
+ * tweets that start their own conversation, or when the thread can't be read.
+ */
+export async function loadConversationContext(
+  twitterAPI: TwitterAPIService,
+  tweet: TweetData
+): Promise<string | undefined> {
+  if (!tweet.conversation_id || tweet.conversation_id === tweet.id) {
+    return undefined
+  }
+
+  try {
+    const conversation = await twitterAPI.getConversation(tweet.conversation_id, { tweet })
+    const summary = summarizeConversation(conversation)
+    return summary || undefined
+  } catch (error) {
+    await systemLogger.warn('Conversation Context', 'Failed to load conversation', {
+      tweetId: tweet.id,
+      conversationId: tweet.conversation_id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+    return undefined
+  }
+}
@@ -1,9 +1,17 @@
 import Groq from 'groq-sdk'
 import { getGroqConfig, getAgentConfig, getSuperconnectorConfig } from '@/lib/config/ai-config'
 import { systemLogger } from '@/lib/logging/system-logger'
-import { TweetData } from '@/lib/twitter/twitter-api'
-import { AI_SUPERCONNECTOR_SYSTEM_PROMPT, SUPERCONNECTOR_CONTENT_PROMPTS } from './prompt-templates'
+import {
+  TweetData,
+  POLL_MIN_OPTIONS,
+  POLL_MAX_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+  POLL_MIN_DURATION_MINUTES,
+  POLL_MAX_DURATION_MINUTES
+} from '@/lib/twitter/twitter-api'
+import { AI_SUPERCONNECTOR_SYSTEM_PROMPT, SUPERCONNECTOR_CONTENT_PROMPTS, SUPERCONNECTOR_POLL_PROMPT, CONVERSATION_CONTEXT_PROMPT } from './prompt-templates'
 import { ContentVarietyEngine } from './content-variety-engine'
+import { describeAuthor } from '@/lib/twitter/author-profiles'
 
 export interface IntentAnalysis {
   category: string
@@ -43,6 +51,17 @@ export interface SuperconnectorContentRequest {
   includeFollowUp?: boolean
 }
 
+export interface PollGenerationResult {
+  question: string
+  options: string[]
+  durationMinutes: number
+  hashtags: string[]
+  confidence: number
+  reasoning: string
+}
+
+const DEFAULT_POLL_DURATION_MINUTES = 1440
+
 export class GroqService {
   private groq: Groq
   private config: ReturnType<typeof getGroqConfig>
@@ -199,6 +218,139 @@ Respond with valid JSON containing:
     }
   }
 
+  /**
+   * Generate an audience poll question with 2-4 options
+   */
+  async generatePoll(topic?: string, context?: string): Promise<PollGenerationResult> {
+    try {
+      const prompt = `${SUPERCONNECTOR_POLL_PROMPT}
+
+Topic: ${topic || 'Your choice within the focus areas'}
+Context: ${context || 'General professional networking and AI insights'}
+
+Requirements:
+- Question under 200 characters, including any hashtags
+- Between ${POLL_MIN_OPTIONS} and ${POLL_MAX_OPTIONS} options
+- Each option ${POLL_OPTION_MAX_LENGTH} characters or less
+- Duration between ${POLL_MIN_DURATION_MINUTES} and ${POLL_MAX_DURATION_MINUTES} minutes (1440 is one day)
+- Match the AI Superconnector brand voice
+
+Respond with valid JSON containing:
+{
+  "question": "Your poll question here",
+  "options": ["Option 1", "Option 2", "Option 3"],
+  "durationMinutes": 1440,
+  "hashtags": ["#hashtag1"],
+  "confidence": 0.9,
+  "reasoning": "Why this poll will get votes"
+}`
+
+      const completion = await this.groq.chat.completions.create({
+        messages: [
+          {
+            role: 'system',
+            content: AI_SUPERCONNECTOR_SYSTEM_PROMPT
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        model: this.config.model,
+        max_tokens: this.config.maxTokens,
+        temperature: 0.8,
+        top_p: 0.9,
+      })
+
+      const response = completion.choices[0]?.message?.content
+      if (!response) {
+        throw new Error('No response from Groq API')
+      }
+
+      return this.parsePollResponse(response)
+      
+    } catch (error) {
+      await systemLogger.error('Groq Service', 'Poll generation failed', { error, topic })
+      throw error
+    }
+  }
+
+  /**
+   * Suggest alt text describing an image for screen reader users
+   */
+  async suggestAltText(image: Uint8Array, mediaType: string, context?: string): Promise<string> {
+    try {
+      const imageUrl = `data:${mediaType};base64,${Buffer.from(image).toString('base64')}`
+
+      const completion = await this.groq.chat.completions.create({
+        messages: [
+          {
+            role: 'system',
+            content: 'You write alt text for images posted by the AI Superconnector on Twitter. Describe what matters in the image plainly and concisely for someone who cannot see it. Include any readable text. Do not start with "Image of" and do not add hashtags or emojis.'
+          },
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: `Write alt text for this image in under 400 characters.${context ? `\n\nThe tweet it accompanies: "${context}"` : ''}\n\nRespond with the alt text only.`
+              },
+              {
+                type: 'image_url',
+                image_url: { url: imageUrl }
+              }
+            ]
+          }
+        ],
+        model: this.config.visionModel,
+        max_tokens: this.config.maxTokens,
+        temperature: 0.3,
+      })
+
+      const response = completion.choices[0]?.message?.content
+      if (!response) {
+        throw new Error('No response from Groq API')
+      }
+
+      return response.trim().replace(/^["']|["']$/g, '').slice(0, 1000)
+      
+    } catch (error) {
+      await systemLogger.error('Groq Service', 'Alt text suggestion failed', { error, mediaType })
+      throw error
+    }
+  }
+
+  /**
+   * Parse a generated poll, trimming options and clamping the duration to Twitter's limits
+   */
+  private parsePollResponse(response: string): PollGenerationResult {
+    const jsonMatch = response.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) {
+      throw new Error('Poll response did not contain JSON')
+    }
+
+    const parsed = JSON.parse(jsonMatch[0])
+    const options: string[] = (Array.isArray(parsed.options) ? parsed.options : [])
+      .map((option: unknown) => String(option).trim().slice(0, POLL_OPTION_MAX_LENGTH))
+      .filter(Boolean)
+      .slice(0, POLL_MAX_OPTIONS)
+
+    if (!parsed.question || options.length < POLL_MIN_OPTIONS) {
+      throw new Error('Generated poll is missing a question or enough options')
+    }
+
+    const duration = parseInt(parsed.durationMinutes) || DEFAULT_POLL_DURATION_MINUTES
+
+    return {
+      question: String(parsed.question).trim(),
+      options,
+      durationMinutes: Math.min(Math.max(duration, POLL_MIN_DURATION_MINUTES), POLL_MAX_DURATION_MINUTES),
+      hashtags: parsed.hashtags || [],
+      confidence: parsed.confidence || 0.7,
+      reasoning: parsed.reasoning || 'AI-generated poll'
+    }
+  }
+
   /**
    * Build prompt for AI Superconnector content generation
    */
@@ -292,10 +444,11 @@ Respond with valid JSON containing:
   async generateResponse(
     tweet: TweetData,
     intent: IntentAnalysis,
-    context?: string
+    context?: string,
+    conversation?: string
   ): Promise<AIResponse> {
     try {
-      const prompt = this.buildResponsePrompt(tweet, intent, context)
+      const prompt = this.buildResponsePrompt(tweet, intent, context, conversation)
       
       const completion = await this.groq.chat.completions.create({
         messages: [
@@ -327,6 +480,49 @@ Respond with valid JSON containing:
     }
   }
 
+  /**
+   * Generate commentary for quoting a tweet. Unlike a reply, a quote is
+   * written for our own followers and has to stand on its own.
+   */
+  async generateQuote(
+    tweet: TweetData,
+    intent: IntentAnalysis,
+    context?: string,
+    conversation?: string
+  ): Promise<AIResponse> {
+    try {
+      const prompt = this.buildQuoteGenerationPrompt(tweet, intent, context, conversation)
+      
+      const completion = await this.groq.chat.completions.create({
+        messages: [
+          {
+            role: 'system',
+            content: `You are ${this.agentConfig.personality.name}, an expert in ${this.agentConfig.personality.expertise}. Write quote tweets that add your own take for your followers, rather than replying to the original author.`
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        model: this.config.model,
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        top_p: this.config.topP,
+      })
+
+      const response = completion.choices[0]?.message?.content
+      if (!response) {
+        throw new Error('No response from Groq API')
+      }
+
+      return await this.parseAIResponse(response, intent)
+      
+    } catch (error) {
+      await systemLogger.error('Groq Service', 'Quote generation failed', { error, tweetId: tweet.id })
+      return this.getDefaultResponse(intent)
+    }
+  }
+
   /**
    * Generate autonomous content for community building
    */
@@ -426,7 +622,7 @@ Respond with valid JSON containing:
     return `Analyze this tweet for intent and engagement opportunities:
 
 Tweet: "${tweet.text}"
-Author: @${tweet.author_username}
+Author: ${describeAuthor(tweet)}
 Language: ${tweet.lang || 'unknown'}
 Engagement: ${engagement} (likes: ${metrics.like_count}, retweets: ${metrics.retweet_count}, replies: ${metrics.reply_count})
 Created: ${tweet.created_at}
@@ -448,7 +644,8 @@ Respond with valid JSON only.`
   private buildResponseGenerationPrompt(
     tweet: TweetData,
     intent: IntentAnalysis,
-    context?: string
+    context?: string,
+    conversation?: string
   ): string {
     const templates = this.agentConfig.engagement.responseTemplates
     const relevantTemplates = templates[intent.category as keyof typeof templates] || templates.community_building
@@ -456,12 +653,12 @@ Respond with valid JSON only.`
     return `Generate a response to this tweet:
 
 Original Tweet: "${tweet.text}"
-Author: @${tweet.author_username}
+Author: ${describeAuthor(tweet)}
 Intent: ${intent.category} (confidence: ${intent.confidence})
 Sentiment: ${intent.sentiment}
 Priority: ${intent.priority}
 Context: ${context || 'Community engagement'}
-
+${conversation ? CONVERSATION_CONTEXT_PROMPT.replace('{conversation}', conversation) : ''}
 Available response templates:
 ${relevantTemplates.map(t => `- ${t}`).join('\n')}
 
@@ -473,6 +670,36 @@ Requirements:
 - Make it feel human and engaging
 - Replace {custom_response} with your generated content
 
+Respond with valid JSON containing: content, confidence, intent, tone, hashtags (array), emojis (array), length, reasoning.`
+  }
+
+  /**
+   * Build prompt for quote tweet generation
+   */
+  private buildQuoteGenerationPrompt(
+    tweet: TweetData,
+    intent: IntentAnalysis,
+    context?: string,
+    conversation?: string
+  ): string {
+    return `Write a quote tweet sharing this tweet with our followers:
+
+Quoted Tweet: "${tweet.text}"
+Author: ${describeAuthor(tweet)}
+Intent: ${intent.category} (confidence: ${intent.confidence})
+Sentiment: ${intent.sentiment}
+Context: ${context || 'Community engagement'}
+${conversation ? CONVERSATION_CONTEXT_PROMPT.replace('{conversation}', conversation) : ''}
+Requirements:
+- Keep under ${this.agentConfig.response.maxLength} characters
+- Speak to our followers, not to @${tweet.author_username}; the quoted tweet is shown below your text
+- Add a takeaway, opinion, or question that makes the tweet worth sharing
+- Do not repeat or summarize the quoted tweet word for word
+- Credit the author by name only if it adds something
+- Use ${this.agentConfig.personality.tone} tone
+- Include ${this.agentConfig.personality.emojiUsage} emojis
+- Use ${this.agentConfig.personality.hashtagUsage} hashtags
+
 Respond with valid JSON containing: content, confidence, intent, tone, hashtags (array), emojis (array), length, reasoning.`
   }
 
@@ -482,9 +709,10 @@ Respond with valid JSON containing: content, confidence, intent, tone, hashtags
   private buildResponsePrompt(
     tweet: TweetData,
     intent: IntentAnalysis,
-    context?: string
+    context?: string,
+    conversation?: string
   ): string {
-    return this.buildResponseGenerationPrompt(tweet, intent, context)
+    return this.buildResponseGenerationPrompt(tweet, intent, context, conversation)
   }
 
   /**
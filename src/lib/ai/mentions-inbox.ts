@@ -0,0 +1,311 @@
+/**
+ * Mentions Inbox
+ *
+ * Pulls @mentions of a connected account into twitter_mentions, separate
+ * from keyword search matches. New mentions are stored unprocessed first,
+ * then go through the agent as mentions, which ranks them above keyword
+ * matches, at most MENTIONS_PROCESS_BATCH per sync; any left over, or
+ * that failed, are picked up by the next sync. Drafted replies are queued
+ * in ai_responses for approval. Mentions keep their own read state.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { AIAgent } from '@/lib/ai/ai-agent'
+import { TwitterCredentialResolver, buildCredentialsForConnection } from '@/lib/twitter/credential-resolver'
+import { TwitterOAuthConnectionService } from '@/lib/database/twitter-oauth-connections'
+import { TweetData } from '@/lib/twitter/twitter-api'
+import { TwitterMention, TwitterOAuthConnection } from '@/types/database'
+
+export const MENTIONS_MAX_PAGES = 5
+export const MENTIONS_PROCESS_BATCH = 10
+
+export interface MentionSyncResult {
+  accountId: string
+  fetched: number
+  added: number
+  processed: number
+  responsesQueued: number
+  pending: number // stored mentions still waiting for the agent
+}
+
+export interface MentionQueryOptions {
+  accountId?: string
+  unreadOnly?: boolean
+  limit?: number
+}
+
+export class MentionsInbox {
+  private supabase: SupabaseClient
+  private resolver: TwitterCredentialResolver
+  private connectionService: TwitterOAuthConnectionService
+
+  // Routes pass their session client so reads and writes run as the signed-in user
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createClient()
+    this.resolver = new TwitterCredentialResolver(this.supabase)
+    this.connectionService = new TwitterOAuthConnectionService(this.supabase)
+  }
+
+  /**
+   * Fetch mentions newer than the last sync, store them, then let the agent
+   * draft replies for a batch of the unprocessed ones
+   */
+  async syncMentions(userId: string, accountId?: string): Promise<MentionSyncResult> {
+    const { connection, twitterAPI } = await this.resolver.resolveForUser(userId, accountId)
+    const sinceId = connection.mentions_since_id || undefined
+    const tweets: TweetData[] = []
+    let newestId: string | undefined
+    let nextToken: string | undefined
+
+    // A first sync only takes the latest page rather than the whole backlog
+    const maxPages = sinceId ? MENTIONS_MAX_PAGES : 1
+    for (let page = 0; page < maxPages; page++) {
+      const result = await twitterAPI.getMentions(connection.twitter_user_id, sinceId, 100, nextToken)
+
+      // Mentions come back with their authors attached
+      tweets.push(...(result.data || []))
+      newestId = newestId || result.meta?.newest_id
+      nextToken = result.meta?.next_token
+      if (!nextToken) {
+        break
+      }
+    }
+
+    // Stored unprocessed, so the since_id can move on before the agent runs
+    const added = await this.storeMentions(userId, connection, tweets)
+
+    // Pages run newest to oldest; one cut short keeps the old since_id to
+    // fetch the gap again next time
+    if (newestId && (!nextToken || !sinceId)) {
+      await this.connectionService.updateConnection(connection.id, { mentions_since_id: newestId })
+    }
+
+    const processed = await this.processPendingMentions(userId, connection, tweets)
+    const pending = await this.countPendingMentions(connection.id)
+
+    await systemLogger.info('Mentions Inbox', 'Mentions synced', {
+      accountId: connection.id,
+      fetched: tweets.length,
+      added: added.length,
+      processed: processed.processed,
+      responsesQueued: processed.responsesQueued,
+      pending
+    }, userId)
+
+    return {
+      accountId: connection.id,
+      fetched: tweets.length,
+      added: added.length,
+      processed: processed.processed,
+      responsesQueued: processed.responsesQueued,
+      pending
+    }
+  }
+
+  /**
+   * Insert mentions not already in the inbox, returning the new rows
+   */
+  private async storeMentions(
+    userId: string,
+    connection: TwitterOAuthConnection,
+    tweets: TweetData[]
+  ): Promise<TwitterMention[]> {
+    if (tweets.length === 0) {
+      return []
+    }
+
+    const { data, error } = await this.supabase
+      .from('twitter_mentions')
+      .upsert(
+        tweets.map(tweet => ({
+          user_id: userId,
+          account_id: connection.id,
+          tweet_id: tweet.id,
+          author_id: tweet.author_id,
+          author_username: tweet.author_username,
+          text: tweet.text,
+          mentioned_at: tweet.created_at || new Date().toISOString(),
+          priority: 0
+        })),
+        { onConflict: 'account_id,tweet_id', ignoreDuplicates: true }
+      )
+      .select()
+
+    if (error) {
+      await systemLogger.error('Mentions Inbox', 'Failed to store mentions', { error, accountId: connection.id }, userId)
+      throw error
+    }
+
+    return (data || []) as TwitterMention[]
+  }
+
+  /**
+   * Run the newest unprocessed mentions through the agent and queue any
+   * drafted replies. A mention the agent fails on stays unprocessed.
+   */
+  private async processPendingMentions(
+    userId: string,
+    connection: TwitterOAuthConnection,
+    fetched: TweetData[]
+  ): Promise<{ processed: number; responsesQueued: number }> {
+    const { data, error } = await this.supabase
+      .from('twitter_mentions')
+      .select('*')
+      .eq('account_id', connection.id)
+      .is('processed_at', null)
+      .order('mentioned_at', { ascending: false })
+      .limit(MENTIONS_PROCESS_BATCH)
+
+    if (error) {
+      await systemLogger.error('Mentions Inbox', 'Failed to load unprocessed mentions', { error, accountId: connection.id }, userId)
+      throw error
+    }
+
+    const agent = new AIAgent(buildCredentialsForConnection(connection), connection.id, userId)
+    let processed = 0
+    let responsesQueued = 0
+
+    for (const mention of (data || []) as TwitterMention[]) {
+      // Mentions left from an earlier sync are rebuilt from the stored row
+      const tweet = fetched.find(t => t.id === mention.tweet_id) || {
+        id: mention.tweet_id,
+        text: mention.text,
+        author_id: mention.author_id,
+        author_username: mention.author_username || '',
+        created_at: mention.mentioned_at
+      }
+
+      try {
+        const action = await agent.processTweet(tweet, undefined, { source: 'mention', userId })
+        let responseId: string | null = null
+
+        if (action.action === 'respond' && action.response) {
+          const { data: response, error: insertError } = await this.supabase
+            .from('ai_responses')
+            .insert({
+              user_id: userId,
+              account_id: connection.id,
+              tweet_id: tweet.id,
+              content: action.response.content,
+              intent: action.intent.category,
+              response_type: action.responseType === 'quote' ? 'quote' : 'reply',
+              status: 'pending',
+              ai_generated: true,
+              confidence_score: action.response.confidence
+            })
+            .select('id')
+            .single()
+
+          if (insertError) {
+            await systemLogger.error('Mentions Inbox', 'Failed to queue mention reply', { error: insertError, tweetId: tweet.id }, userId)
+          } else {
+            responseId = response.id
+            responsesQueued++
+          }
+        }
+
+        await this.supabase
+          .from('twitter_mentions')
+          .update({
+            priority: action.priority,
+            response_id: responseId,
+            processed_at: new Date().toISOString()
+          })
+          .eq('id', mention.id)
+        processed++
+      } catch (processError) {
+        await systemLogger.warn('Mentions Inbox', 'Mention left unprocessed', {
+          tweetId: tweet.id,
+          error: processError instanceof Error ? processError.message : 'Unknown error'
+        }, userId)
+      }
+    }
+
+    return { processed, responsesQueued }
+  }
+
+  private async countPendingMentions(accountId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('twitter_mentions')
+      .select('id', { count: 'exact', head: true })
+      .eq('account_id', accountId)
+      .is('processed_at', null)
+
+    if (error) {
+      throw error
+    }
+
+    return count || 0
+  }
+
+  /**
+   * Get a user's mentions, highest priority and newest first
+   */
+  async getMentions(userId: string, options: MentionQueryOptions = {}): Promise<TwitterMention[]> {
+    let query = this.supabase
+      .from('twitter_mentions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('priority', { ascending: false })
+      .order('mentioned_at', { ascending: false })
+      .limit(options.limit || 50)
+
+    if (options.accountId) {
+      query = query.eq('account_id', options.accountId)
+    }
+    if (options.unreadOnly) {
+      query = query.is('read_at', null)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      await systemLogger.error('Mentions Inbox', 'Failed to fetch mentions', { error }, userId)
+      throw error
+    }
+
+    return (data || []) as TwitterMention[]
+  }
+
+  /**
+   * Number of mentions the user has not read yet
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('twitter_mentions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null)
+
+    if (error) {
+      await systemLogger.error('Mentions Inbox', 'Failed to count unread mentions', { error }, userId)
+      throw error
+    }
+
+    return count || 0
+  }
+
+  /**
+   * Mark mentions as read; all unread mentions when no ids are given
+   */
+  async markRead(userId: string, mentionIds?: string[]): Promise<void> {
+    let query = this.supabase
+      .from('twitter_mentions')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null)
+
+    if (mentionIds) {
+      query = query.in('id', mentionIds)
+    }
+
+    const { error } = await query
+
+    if (error) {
+      await systemLogger.error('Mentions Inbox', 'Failed to mark mentions read', { error, mentionIds }, userId)
+      throw error
+    }
+  }
+}
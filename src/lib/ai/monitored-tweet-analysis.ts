@@ -0,0 +1,72 @@
+/**
+ * Monitored Tweet Analysis
+ *
+ * Runs newly stored monitored tweets through the agent's intent analysis
+ * and decision, and saves both on the row for triage. Each tweet costs a
+ * Groq call, so only a limited number are analyzed per batch; the rest
+ * stay unanalyzed.
+ */
+
+import { AIAgent } from './ai-agent'
+import { MonitoredTweetsService } from '@/lib/database/monitored-tweets'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getAppCredentials } from '@/lib/twitter/credential-resolver'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { TweetData } from '@/lib/twitter/twitter-api'
+import { MonitoredTweet } from '@/types/database'
+
+const MAX_ANALYSES_PER_BATCH = 20
+
+/**
+ * Analyze stored tweets, returning how many were analyzed. Failures are
+ * logged and leave the tweet unanalyzed.
+ */
+export async function analyzeMonitoredTweets(
+  rows: MonitoredTweet[],
+  tweets: Map<string, TweetData>
+): Promise<number> {
+  if (rows.length === 0) {
+    return 0
+  }
+
+  let agent: AIAgent
+  try {
+    agent = new AIAgent(getAppCredentials())
+  } catch (error) {
+    await systemLogger.warn('Monitored Tweet Analysis', 'AI agent unavailable, tweets stored without analysis', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+    return 0
+  }
+
+  // Runs inside the polling worker and filtered stream, which have no user session
+  const monitoredTweets = new MonitoredTweetsService(createAdminClient())
+  let analyzed = 0
+
+  for (const row of rows.slice(0, MAX_ANALYSES_PER_BATCH)) {
+    const tweet = tweets.get(row.tweet_id)
+    if (!tweet) {
+      continue
+    }
+
+    try {
+      const { intent, decision } = await agent.triageTweet(tweet)
+      await monitoredTweets.saveAnalysis(row.id, intent, decision)
+      analyzed++
+    } catch (error) {
+      await systemLogger.warn('Monitored Tweet Analysis', 'Failed to analyze monitored tweet', {
+        tweetId: row.tweet_id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, row.user_id)
+    }
+  }
+
+  if (rows.length > MAX_ANALYSES_PER_BATCH) {
+    await systemLogger.info('Monitored Tweet Analysis', 'Analysis batch limit reached', {
+      stored: rows.length,
+      analyzed
+    })
+  }
+
+  return analyzed
+}
@@ -322,6 +322,26 @@ EXAMPLE TOPICS:
 TONE: Witty, relatable, self-aware, and professionally entertaining`
 }
 
+// AI Superconnector audience poll prompt
+export const SUPERCONNECTOR_POLL_PROMPT = `Create a Twitter poll that gets founders and professionals voting and talking about how they network, build relationships, and use AI.
+
+ROLE: You are the AI Superconnector, curious about how your community actually works and what they believe.
+
+FOCUS AREAS:
+- Networking habits and preferences
+- Warm intros vs cold outreach
+- AI tools in professional relationships
+- Startup life trade-offs
+- Events, communities, and follow-ups
+
+POLL STYLE:
+- Ask one clear question people can answer in a second
+- Every option should be a real, defensible choice
+- A playful option is fine, but not at the expense of useful data
+- The question should spark replies explaining votes
+
+TONE: Curious, witty, and community-minded`
+
 export const TONE_SPECIFIC_PROMPTS = {
   HELPFUL: `Focus on being genuinely helpful. Offer practical advice, resources, or solutions. Be supportive and encouraging.`,
   WITTY: `Use clever wordplay and humor. Be playful with language while staying relevant. Keep it light and entertaining.`,
@@ -336,6 +356,13 @@ Current tweet length: {tweetLength} characters
 Available space: {availableSpace} characters
 `
 
+export const CONVERSATION_CONTEXT_PROMPT = `
+THREAD CONTEXT (the tweet is a reply inside this conversation, oldest first):
+{conversation}
+
+Your reply joins this thread. Do not contradict points already made in it, and do not repeat what has already been said; add something new.
+`
+
 export const CONTEXT_ANALYSIS_PROMPT = `
 Analyze this tweet for context and engagement opportunities:
 
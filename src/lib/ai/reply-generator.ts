@@ -10,6 +10,7 @@ import {
   BASE_SYSTEM_PROMPT, 
   TONE_SPECIFIC_PROMPTS, 
   CHARACTER_LIMIT_REMINDER,
+  CONVERSATION_CONTEXT_PROMPT,
   TONES,
   ToneDefinition
 } from './prompt-templates'
@@ -26,6 +27,7 @@ export interface ReplyContext {
     replies: number
     quotes: number
   }
+  conversationContext?: string // transcript of the thread the tweet replies into
 }
 
 export interface ReplySuggestion {
@@ -108,6 +110,11 @@ export class ReplyGenerator {
       .replace('{engagementMetrics}', engagementText)
       .replace('{tone}', toneDefinition.name)
 
+    // Add the surrounding thread so replies don't contradict or repeat it
+    if (context.conversationContext) {
+      prompt += CONVERSATION_CONTEXT_PROMPT.replace('{conversation}', context.conversationContext)
+    }
+
     // Add tone-specific instructions
     prompt += `\n\nTONE INSTRUCTIONS:\n${TONE_SPECIFIC_PROMPTS[tone as keyof typeof TONE_SPECIFIC_PROMPTS]}`
 
@@ -0,0 +1,85 @@
+/**
+ * Reply Limits
+ *
+ * Each posting account may publish a limited number of replies and quotes
+ * a day (the agent config's maxDailyResponses). Replies are counted from
+ * the ai_responses published since midnight UTC, so the limit holds across
+ * restarts and server instances. Replies the agent posts itself, without
+ * going through the reply queue, are recorded there as well.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getAgentConfig } from '@/lib/config/ai-config'
+import { ResponseType } from '@/types/database'
+
+export interface ReplyLimitStatus {
+  allowed: boolean
+  count: number
+  limit: number
+}
+
+export interface DirectReply {
+  userId: string
+  accountId: string
+  tweetId: string
+  twitterPostId: string
+  content: string
+  intent: string
+  responseType: ResponseType
+  confidence?: number
+}
+
+/**
+ * Replies and quotes the account has published today, including ones
+ * deleted again since
+ */
+export async function countRepliesToday(accountId: string): Promise<number> {
+  const startOfDay = `${new Date().toISOString().split('T')[0]}T00:00:00.000Z`
+
+  // Counted for every user of the account, whoever approved the reply
+  const { count, error } = await createAdminClient()
+    .from('ai_responses')
+    .select('id', { count: 'exact', head: true })
+    .eq('account_id', accountId)
+    .in('status', ['published', 'deleted'])
+    .gte('published_at', startOfDay)
+
+  if (error) {
+    throw error
+  }
+  return count || 0
+}
+
+/**
+ * Whether the account can post another reply today
+ */
+export async function checkReplyLimit(accountId: string): Promise<ReplyLimitStatus> {
+  const limit = getAgentConfig().response.maxDailyResponses
+  const count = await countRepliesToday(accountId)
+  return { allowed: count < limit, count, limit }
+}
+
+/**
+ * Record a reply the agent posted itself, so it counts toward the limit
+ */
+export async function recordDirectReply(reply: DirectReply): Promise<void> {
+  const { error } = await createAdminClient()
+    .from('ai_responses')
+    .insert({
+      user_id: reply.userId,
+      account_id: reply.accountId,
+      tweet_id: reply.tweetId,
+      content: reply.content,
+      intent: reply.intent,
+      response_type: reply.responseType,
+      status: 'published',
+      ai_generated: true,
+      confidence_score: reply.confidence,
+      twitter_post_id: reply.twitterPostId,
+      published_at: new Date().toISOString()
+    })
+
+  if (error) {
+    throw error
+  }
+}
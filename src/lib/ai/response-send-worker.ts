@@ -0,0 +1,155 @@
+/**
+ * Response Send Worker
+ *
+ * Posts every user's responses once their undo window ends, so queued
+ * replies go out whether or not anyone has the reply queue open. Claiming
+ * a response is atomic, so several server processes can run the worker at
+ * once without posting twice, and each tick puts back claims a crashed
+ * process left behind. It starts with the server; set
+ * RESPONSE_SEND_WORKER=off to turn it off.
+ */
+
+import { systemLogger } from '@/lib/logging/system-logger'
+import { Clock, systemClock } from '@/lib/scheduling/clock'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { ResponseSender } from './response-sender'
+
+const DEFAULT_TICK_MS = 5000
+
+export interface ResponseSendWorkerOptions {
+  tickMs?: number
+  clock?: Clock
+  sender?: ResponseSender
+}
+
+export interface ResponseSendWorkerStatus {
+  state: 'stopped' | 'running'
+  published: number
+  failed: number
+  released: number
+  lastTickAt?: string
+  nextTickAt?: string
+  lastError?: string
+}
+
+export class ResponseSendWorker {
+  private clock: Clock
+  private tickMs: number
+  private sender: ResponseSender | null
+  private cancelTick: (() => void) | null = null
+  private currentRun: Promise<void> | null = null
+  private running = false
+  private generation = 0 // bumped on each start so a stopped loop can't reschedule itself
+  private status = {
+    published: 0,
+    failed: 0,
+    released: 0,
+    lastTickAt: undefined as number | undefined,
+    nextTickAt: undefined as number | undefined,
+    lastError: undefined as string | undefined
+  }
+
+  constructor(options: ResponseSendWorkerOptions = {}) {
+    this.clock = options.clock || systemClock
+    this.tickMs = options.tickMs ?? DEFAULT_TICK_MS
+    this.sender = options.sender || null
+  }
+
+  getStatus(): ResponseSendWorkerStatus {
+    const toIso = (time?: number) => (time === undefined ? undefined : new Date(time).toISOString())
+
+    return {
+      state: this.running ? 'running' : 'stopped',
+      published: this.status.published,
+      failed: this.status.failed,
+      released: this.status.released,
+      lastTickAt: toIso(this.status.lastTickAt),
+      nextTickAt: toIso(this.status.nextTickAt),
+      lastError: this.status.lastError
+    }
+  }
+
+  /**
+   * Start sending, with the first tick straight away. Without the admin
+   * client the worker can't see anyone's responses, so it stays stopped.
+   */
+  start(): void {
+    if (this.running) {
+      return
+    }
+
+    try {
+      this.getSender()
+    } catch (error) {
+      void systemLogger.warn('Response Send Worker', 'Send worker not started', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return
+    }
+
+    this.running = true
+    this.scheduleTick(++this.generation, 0)
+    void systemLogger.info('Response Send Worker', 'Send worker started', { tickMs: this.tickMs })
+  }
+
+  stop(): void {
+    this.running = false
+    this.cancelTick?.()
+    this.cancelTick = null
+    this.status.nextTickAt = undefined
+    void systemLogger.info('Response Send Worker', 'Send worker stopped', {})
+  }
+
+  /**
+   * Post every due response now; a call during a run waits for it
+   */
+  runOnce(): Promise<void> {
+    if (!this.currentRun) {
+      this.currentRun = this.sendDue().finally(() => {
+        this.currentRun = null
+      })
+    }
+    return this.currentRun
+  }
+
+  private async sendDue(): Promise<void> {
+    this.status.lastTickAt = this.clock.now()
+
+    this.status.released += await this.getSender().releaseExpiredClaims()
+    const sent = await this.getSender().sendDueResponses()
+    this.status.published += sent.filter(response => response.status === 'published').length
+    this.status.failed += sent.filter(response => response.status === 'failed').length
+    this.status.lastError = undefined
+  }
+
+  private scheduleTick(generation: number, delayMs: number): void {
+    this.status.nextTickAt = this.clock.now() + delayMs
+    this.cancelTick = this.clock.schedule(async () => {
+      if (!this.running || generation !== this.generation) {
+        return
+      }
+
+      try {
+        await this.runOnce()
+      } catch (error) {
+        this.status.lastError = error instanceof Error ? error.message : 'Unknown error'
+        await systemLogger.error('Response Send Worker', 'Send tick failed', { error: this.status.lastError })
+      }
+
+      if (this.running && generation === this.generation) {
+        this.scheduleTick(generation, this.tickMs)
+      }
+    }, delayMs)
+  }
+
+  private getSender(): ResponseSender {
+    // Responses from every user are due here, with no session to pass RLS
+    if (!this.sender) {
+      this.sender = new ResponseSender(createAdminClient())
+    }
+    return this.sender
+  }
+}
+
+// One worker per server process
+export const responseSendWorker = new ResponseSendWorker()
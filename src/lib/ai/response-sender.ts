@@ -0,0 +1,285 @@
+/**
+ * Response Sender
+ *
+ * Posts approved ai_responses as replies or quotes. With undo send on,
+ * a response first sits in a short holding window ('sending' with a
+ * send_at time) and can be cancelled until the window ends. Each posting
+ * account's daily reply limit is checked right before posting. A sender
+ * claims a row before posting it; a claim left by a sender that died is
+ * put back in the queue once it is RESPONSE_CLAIM_MS old. Published
+ * responses can be deleted again, which is recorded in the audit trail.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { getAgentConfig } from '@/lib/config/ai-config'
+import { TwitterCredentialResolver } from '@/lib/twitter/credential-resolver'
+import { TwitterActionAuditService } from '@/lib/database/twitter-action-audit'
+import { usageLedger } from '@/lib/usage/usage-ledger'
+import { checkReplyLimit } from './reply-limits'
+import { AIResponse } from '@/types/database'
+
+export const RESPONSE_CLAIM_MS = 10 * 60 * 1000
+
+export class ResponseSender {
+  private supabase: SupabaseClient
+  private resolver: TwitterCredentialResolver
+  private auditService = new TwitterActionAuditService()
+  private undoSendSeconds = getAgentConfig().response.undoSendSeconds
+
+  // Routes pass their session client; the send worker has none, so it passes the admin client
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createClient()
+    this.resolver = new TwitterCredentialResolver(this.supabase)
+  }
+
+  /**
+   * Start sending an approved response. It posts once the undo window has
+   * passed, or straight away when undo send is off.
+   */
+  async queueSend(response: AIResponse): Promise<AIResponse> {
+    if (response.status !== 'approved' && response.status !== 'failed') {
+      throw new Error(`Only approved responses can be sent (status is ${response.status})`)
+    }
+
+    if (!response.tweet_id) {
+      throw new Error('Response is not linked to a tweet')
+    }
+
+    const sendAt = new Date(Date.now() + Math.max(this.undoSendSeconds, 0) * 1000).toISOString()
+
+    const { data, error } = await this.supabase
+      .from('ai_responses')
+      .update({
+        status: 'sending',
+        send_at: sendAt,
+        error_message: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', response.id)
+      .eq('status', response.status)
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error('Response changed while queueing; refresh and try again')
+    }
+
+    await systemLogger.info('ResponseSender', 'Response queued to send', {
+      responseId: response.id,
+      responseType: response.response_type,
+      sendAt
+    }, response.user_id)
+
+    if (this.undoSendSeconds <= 0) {
+      return this.postQueuedResponse(data as AIResponse)
+    }
+
+    return data as AIResponse
+  }
+
+  /**
+   * Cancel a response still inside its undo window; it goes back to 'approved'
+   */
+  async cancelSend(response: AIResponse): Promise<AIResponse> {
+    const { data, error } = await this.supabase
+      .from('ai_responses')
+      .update({
+        status: 'approved',
+        send_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', response.id)
+      .eq('status', 'sending')
+      .gt('send_at', new Date().toISOString())
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error('Too late to undo; the response is already being sent')
+    }
+
+    await this.auditService.record({
+      user_id: response.user_id,
+      account_id: response.account_id,
+      action: 'cancel_send',
+      source_table: 'ai_responses',
+      source_id: response.id,
+      metadata: { response_type: response.response_type, tweet_id: response.tweet_id }
+    })
+
+    return data as AIResponse
+  }
+
+  /**
+   * Post every response whose undo window has ended
+   */
+  async sendDueResponses(userId?: string): Promise<AIResponse[]> {
+    let query = this.supabase
+      .from('ai_responses')
+      .select('*')
+      .eq('status', 'sending')
+      .lte('send_at', new Date().toISOString())
+
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      await systemLogger.error('ResponseSender', 'Failed to fetch due responses', { error, userId })
+      throw error
+    }
+
+    const sent: AIResponse[] = []
+    for (const response of (data || []) as AIResponse[]) {
+      // Past the hard stop, due responses wait until there is budget again
+      const budget = await usageLedger.canWrite()
+      if (!budget.allowed) {
+        await systemLogger.warn('ResponseSender', 'Holding due responses: monthly write budget reached', {
+          reason: budget.reason
+        }, userId)
+        break
+      }
+
+      sent.push(await this.postQueuedResponse(response))
+    }
+
+    return sent
+  }
+
+  /**
+   * Put responses whose claim has expired back in the queue, due now. The
+   * sender holding them stopped before recording a result.
+   */
+  async releaseExpiredClaims(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('ai_responses')
+      .update({ send_at: new Date().toISOString(), claimed_at: null })
+      .eq('status', 'sending')
+      .is('send_at', null)
+      .lt('claimed_at', new Date(Date.now() - RESPONSE_CLAIM_MS).toISOString())
+      .select('id')
+
+    if (error) {
+      await systemLogger.error('ResponseSender', 'Failed to release expired send claims', { error })
+      throw error
+    }
+
+    if (data?.length) {
+      await systemLogger.warn('ResponseSender', 'Released expired send claims', {
+        responseIds: data.map(row => row.id)
+      })
+    }
+
+    return data?.length || 0
+  }
+
+  /**
+   * Claim a queued response and post it. Clearing send_at is the claim, so
+   * a concurrent cancel or a second sender cannot act on the same row;
+   * claimed_at lets an abandoned claim be found and released.
+   */
+  private async postQueuedResponse(response: AIResponse): Promise<AIResponse> {
+    const { data: claimed } = await this.supabase
+      .from('ai_responses')
+      .update({ send_at: null, claimed_at: new Date().toISOString() })
+      .eq('id', response.id)
+      .eq('status', 'sending')
+      .eq('send_at', response.send_at)
+      .select()
+      .single()
+
+    if (!claimed) {
+      return response
+    }
+
+    let updateData: Partial<AIResponse>
+
+    try {
+      const { connection, twitterAPI } = await this.resolver.resolveForUser(response.user_id, response.account_id)
+
+      const limit = await checkReplyLimit(connection.id)
+      if (!limit.allowed) {
+        throw new Error(`Daily reply limit reached for @${connection.twitter_username} (${limit.count}/${limit.limit}); send it again tomorrow`)
+      }
+
+      const posted = response.response_type === 'quote'
+        ? await twitterAPI.quoteTweet(response.content, response.tweet_id!, undefined, `ai_responses:${response.id}`)
+        : await twitterAPI.replyToTweet(response.content, response.tweet_id!, undefined, `ai_responses:${response.id}`)
+
+      updateData = {
+        status: 'published',
+        account_id: connection.id, // the account it counts against, when none was chosen
+        twitter_post_id: posted.data.id,
+        published_at: new Date().toISOString()
+      }
+
+      await systemLogger.info('ResponseSender', 'Response posted', {
+        responseId: response.id,
+        responseType: response.response_type,
+        twitterPostId: posted.data.id
+      }, response.user_id)
+    } catch (error) {
+      updateData = {
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error'
+      }
+
+      await systemLogger.error('ResponseSender', 'Response failed to post', {
+        responseId: response.id,
+        error: updateData.error_message
+      }, response.user_id)
+    }
+
+    const { data, error } = await this.supabase
+      .from('ai_responses')
+      .update({ ...updateData, claimed_at: null, updated_at: new Date().toISOString() })
+      .eq('id', response.id)
+      .select()
+      .single()
+
+    if (error) {
+      await systemLogger.error('ResponseSender', 'Failed to record send result', { error, responseId: response.id })
+    }
+
+    return (data || { ...response, ...updateData }) as AIResponse
+  }
+
+  /**
+   * Delete the tweet a published response created
+   */
+  async unpublishResponse(response: AIResponse, reason?: string): Promise<AIResponse> {
+    if (response.status !== 'published' || !response.twitter_post_id) {
+      throw new Error('Only published responses can be deleted')
+    }
+
+    const { twitterAPI } = await this.resolver.resolveForUser(response.user_id, response.account_id)
+    await twitterAPI.deleteTweet(response.twitter_post_id)
+
+    const { data, error } = await this.supabase
+      .from('ai_responses')
+      .update({ status: 'deleted', updated_at: new Date().toISOString() })
+      .eq('id', response.id)
+      .select()
+      .single()
+
+    if (error) {
+      await systemLogger.error('ResponseSender', 'Tweet deleted but response status not updated', { error, responseId: response.id })
+    }
+
+    await this.auditService.record({
+      user_id: response.user_id,
+      account_id: response.account_id,
+      action: 'delete_tweet',
+      twitter_post_id: response.twitter_post_id,
+      source_table: 'ai_responses',
+      source_id: response.id,
+      metadata: { response_type: response.response_type, tweet_id: response.tweet_id, reason }
+    })
+
+    return (data || { ...response, status: 'deleted' }) as AIResponse
+  }
+}
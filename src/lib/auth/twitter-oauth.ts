@@ -57,6 +57,14 @@ export class TwitterOAuthService {
     }
   }
 
+  /**
+   * Connect a Twitter account for posting via our own OAuth 2.0 PKCE flow.
+   * Unlike the Supabase login above, this stores refreshable user tokens.
+   */
+  connectPostingAccount(): void {
+    window.location.href = '/auth/twitter'
+  }
+
   /**
    * Get current user's Twitter OAuth status
    */
@@ -0,0 +1,135 @@
+import { createHash, randomBytes } from 'crypto'
+import { getTwitterOAuth2Config } from '@/lib/config/oauth-config'
+
+export interface OAuth2TokenSet {
+  accessToken: string
+  refreshToken?: string
+  expiresAt: number // epoch milliseconds
+  scope?: string
+}
+
+interface OAuth2TokenResponse {
+  token_type: string
+  access_token: string
+  refresh_token?: string
+  expires_in: number
+  scope?: string
+}
+
+/**
+ * Refresh this long before the access token actually expires
+ */
+export const TOKEN_REFRESH_SKEW_MS = 60 * 1000
+
+/**
+ * Generate a PKCE code verifier (RFC 7636, 43-128 unreserved characters)
+ */
+export function generateCodeVerifier(): string {
+  return randomBytes(48).toString('base64url')
+}
+
+/**
+ * Derive the S256 code challenge for a verifier
+ */
+export function generateCodeChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url')
+}
+
+/**
+ * Generate an opaque state value to bind the callback to this browser
+ */
+export function generateState(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+/**
+ * Build the Twitter authorization URL for the PKCE flow
+ */
+export function buildAuthorizationUrl(state: string, codeChallenge: string): string {
+  const config = getTwitterOAuth2Config()
+  const url = new URL(config.authorizeUrl)
+
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', config.clientId)
+  url.searchParams.set('redirect_uri', config.redirectUri)
+  url.searchParams.set('scope', config.scopes.join(' '))
+  url.searchParams.set('state', state)
+  url.searchParams.set('code_challenge', codeChallenge)
+  url.searchParams.set('code_challenge_method', 'S256')
+
+  return url.toString()
+}
+
+/**
+ * Check whether a token expires within the refresh skew window
+ */
+export function isTokenExpiring(expiresAt?: number): boolean {
+  if (!expiresAt) {
+    return false
+  }
+  return Date.now() >= expiresAt - TOKEN_REFRESH_SKEW_MS
+}
+
+/**
+ * POST to the token endpoint. Confidential clients authenticate with
+ * HTTP Basic, public clients send client_id in the body.
+ */
+async function requestToken(params: Record<string, string>): Promise<OAuth2TokenSet> {
+  const config = getTwitterOAuth2Config()
+  const body = new URLSearchParams(params)
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded'
+  }
+
+  if (config.clientSecret) {
+    const basic = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64')
+    headers['Authorization'] = `Basic ${basic}`
+  } else {
+    body.set('client_id', config.clientId)
+  }
+
+  const response = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers,
+    body: body.toString()
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(`Twitter OAuth token request failed: ${response.status} ${errorData?.error_description || errorData?.error || 'Unknown error'}`)
+  }
+
+  const result = await response.json() as OAuth2TokenResponse
+
+  return {
+    accessToken: result.access_token,
+    refreshToken: result.refresh_token,
+    expiresAt: Date.now() + result.expires_in * 1000,
+    scope: result.scope
+  }
+}
+
+/**
+ * Exchange an authorization code for access and refresh tokens
+ */
+export async function exchangeCodeForTokens(code: string, codeVerifier: string): Promise<OAuth2TokenSet> {
+  const config = getTwitterOAuth2Config()
+
+  return requestToken({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    code_verifier: codeVerifier
+  })
+}
+
+/**
+ * Exchange a refresh token for a new token set. Twitter rotates refresh
+ * tokens, so the returned refresh token replaces the old one.
+ */
+export async function refreshAccessToken(refreshToken: string): Promise<OAuth2TokenSet> {
+  return requestToken({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken
+  })
+}
@@ -1,145 +1,468 @@
-import { TweetData, TwitterUser } from '@/lib/twitter/twitter-api'
-
-interface CachedTweet {
-  id: string
-  text: string
-  author_id: string
-  author_username: string
-  created_at: string
-  public_metrics?: {
-    retweet_count: number
-    reply_count: number
-    like_count: number
-    quote_count: number
-  }
-  lang?: string
-  cached_at: number
-  expires_at: number
+/**
+ * Twitter Search Cache
+ *
+ * Two tiers: an in-memory LRU per server process in front of the
+ * twitter_search_cache table, so results outlive restarts and are shared
+ * between instances. Entries are keyed by the normalised query and the
+ * number of results asked for, hold the newest tweets for the query newest
+ * first, and keep the users Twitter included with them. An entry is fresh for about as
+ * long as its query takes to gather a handful of new tweets, so busy
+ * queries are searched often and quiet ones rarely. After that it is stale
+ * for a while: stale results are still served at once while the caller
+ * refreshes them in the background.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+import { systemLogger } from '@/lib/logging/system-logger'
+import type { TweetData, TwitterUser } from '@/lib/twitter/twitter-api'
+import { TwitterSearchCacheRecord } from '@/types/database'
+
+const DEFAULT_MAX_ENTRIES = 100
+const MIN_FRESH_MS = 2 * 60 * 1000
+const MAX_FRESH_MS = 30 * 60 * 1000
+const STALE_WINDOW_MS = 60 * 60 * 1000 // served while revalidating for this long after going stale
+const NEW_TWEETS_PER_REFRESH = 10
+const PAGE_SIZE = 1000 // PostgREST's default row limit
+
+export interface CachedSearchResult {
+  key: string
+  query: string
+  keywords: string[]
+  tweets: TweetData[]
+  users: TwitterUser[]
+  cachedAt: number
+  freshUntil: number
+  staleUntil: number
+  lastUsedAt: number
 }
 
-interface CachedSearchResult {
-  tweets: CachedTweet[]
+export interface SearchCacheLookup {
+  result: CachedSearchResult
+  state: 'fresh' | 'stale'
+}
+
+export interface SearchCacheStats {
+  size: number
+  maxEntries: number
+  hits: number // fresh results served
+  staleHits: number // stale results served while revalidating
+  misses: number
+  hitRate: number
+  durableHits: number // memory misses found in the table
+  evictions: number
+  refreshes: number
+  refreshFailures: number
+  keys: string[]
+}
+
+/**
+ * One cached query as listed for admins
+ */
+export interface SearchCacheEntry {
+  key: string
+  query: string
   keywords: string[]
-  searchQuery: string
-  cached_at: number
-  expires_at: number
+  tweets: number
+  users: number
+  sizeBytes: number
+  ageMs: number
+  state: 'fresh' | 'stale' | 'expired'
+  cachedAt: string
+  freshUntil: string
+  staleUntil: string
+  lastUsedAt?: string // in this process; not tracked for table-only entries
+  tiers: Array<'memory' | 'durable'>
+}
+
+export interface TwitterCacheOptions {
+  maxEntries?: number
+  durable?: boolean // keep entries in twitter_search_cache as well as in memory
+  now?: () => number
+}
+
+/**
+ * Cache key for a search query: whitespace collapsed and terms lowercased,
+ * keeping the OR operator, which Twitter only reads in capitals
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query
+    .trim()
+    .split(/\s+/)
+    .map(term => (term === 'OR' ? term : term.toLowerCase()))
+    .join(' ')
+}
+
+/**
+ * How long a result stays fresh: roughly the time its query takes to
+ * gather NEW_TWEETS_PER_REFRESH new tweets at the pace the results show
+ */
+export function getFreshTtl(tweets: TweetData[]): number {
+  const times = tweets
+    .map(tweet => new Date(tweet.created_at).getTime())
+    .filter(time => !Number.isNaN(time))
+
+  if (times.length < 2) {
+    return MAX_FRESH_MS
+  }
+
+  const msPerTweet = (Math.max(...times) - Math.min(...times)) / (times.length - 1)
+  return Math.min(Math.max(msPerTweet * NEW_TWEETS_PER_REFRESH, MIN_FRESH_MS), MAX_FRESH_MS)
+}
+
+/**
+ * Cache key for a query and the number of results asked for, so a short
+ * result is never served for a request that wanted more
+ */
+export function getSearchCacheKey(searchQuery: string, maxResults: number): string {
+  return `${normalizeSearchQuery(searchQuery)} max_results:${maxResults}`
 }
 
 export class TwitterCacheService {
+  // Least recently used first
   private cache: Map<string, CachedSearchResult> = new Map()
-  private readonly CACHE_DURATION = 15 * 60 * 1000 // 15 minutes in milliseconds
-  private readonly MAX_CACHE_SIZE = 100 // Maximum number of cached searches
+  private refreshing = new Map<string, Promise<void>>()
+  private supabase: ReturnType<typeof createAdminClient> | null = null
+  private maxEntries: number
+  private durable: boolean
+  private now: () => number
+  private stats = { hits: 0, staleHits: 0, misses: 0, durableHits: 0, evictions: 0, refreshes: 0, refreshFailures: 0 }
 
-  /**
-   * Generate a cache key for a search query
-   */
-  private generateCacheKey(keywords: string[], searchQuery: string): string {
-    const sortedKeywords = [...keywords].sort().join(',')
-    return `${sortedKeywords}:${searchQuery}`
+  constructor(options: TwitterCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+    this.durable = options.durable ?? true
+    this.now = options.now || Date.now
   }
 
   /**
-   * Check if cached data exists and is still valid
+   * Look up a query, from memory first and then the table. Entries past
+   * their stale window count as misses.
    */
-  getCachedResult(keywords: string[], searchQuery: string): CachedSearchResult | null {
-    const cacheKey = this.generateCacheKey(keywords, searchQuery)
-    const cached = this.cache.get(cacheKey)
+  async getCachedResult(searchQuery: string, maxResults: number): Promise<SearchCacheLookup | null> {
+    const key = getSearchCacheKey(searchQuery, maxResults)
+    const inMemory = this.cache.get(key)
+    const result = inMemory || await this.loadDurable(key)
 
-    if (!cached) {
+    if (!result || this.now() >= result.staleUntil) {
+      this.cache.delete(key)
+      this.stats.misses++
       return null
     }
 
-    // Check if cache has expired
-    if (Date.now() > cached.expires_at) {
-      this.cache.delete(cacheKey)
-      return null
+    if (!inMemory) {
+      this.stats.durableHits++
     }
-
-    return cached
+    this.touch(result)
+    const state = this.now() < result.freshUntil ? 'fresh' : 'stale'
+    this.stats[state === 'fresh' ? 'hits' : 'staleHits']++
+    return { result, state }
   }
 
   /**
-   * Store search results in cache
+   * Store the newest tweets for a query, newest first, with the users
+   * Twitter included for them
    */
-  cacheResult(keywords: string[], searchQuery: string, tweets: TweetData[], includes?: { users?: TwitterUser[] }): void {
-    const cacheKey = this.generateCacheKey(keywords, searchQuery)
-    const now = Date.now()
-
-    // Transform tweets to include author information
-    const transformedTweets: CachedTweet[] = tweets.map(tweet => {
-      const author = includes?.users?.find((u: TwitterUser) => u.id === tweet.author_id)
-      return {
-        ...tweet,
-        author_username: author?.username || 'unknown',
-        cached_at: now,
-        expires_at: now + this.CACHE_DURATION
-      }
-    })
-
-    const cachedResult: CachedSearchResult = {
-      tweets: transformedTweets,
-      keywords,
-      searchQuery,
-      cached_at: now,
-      expires_at: now + this.CACHE_DURATION
+  async cacheResult(
+    keywords: string[],
+    searchQuery: string,
+    maxResults: number,
+    tweets: TweetData[],
+    includes?: { users?: TwitterUser[] }
+  ): Promise<CachedSearchResult> {
+    const now = this.now()
+    const freshUntil = now + getFreshTtl(tweets)
+    const result: CachedSearchResult = {
+      key: getSearchCacheKey(searchQuery, maxResults),
+      query: searchQuery,
+      keywords: keywords.map(keyword => keyword.toLowerCase()),
+      tweets,
+      users: includes?.users || [],
+      cachedAt: now,
+      freshUntil,
+      staleUntil: freshUntil + STALE_WINDOW_MS,
+      lastUsedAt: now
     }
 
-    // Implement LRU cache eviction
-    if (this.cache.size >= this.MAX_CACHE_SIZE) {
-      const oldestKey = this.cache.keys().next().value
-      if (oldestKey) {
-        this.cache.delete(oldestKey)
-      }
+    this.touch(result)
+    await this.saveDurable(result)
+    return result
+  }
+
+  /**
+   * Refresh a query in the background, once at a time per query. Failures
+   * are logged and leave the cached result in place.
+   */
+  revalidate(searchQuery: string, maxResults: number, refresh: () => Promise<unknown>): void {
+    const key = getSearchCacheKey(searchQuery, maxResults)
+    if (this.refreshing.has(key)) {
+      return
     }
 
-    this.cache.set(cacheKey, cachedResult)
+    this.stats.refreshes++
+    const running = refresh()
+      .then(() => undefined)
+      .catch(async error => {
+        this.stats.refreshFailures++
+        await systemLogger.warn('Twitter Cache', 'Background refresh failed, keeping stale results', {
+          query: searchQuery,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      })
+      .finally(() => this.refreshing.delete(key))
+    this.refreshing.set(key, running)
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; keys: string[] } {
+  getCacheStats(): SearchCacheStats {
+    const lookups = this.stats.hits + this.stats.staleHits + this.stats.misses
     return {
       size: this.cache.size,
+      maxEntries: this.maxEntries,
+      ...this.stats,
+      hitRate: lookups > 0 ? (this.stats.hits + this.stats.staleHits) / lookups : 0,
       keys: Array.from(this.cache.keys())
     }
   }
 
   /**
-   * Clear expired cache entries
+   * Every cached query in both tiers, most recently used first, with
+   * table-only entries after those in memory
+   */
+  async listEntries(): Promise<SearchCacheEntry[]> {
+    const entries = new Map<string, SearchCacheEntry>()
+
+    Array.from(this.cache.values()).reverse().forEach(result => {
+      entries.set(result.key, { ...this.describe(result), lastUsedAt: new Date(result.lastUsedAt).toISOString(), tiers: ['memory'] })
+    })
+
+    for (const result of await this.loadAllDurable()) {
+      const entry = entries.get(result.key)
+      if (entry) {
+        entry.tiers.push('durable')
+      } else {
+        entries.set(result.key, { ...this.describe(result), tiers: ['durable'] })
+      }
+    }
+
+    return Array.from(entries.values())
+  }
+
+  /**
+   * Drop every entry searched for any of these keywords from both tiers,
+   * returning how many in-memory entries went
+   */
+  async invalidateKeywords(keywords: string[]): Promise<number> {
+    const lowered = keywords.map(keyword => keyword.toLowerCase())
+    if (lowered.length === 0) {
+      return 0
+    }
+
+    let removed = 0
+    for (const [key, value] of this.cache.entries()) {
+      if (value.keywords.some(keyword => lowered.includes(keyword))) {
+        this.cache.delete(key)
+        removed++
+      }
+    }
+
+    await this.deleteDurable({ keywords: lowered })
+    return removed
+  }
+
+  /**
+   * Remove entries past their stale window from both tiers
    */
-  cleanupExpired(): number {
-    const now = Date.now()
+  async cleanupExpired(): Promise<number> {
+    const now = this.now()
     let cleanedCount = 0
 
     for (const [key, value] of this.cache.entries()) {
-      if (now > value.expires_at) {
+      if (now >= value.staleUntil) {
         this.cache.delete(key)
         cleanedCount++
       }
     }
 
+    await this.deleteDurable({ staleBefore: now })
     return cleanedCount
   }
 
   /**
-   * Clear all cache
+   * Clear both tiers
    */
-  clearCache(): void {
+  async clearCache(): Promise<void> {
     this.cache.clear()
+    await this.deleteDurable({})
   }
 
   /**
-   * Check if we should use cache based on rate limiting
+   * Mark an entry as most recently used, evicting the least recently used
+   * past the size limit
    */
-  shouldUseCache(keywords: string[], searchQuery: string): boolean {
-    const cached = this.getCachedResult(keywords, searchQuery)
-    if (!cached) {
-      return false
+  private touch(result: CachedSearchResult): void {
+    result.lastUsedAt = this.now()
+    this.cache.delete(result.key)
+    this.cache.set(result.key, result)
+
+    while (this.cache.size > this.maxEntries) {
+      const oldestKey = this.cache.keys().next().value
+      if (oldestKey === undefined) {
+        break
+      }
+      this.cache.delete(oldestKey)
+      this.stats.evictions++
+    }
+  }
+
+  private async loadDurable(key: string): Promise<CachedSearchResult | undefined> {
+    if (!this.durable) {
+      return undefined
     }
 
-    // Use cache if it's less than 5 minutes old (fresher content)
-    const fiveMinutesAgo = Date.now() - (5 * 60 * 1000)
-    return cached.cached_at > fiveMinutesAgo
+    try {
+      const { data, error } = await this.getClient()
+        .from('twitter_search_cache')
+        .select('*')
+        .eq('key', key)
+        .maybeSingle()
+
+      if (error) {
+        throw error
+      }
+      return data ? fromRecord(data as TwitterSearchCacheRecord) : undefined
+    } catch (error) {
+      await systemLogger.warn('Twitter Cache', 'Failed to read search cache table', {
+        key,
+        error: error instanceof Error ? error.message : error
+      })
+      return undefined
+    }
+  }
+
+  private describe(result: CachedSearchResult): Omit<SearchCacheEntry, 'tiers'> {
+    const now = this.now()
+    return {
+      key: result.key,
+      query: result.query,
+      keywords: result.keywords,
+      tweets: result.tweets.length,
+      users: result.users.length,
+      sizeBytes: new TextEncoder().encode(JSON.stringify({ tweets: result.tweets, users: result.users })).length,
+      ageMs: now - result.cachedAt,
+      state: now < result.freshUntil ? 'fresh' : now < result.staleUntil ? 'stale' : 'expired',
+      cachedAt: new Date(result.cachedAt).toISOString(),
+      freshUntil: new Date(result.freshUntil).toISOString(),
+      staleUntil: new Date(result.staleUntil).toISOString()
+    }
+  }
+
+  private async loadAllDurable(): Promise<CachedSearchResult[]> {
+    if (!this.durable) {
+      return []
+    }
+
+    try {
+      const { data, error } = await this.getClient()
+        .from('twitter_search_cache')
+        .select('*')
+        .order('cached_at', { ascending: false })
+        .limit(PAGE_SIZE)
+
+      if (error) {
+        throw error
+      }
+      return ((data || []) as TwitterSearchCacheRecord[]).map(fromRecord)
+    } catch (error) {
+      await systemLogger.warn('Twitter Cache', 'Failed to list search cache table', {
+        error: error instanceof Error ? error.message : error
+      })
+      return []
+    }
+  }
+
+  private async saveDurable(result: CachedSearchResult): Promise<void> {
+    if (!this.durable) {
+      return
+    }
+
+    try {
+      const { error } = await this.getClient()
+        .from('twitter_search_cache')
+        .upsert(toRecord(result), { onConflict: 'key' })
+
+      if (error) {
+        throw error
+      }
+    } catch (error) {
+      await systemLogger.warn('Twitter Cache', 'Failed to write search cache table', {
+        key: result.key,
+        error: error instanceof Error ? error.message : error
+      })
+    }
+  }
+
+  /**
+   * Delete rows whose stale window ended before a time, or that were
+   * searched for any of some keywords, or with neither, every row
+   */
+  private async deleteDurable(match: { staleBefore?: number; keywords?: string[] }): Promise<void> {
+    if (!this.durable) {
+      return
+    }
+
+    try {
+      const rows = this.getClient().from('twitter_search_cache').delete()
+      const { error } = await (match.staleBefore !== undefined
+        ? rows.lt('stale_until', new Date(match.staleBefore).toISOString())
+        : match.keywords
+          ? rows.overlaps('keywords', match.keywords)
+          : rows.neq('key', ''))
+      if (error) {
+        throw error
+      }
+    } catch (error) {
+      await systemLogger.warn('Twitter Cache', 'Failed to delete from search cache table', {
+        error: error instanceof Error ? error.message : error
+      })
+    }
+  }
+
+  private getClient(): ReturnType<typeof createAdminClient> {
+    // Searches use the app's token, so every user shares the same results
+    if (!this.supabase) {
+      this.supabase = createAdminClient()
+    }
+    return this.supabase
+  }
+}
+
+function toRecord(result: CachedSearchResult): TwitterSearchCacheRecord {
+  return {
+    key: result.key,
+    query: result.query,
+    keywords: result.keywords,
+    tweets: result.tweets,
+    users: result.users,
+    cached_at: new Date(result.cachedAt).toISOString(),
+    fresh_until: new Date(result.freshUntil).toISOString(),
+    stale_until: new Date(result.staleUntil).toISOString()
+  }
+}
+
+function fromRecord(record: TwitterSearchCacheRecord): CachedSearchResult {
+  return {
+    key: record.key,
+    query: record.query,
+    keywords: record.keywords || [],
+    tweets: record.tweets || [],
+    users: record.users || [],
+    cachedAt: new Date(record.cached_at).getTime(),
+    freshUntil: new Date(record.fresh_until).getTime(),
+    staleUntil: new Date(record.stale_until).getTime(),
+    lastUsedAt: new Date(record.cached_at).getTime()
   }
 }
+
+// Shared by every Twitter client in this process
+export const twitterSearchCache = new TwitterCacheService()
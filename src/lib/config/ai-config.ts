@@ -12,6 +12,7 @@ export const AI_CONFIG = {
   groq: {
     apiKey: process.env.GROQ_API_KEY,
     model: 'llama3-8b-8192', // Fast and efficient model
+    visionModel: 'meta-llama/llama-4-scout-17b-16e-instruct', // Image understanding for alt text
     maxTokens: 500,
     temperature: 0.7,
     topP: 0.9,
@@ -35,6 +36,7 @@ export const AI_CONFIG = {
       autoApprove: false, // Require human approval for now
       maxDailyResponses: 50,
       cooldownMinutes: 15, // Wait between responses to same user
+      undoSendSeconds: parseInt(process.env.UNDO_SEND_SECONDS || '30'), // Holding window before an approved reply posts; 0 sends immediately
     },
     
     intent: {
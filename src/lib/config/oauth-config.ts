@@ -43,3 +43,31 @@ export const getOAuthRedirectUrl = (provider: string): string => {
   
   return fullUrl
 }
+
+/**
+ * Twitter OAuth 2.0 (Authorization Code + PKCE) settings for connecting
+ * posting accounts. This flow is separate from the Supabase login above.
+ */
+export const TWITTER_OAUTH2_CONFIG = {
+  authorizeUrl: 'https://twitter.com/i/oauth2/authorize',
+  tokenUrl: 'https://api.twitter.com/2/oauth2/token',
+  scopes: ['tweet.read', 'tweet.write', 'users.read', 'like.write', 'media.write', 'offline.access'],
+  callbackPath: '/auth/twitter/callback'
+}
+
+export const getTwitterOAuth2Config = () => {
+  const clientId = process.env.TWITTER_CLIENT_ID
+
+  if (!clientId) {
+    throw new Error('Missing TWITTER_CLIENT_ID environment variable')
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+  return {
+    ...TWITTER_OAUTH2_CONFIG,
+    clientId,
+    clientSecret: process.env.TWITTER_CLIENT_SECRET,
+    redirectUri: process.env.TWITTER_CALLBACK_URL || `${baseUrl}${TWITTER_OAUTH2_CONFIG.callbackPath}`
+  }
+}
@@ -32,6 +32,7 @@ export interface ContentSchedule {
   id: string
   contentId: string
   userId: string
+  accountId?: string
   scheduledAt: Date
   postingTimeSlot: string
   timezone: string
@@ -114,7 +115,8 @@ export class ContentCalendarSystem {
     userId: string,
     scheduledAt: Date,
     postingTimeSlot: string,
-    timezone: string = 'UTC'
+    timezone: string = 'UTC',
+    accountId?: string
   ): Promise<ContentSchedule> {
     try {
       const { data, error } = await this.supabase
@@ -122,6 +124,7 @@ export class ContentCalendarSystem {
         .insert({
           content_id: contentId,
           user_id: userId,
+          account_id: accountId,
           scheduled_at: scheduledAt.toISOString(),
           posting_time_slot: postingTimeSlot,
           timezone,
@@ -137,6 +140,7 @@ export class ContentCalendarSystem {
       await systemLogger.info('ContentCalendarSystem', 'Content scheduled successfully', {
         contentId,
         userId,
+        accountId,
         scheduledAt: scheduledAt.toISOString(),
         postingTimeSlot
       })
@@ -384,6 +388,7 @@ export class ContentCalendarSystem {
     id: string
     content_id: string
     user_id: string
+    account_id?: string
     scheduled_at: string
     posting_time_slot: string
     timezone: string
@@ -398,6 +403,7 @@ export class ContentCalendarSystem {
       id: data.id,
       contentId: data.content_id,
       userId: data.user_id,
+      accountId: data.account_id,
       scheduledAt: new Date(data.scheduled_at),
       postingTimeSlot: data.posting_time_slot,
       timezone: data.timezone,
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest'
+import { FakeClock } from '@/lib/scheduling/clock'
+import { ContentPublishWorker } from './content-publish-worker'
+import { ContentPublisher, PollResultSummary, PublishResult } from './content-publisher'
+
+function fakePublisher() {
+  return {
+    publishDueContent: vi.fn(async (): Promise<PublishResult[]> => []),
+    collectPollResults: vi.fn(async (): Promise<PollResultSummary[]> => [])
+  }
+}
+
+describe('ContentPublishWorker', () => {
+  it('publishes due content and collects closed polls on every tick', async () => {
+    const clock = new FakeClock(0)
+    const publisher = fakePublisher()
+    publisher.publishDueContent.mockResolvedValueOnce([
+      { scheduleId: 'a', success: true, twitterPostId: '1' },
+      { scheduleId: 'b', success: false, errorMessage: 'nope' }
+    ])
+    publisher.collectPollResults.mockResolvedValueOnce([
+      { scheduleId: 'c', twitterPostId: '2', totalVotes: 3, options: [] }
+    ])
+
+    const worker = new ContentPublishWorker({ clock, tickMs: 1000, publisher: publisher as unknown as ContentPublisher })
+    worker.start()
+    await clock.advance(0)
+
+    expect(worker.getStatus()).toMatchObject({ state: 'running', published: 1, failed: 1, pollsCollected: 1 })
+
+    await clock.advance(2000)
+    expect(publisher.publishDueContent).toHaveBeenCalledTimes(3)
+    expect(publisher.collectPollResults).toHaveBeenCalledTimes(3)
+
+    worker.stop()
+    await clock.advance(5000)
+    expect(publisher.publishDueContent).toHaveBeenCalledTimes(3)
+    expect(clock.pendingTimers()).toBe(0)
+  })
+
+  it('keeps ticking after a failed run', async () => {
+    const clock = new FakeClock(0)
+    const publisher = fakePublisher()
+    publisher.publishDueContent.mockRejectedValueOnce(new Error('database down'))
+
+    const worker = new ContentPublishWorker({ clock, tickMs: 1000, publisher: publisher as unknown as ContentPublisher })
+    worker.start()
+    await clock.advance(0)
+    expect(worker.getStatus().lastError).toBe('database down')
+
+    await clock.advance(1000)
+    expect(worker.getStatus().lastError).toBeUndefined()
+    expect(publisher.collectPollResults).toHaveBeenCalledTimes(1)
+    worker.stop()
+  })
+})
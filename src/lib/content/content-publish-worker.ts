@@ -0,0 +1,159 @@
+/**
+ * Content Publish Worker
+ *
+ * Publishes every user's scheduled content once it comes due, and picks
+ * partial threads back up when their resume time arrives, without anyone
+ * calling the publish route. Polls that have closed get their final votes
+ * collected on the same ticks. Due items are claimed before posting, so
+ * several server processes can run the worker at once. It starts with the
+ * server; set CONTENT_PUBLISH_WORKER=off to turn it off.
+ */
+
+import { systemLogger } from '@/lib/logging/system-logger'
+import { Clock, systemClock } from '@/lib/scheduling/clock'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { ContentPublisher } from './content-publisher'
+
+const DEFAULT_TICK_MS = 30 * 1000
+
+export interface ContentPublishWorkerOptions {
+  tickMs?: number
+  clock?: Clock
+  publisher?: ContentPublisher
+}
+
+export interface ContentPublishWorkerStatus {
+  state: 'stopped' | 'running'
+  published: number
+  failed: number
+  pollsCollected: number
+  lastTickAt?: string
+  nextTickAt?: string
+  lastError?: string
+}
+
+export class ContentPublishWorker {
+  private clock: Clock
+  private tickMs: number
+  private publisher: ContentPublisher | null
+  private cancelTick: (() => void) | null = null
+  private currentRun: Promise<void> | null = null
+  private running = false
+  private generation = 0 // bumped on each start so a stopped loop can't reschedule itself
+  private status = {
+    published: 0,
+    failed: 0,
+    pollsCollected: 0,
+    lastTickAt: undefined as number | undefined,
+    nextTickAt: undefined as number | undefined,
+    lastError: undefined as string | undefined
+  }
+
+  constructor(options: ContentPublishWorkerOptions = {}) {
+    this.clock = options.clock || systemClock
+    this.tickMs = options.tickMs ?? DEFAULT_TICK_MS
+    this.publisher = options.publisher || null
+  }
+
+  getStatus(): ContentPublishWorkerStatus {
+    const toIso = (time?: number) => (time === undefined ? undefined : new Date(time).toISOString())
+
+    return {
+      state: this.running ? 'running' : 'stopped',
+      published: this.status.published,
+      failed: this.status.failed,
+      pollsCollected: this.status.pollsCollected,
+      lastTickAt: toIso(this.status.lastTickAt),
+      nextTickAt: toIso(this.status.nextTickAt),
+      lastError: this.status.lastError
+    }
+  }
+
+  /**
+   * Start publishing, with the first tick straight away. Without the admin
+   * client the worker can't see anyone's schedule, so it stays stopped.
+   */
+  start(): void {
+    if (this.running) {
+      return
+    }
+
+    try {
+      this.getPublisher()
+    } catch (error) {
+      void systemLogger.warn('Content Publish Worker', 'Publish worker not started', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return
+    }
+
+    this.running = true
+    this.scheduleTick(++this.generation, 0)
+    void systemLogger.info('Content Publish Worker', 'Publish worker started', { tickMs: this.tickMs })
+  }
+
+  stop(): void {
+    this.running = false
+    this.cancelTick?.()
+    this.cancelTick = null
+    this.status.nextTickAt = undefined
+    void systemLogger.info('Content Publish Worker', 'Publish worker stopped', {})
+  }
+
+  /**
+   * Publish every due item and collect closed polls now; a call during a
+   * run waits for it
+   */
+  runOnce(): Promise<void> {
+    if (!this.currentRun) {
+      this.currentRun = this.publishDue().finally(() => {
+        this.currentRun = null
+      })
+    }
+    return this.currentRun
+  }
+
+  private async publishDue(): Promise<void> {
+    this.status.lastTickAt = this.clock.now()
+
+    const results = await this.getPublisher().publishDueContent()
+    this.status.published += results.filter(result => result.success).length
+    this.status.failed += results.filter(result => !result.success).length
+
+    // Each poll is picked up on the first tick after its voting window ends
+    const polls = await this.getPublisher().collectPollResults()
+    this.status.pollsCollected += polls.length
+    this.status.lastError = undefined
+  }
+
+  private scheduleTick(generation: number, delayMs: number): void {
+    this.status.nextTickAt = this.clock.now() + delayMs
+    this.cancelTick = this.clock.schedule(async () => {
+      if (!this.running || generation !== this.generation) {
+        return
+      }
+
+      try {
+        await this.runOnce()
+      } catch (error) {
+        this.status.lastError = error instanceof Error ? error.message : 'Unknown error'
+        await systemLogger.error('Content Publish Worker', 'Publish tick failed', { error: this.status.lastError })
+      }
+
+      if (this.running && generation === this.generation) {
+        this.scheduleTick(generation, this.tickMs)
+      }
+    }, delayMs)
+  }
+
+  private getPublisher(): ContentPublisher {
+    // Every user's schedule is read here, with no session to pass RLS
+    if (!this.publisher) {
+      this.publisher = new ContentPublisher(createAdminClient())
+    }
+    return this.publisher
+  }
+}
+
+// One worker per server process
+export const contentPublishWorker = new ContentPublishWorker()
@@ -0,0 +1,463 @@
+/**
+ * Content Publisher
+ *
+ * Publishes due items from content_schedule through the Twitter account
+ * chosen for each item. Each due item is claimed first, so the publish
+ * worker in several processes never posts the same item twice. Threads are posted as reply chains; one that stops
+ * partway goes back on the schedule and resumes from its recorded progress
+ * a few minutes later, up to THREAD_MAX_RESUMES times. Polls are posted
+ * with their options, and their votes are collected once they close.
+ * Attached images are uploaded to Twitter at post time. Published items
+ * can be taken down again, which is recorded in the audit trail.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { TwitterCredentialResolver, createAppTwitterAPI } from '@/lib/twitter/credential-resolver'
+import { TwitterAPIService, TwitterPoll } from '@/lib/twitter/twitter-api'
+import { ContentSchedule, ThreadProgress } from '@/types/database'
+import { splitIntoThread } from './thread-splitter'
+import { MediaAttachmentService } from './media-attachments'
+import { TwitterActionAuditService } from '@/lib/database/twitter-action-audit'
+import { usageLedger } from '@/lib/usage/usage-ledger'
+
+export const THREAD_MAX_RESUMES = 5
+const THREAD_RESUME_DELAY_MS = 5 * 60 * 1000
+const PUBLISH_CLAIM_MS = 10 * 60 * 1000 // an item a crashed publisher claimed comes due again after this
+
+export interface PublishResult {
+  scheduleId: string
+  success: boolean
+  twitterPostId?: string
+  threadProgress?: ThreadProgress
+  errorMessage?: string
+}
+
+export interface PollResultSummary {
+  scheduleId: string
+  twitterPostId: string
+  totalVotes: number
+  options: TwitterPoll['options']
+}
+
+export class ContentPublisher {
+  private supabase: SupabaseClient
+  private resolver: TwitterCredentialResolver
+  private mediaService: MediaAttachmentService | null = null
+  private auditService = new TwitterActionAuditService()
+
+  // Routes pass their session client; a worker with no session would pass the admin client
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createClient()
+    this.resolver = new TwitterCredentialResolver(this.supabase)
+  }
+
+  /**
+   * Publish every scheduled item whose time has come
+   */
+  async publishDueContent(userId?: string): Promise<PublishResult[]> {
+    let query = this.supabase
+      .from('content_schedule')
+      .select('*')
+      .eq('status', 'scheduled')
+      .lte('scheduled_at', new Date().toISOString())
+      .order('scheduled_at', { ascending: true })
+
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      await systemLogger.error('ContentPublisher', 'Failed to fetch due content', { error, userId })
+      throw error
+    }
+
+    const results: PublishResult[] = []
+    for (const item of (data || []) as ContentSchedule[]) {
+      // Past the hard stop, due items stay scheduled until there is budget again
+      const budget = await usageLedger.canWrite()
+      if (!budget.allowed) {
+        await systemLogger.warn('ContentPublisher', 'Holding due content: monthly write budget reached', {
+          reason: budget.reason
+        }, userId)
+        break
+      }
+
+      if (!await this.claimDueItem(item)) {
+        continue
+      }
+
+      results.push(await this.publishItem(item))
+    }
+
+    return results
+  }
+
+  /**
+   * Claim a due item by moving its scheduled_at past the publish, so a
+   * second publisher skips it. If this process dies mid-publish the item
+   * simply comes due again once the claim runs out.
+   */
+  private async claimDueItem(item: ContentSchedule): Promise<boolean> {
+    const { data } = await this.supabase
+      .from('content_schedule')
+      .update({ scheduled_at: new Date(Date.now() + PUBLISH_CLAIM_MS).toISOString() })
+      .eq('id', item.id)
+      .eq('status', 'scheduled')
+      .eq('scheduled_at', item.scheduled_at)
+      .select('id')
+      .maybeSingle()
+
+    return !!data
+  }
+
+  /**
+   * Publish a single scheduled item and record the outcome
+   */
+  async publishItem(item: ContentSchedule): Promise<PublishResult> {
+    let result: PublishResult
+
+    try {
+      const { twitterAPI } = await this.resolver.resolveForUser(item.user_id, item.account_id)
+
+      switch (item.content_type) {
+        case 'thread':
+          result = await this.publishThread(twitterAPI, item)
+          break
+        case 'poll':
+          result = await this.publishPoll(twitterAPI, item)
+          break
+        default:
+          result = await this.publishTweet(twitterAPI, item)
+      }
+    } catch (error) {
+      result = {
+        scheduleId: item.id,
+        success: false,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+
+    await this.recordResult(item, result)
+    return result
+  }
+
+  /**
+   * Post a single tweet
+   */
+  private async publishTweet(twitterAPI: TwitterAPIService, item: ContentSchedule): Promise<PublishResult> {
+    const mediaIds = await this.uploadMedia(twitterAPI, item)
+    const posted = await twitterAPI.postTweet(item.content, { mediaIds, idempotencyKey: `content_schedule:${item.id}` })
+
+    return {
+      scheduleId: item.id,
+      success: true,
+      twitterPostId: posted.data.id
+    }
+  }
+
+  /**
+   * Post a tweet with the item's poll attached
+   */
+  private async publishPoll(twitterAPI: TwitterAPIService, item: ContentSchedule): Promise<PublishResult> {
+    if (!item.poll_options || !item.poll_duration_minutes) {
+      throw new Error('Poll is missing its options or duration')
+    }
+
+    const posted = await twitterAPI.postTweet(item.content, {
+      idempotencyKey: `content_schedule:${item.id}`,
+      poll: {
+        options: item.poll_options,
+        durationMinutes: item.poll_duration_minutes
+      }
+    })
+
+    return {
+      scheduleId: item.id,
+      success: true,
+      twitterPostId: posted.data.id
+    }
+  }
+
+  /**
+   * Post a thread, continuing after any parts a previous attempt posted
+   */
+  private async publishThread(twitterAPI: TwitterAPIService, item: ContentSchedule): Promise<PublishResult> {
+    const parts = splitIntoThread(item.content, { numbering: true })
+    const alreadyPosted = item.thread_progress?.posted_tweet_ids || []
+
+    // Re-splitting edited content would no longer line up with posted parts
+    if (item.thread_progress && item.thread_progress.total_parts !== parts.length) {
+      throw new Error('Thread content changed after a partial post; cannot resume')
+    }
+
+    // Media belongs to the first part, which is already up when resuming
+    const mediaIds = alreadyPosted.length === 0 ? await this.uploadMedia(twitterAPI, item) : undefined
+    const thread = await twitterAPI.postThread(parts, alreadyPosted, mediaIds)
+    const threadProgress: ThreadProgress = {
+      posted_tweet_ids: thread.tweetIds,
+      total_parts: parts.length,
+      resume_attempts: alreadyPosted.length > 0 ? (item.thread_progress?.resume_attempts || 0) + 1 : 0
+    }
+
+    return {
+      scheduleId: item.id,
+      success: thread.completed,
+      twitterPostId: thread.tweetIds[0],
+      threadProgress,
+      errorMessage: thread.error
+        ? `Part ${(thread.failedAt ?? 0) + 1} of ${parts.length} failed: ${thread.error}`
+        : undefined
+    }
+  }
+
+  /**
+   * Upload the linked content item's attachments, if any
+   */
+  private async uploadMedia(twitterAPI: TwitterAPIService, item: ContentSchedule): Promise<string[] | undefined> {
+    if (!item.content_id) {
+      return undefined
+    }
+
+    const mediaIds = await this.getMediaService().uploadForTweet(item.content_id, twitterAPI)
+    return mediaIds.length > 0 ? mediaIds : undefined
+  }
+
+  private getMediaService(): MediaAttachmentService {
+    // Files are read from storage with no user session, which RLS would turn away
+    if (!this.mediaService) {
+      this.mediaService = new MediaAttachmentService(createAdminClient())
+    }
+    return this.mediaService
+  }
+
+  /**
+   * Persist publish status, post id and thread progress. A thread that
+   * stopped partway stays scheduled, a little later, so it resumes.
+   */
+  private async recordResult(item: ContentSchedule, result: PublishResult): Promise<void> {
+    const progress = result.threadProgress
+    const resumable = !result.success &&
+      !!progress &&
+      progress.posted_tweet_ids.length > 0 &&
+      (progress.resume_attempts || 0) < THREAD_MAX_RESUMES
+
+    const updateData: Partial<ContentSchedule> = {
+      status: result.success ? 'published' : resumable ? 'scheduled' : 'failed',
+      updated_at: new Date().toISOString()
+    }
+
+    // Also puts back the time a claim moved
+    updateData.scheduled_at = resumable
+      ? new Date(Date.now() + THREAD_RESUME_DELAY_MS).toISOString()
+      : item.scheduled_at
+    if (result.success) {
+      updateData.published_at = new Date().toISOString()
+    } else {
+      updateData.error_message = result.errorMessage
+    }
+    if (result.twitterPostId) {
+      updateData.twitter_post_id = result.twitterPostId
+    }
+    if (result.threadProgress) {
+      updateData.thread_progress = result.threadProgress
+    }
+
+    const { error } = await this.supabase
+      .from('content_schedule')
+      .update(updateData)
+      .eq('id', item.id)
+
+    if (error) {
+      await systemLogger.error('ContentPublisher', 'Failed to record publish result', { error, scheduleId: item.id })
+    }
+
+    if (result.success) {
+      await systemLogger.info('ContentPublisher', 'Scheduled content published', {
+        scheduleId: item.id,
+        contentType: item.content_type,
+        accountId: item.account_id,
+        twitterPostId: result.twitterPostId
+      })
+    } else if (resumable) {
+      await systemLogger.warn('ContentPublisher', 'Thread stopped partway; rescheduled to resume', {
+        scheduleId: item.id,
+        accountId: item.account_id,
+        postedParts: progress.posted_tweet_ids.length,
+        totalParts: progress.total_parts,
+        resumeAt: updateData.scheduled_at,
+        errorMessage: result.errorMessage
+      })
+    } else {
+      await systemLogger.error('ContentPublisher', 'Scheduled content failed to publish', {
+        scheduleId: item.id,
+        contentType: item.content_type,
+        accountId: item.account_id,
+        postedParts: result.threadProgress?.posted_tweet_ids.length,
+        errorMessage: result.errorMessage
+      })
+    }
+  }
+
+  /**
+   * Delete a published item's tweets (every part of a thread, last first)
+   * and mark it deleted
+   */
+  async unpublishItem(item: ContentSchedule, reason?: string): Promise<void> {
+    const tweetIds = item.thread_progress?.posted_tweet_ids.length
+      ? [...item.thread_progress.posted_tweet_ids].reverse()
+      : item.twitter_post_id ? [item.twitter_post_id] : []
+
+    if (tweetIds.length === 0) {
+      throw new Error('Content has no published tweets to delete')
+    }
+
+    const { twitterAPI } = await this.resolver.resolveForUser(item.user_id, item.account_id)
+    for (const tweetId of tweetIds) {
+      await twitterAPI.deleteTweet(tweetId)
+    }
+
+    const { error } = await this.supabase
+      .from('content_schedule')
+      .update({ status: 'deleted', updated_at: new Date().toISOString() })
+      .eq('id', item.id)
+
+    if (error) {
+      await systemLogger.error('ContentPublisher', 'Tweets deleted but content status not updated', { error, scheduleId: item.id })
+    }
+
+    await this.auditService.record({
+      user_id: item.user_id,
+      account_id: item.account_id,
+      action: 'delete_tweet',
+      twitter_post_id: item.twitter_post_id,
+      source_table: 'content_schedule',
+      source_id: item.id,
+      metadata: { content_type: item.content_type, deleted_tweet_ids: tweetIds, reason }
+    })
+  }
+
+  /**
+   * Pull final vote counts for published polls whose voting window has
+   * ended and store them in content_performance
+   */
+  async collectPollResults(userId?: string): Promise<PollResultSummary[]> {
+    let query = this.supabase
+      .from('content_schedule')
+      .select('*')
+      .eq('content_type', 'poll')
+      .eq('status', 'published')
+      .not('twitter_post_id', 'is', null)
+      .is('poll_results_collected_at', null)
+
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      await systemLogger.error('ContentPublisher', 'Failed to fetch published polls', { error, userId })
+      throw error
+    }
+
+    const now = Date.now()
+    const closedPolls = ((data || []) as ContentSchedule[]).filter(item => {
+      const publishedAt = item.published_at ? new Date(item.published_at).getTime() : now
+      return publishedAt + (item.poll_duration_minutes || 0) * 60 * 1000 <= now
+    })
+
+    if (closedPolls.length === 0) {
+      return []
+    }
+
+    const twitterAPI = createAppTwitterAPI()
+    const summaries: PollResultSummary[] = []
+
+    for (const item of closedPolls) {
+      try {
+        const poll = await twitterAPI.getPollResults(item.twitter_post_id!)
+
+        // Twitter can report a poll as open for a short while after its end time
+        if (!poll || poll.voting_status !== 'closed') {
+          continue
+        }
+
+        summaries.push(await this.recordPollResults(item, poll))
+      } catch (error) {
+        await systemLogger.warn('ContentPublisher', 'Failed to collect poll results', {
+          scheduleId: item.id,
+          twitterPostId: item.twitter_post_id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    return summaries
+  }
+
+  /**
+   * Store a closed poll's votes and mark its results as collected. The
+   * votes are kept on the schedule row, and in content_performance when
+   * the poll was scheduled from a content item.
+   */
+  private async recordPollResults(item: ContentSchedule, poll: TwitterPoll): Promise<PollResultSummary> {
+    const totalVotes = poll.options.reduce((sum, option) => sum + option.votes, 0)
+    const summary: PollResultSummary = {
+      scheduleId: item.id,
+      twitterPostId: item.twitter_post_id!,
+      totalVotes,
+      options: poll.options
+    }
+
+    const pollMetrics = {
+      poll_id: poll.id,
+      twitter_post_id: item.twitter_post_id,
+      total_votes: totalVotes,
+      options: poll.options,
+      end_datetime: poll.end_datetime
+    }
+
+    // content_performance rows belong to ai_superconnector_content items, not schedule rows
+    if (item.content_id) {
+      const { error: performanceError } = await this.supabase
+        .from('content_performance')
+        .insert({
+          content_id: item.content_id,
+          performance_metrics: pollMetrics,
+          tracked_at: new Date().toISOString()
+        })
+
+      if (performanceError) {
+        throw performanceError
+      }
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('content_schedule')
+      .update({
+        engagement_metrics: { ...item.engagement_metrics, poll: pollMetrics },
+        poll_results_collected_at: new Date().toISOString()
+      })
+      .eq('id', item.id)
+
+    if (updateError) {
+      await systemLogger.error('ContentPublisher', 'Failed to mark poll results collected', {
+        error: updateError,
+        scheduleId: item.id
+      })
+    }
+
+    await systemLogger.info('ContentPublisher', 'Poll results collected', {
+      scheduleId: item.id,
+      twitterPostId: item.twitter_post_id,
+      totalVotes
+    })
+
+    return summary
+  }
+}
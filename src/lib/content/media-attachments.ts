@@ -0,0 +1,219 @@
+/**
+ * Content Media Attachments
+ *
+ * Images and GIFs attached to a content item. Files live in Supabase
+ * Storage and are uploaded to Twitter only when the content is posted,
+ * since Twitter media ids expire after a day.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { TwitterAPIService, MEDIA_MAX_ATTACHMENTS, validateMediaFile } from '@/lib/twitter/twitter-api'
+import { ContentMediaAttachment } from '@/types/database'
+
+const MEDIA_BUCKET = 'content-media'
+
+export interface NewMediaAttachment {
+  contentId: string
+  userId: string
+  fileName: string
+  mediaType: string
+  data: Uint8Array
+  altText?: string
+  altTextAISuggested?: boolean
+}
+
+export class MediaAttachmentService {
+  private supabase: SupabaseClient
+
+  // Routes pass their session client and publishing the admin client, so storage RLS lets them in
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createClient()
+  }
+
+  /**
+   * Get a content item's attachments in posting order
+   */
+  async getAttachments(contentId: string): Promise<ContentMediaAttachment[]> {
+    const { data, error } = await this.supabase
+      .from('content_media_attachments')
+      .select('*')
+      .eq('content_id', contentId)
+      .order('position', { ascending: true })
+
+    if (error) {
+      await systemLogger.error('MediaAttachmentService', 'Failed to fetch attachments', { error, contentId })
+      throw error
+    }
+
+    return (data || []) as ContentMediaAttachment[]
+  }
+
+  /**
+   * Get a single attachment by ID
+   */
+  async getAttachment(attachmentId: string): Promise<ContentMediaAttachment | null> {
+    const { data, error } = await this.supabase
+      .from('content_media_attachments')
+      .select('*')
+      .eq('id', attachmentId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null
+      }
+      throw error
+    }
+
+    return data as ContentMediaAttachment
+  }
+
+  /**
+   * Store a file and link it to a content item
+   */
+  async addAttachment(attachment: NewMediaAttachment): Promise<ContentMediaAttachment> {
+    const fileError = validateMediaFile(attachment.mediaType, attachment.data.byteLength)
+    if (fileError) {
+      throw new Error(fileError)
+    }
+
+    const existing = await this.getAttachments(attachment.contentId)
+    if (existing.length >= MEDIA_MAX_ATTACHMENTS) {
+      throw new Error(`Content can have at most ${MEDIA_MAX_ATTACHMENTS} attachments`)
+    }
+
+    const safeName = attachment.fileName.replace(/[^a-zA-Z0-9._-]/g, '_')
+    const storagePath = `${attachment.userId}/${attachment.contentId}/${Date.now()}-${safeName}`
+
+    const { error: uploadError } = await this.supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(storagePath, attachment.data, { contentType: attachment.mediaType })
+
+    if (uploadError) {
+      await systemLogger.error('MediaAttachmentService', 'Failed to store media file', {
+        error: uploadError,
+        contentId: attachment.contentId
+      })
+      throw uploadError
+    }
+
+    const { data, error } = await this.supabase
+      .from('content_media_attachments')
+      .insert({
+        content_id: attachment.contentId,
+        user_id: attachment.userId,
+        file_name: attachment.fileName,
+        media_type: attachment.mediaType,
+        size_bytes: attachment.data.byteLength,
+        storage_path: storagePath,
+        alt_text: attachment.altText,
+        alt_text_ai_suggested: attachment.altTextAISuggested || false,
+        position: existing.length
+      })
+      .select()
+      .single()
+
+    if (error) {
+      await this.supabase.storage.from(MEDIA_BUCKET).remove([storagePath])
+      await systemLogger.error('MediaAttachmentService', 'Failed to save attachment', { error, contentId: attachment.contentId })
+      throw error
+    }
+
+    await systemLogger.info('MediaAttachmentService', 'Media attached to content', {
+      contentId: attachment.contentId,
+      attachmentId: data.id,
+      mediaType: attachment.mediaType,
+      size: attachment.data.byteLength
+    }, attachment.userId)
+
+    return data as ContentMediaAttachment
+  }
+
+  /**
+   * Edit an attachment's alt text
+   */
+  async updateAltText(attachmentId: string, altText: string, aiSuggested: boolean = false): Promise<ContentMediaAttachment> {
+    const { data, error } = await this.supabase
+      .from('content_media_attachments')
+      .update({
+        alt_text: altText,
+        alt_text_ai_suggested: aiSuggested,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', attachmentId)
+      .select()
+      .single()
+
+    if (error) {
+      await systemLogger.error('MediaAttachmentService', 'Failed to update alt text', { error, attachmentId })
+      throw error
+    }
+
+    return data as ContentMediaAttachment
+  }
+
+  /**
+   * Delete an attachment and its stored file
+   */
+  async removeAttachment(attachment: ContentMediaAttachment): Promise<void> {
+    const { error } = await this.supabase
+      .from('content_media_attachments')
+      .delete()
+      .eq('id', attachment.id)
+
+    if (error) {
+      await systemLogger.error('MediaAttachmentService', 'Failed to delete attachment', { error, attachmentId: attachment.id })
+      throw error
+    }
+
+    const { error: storageError } = await this.supabase.storage.from(MEDIA_BUCKET).remove([attachment.storage_path])
+    if (storageError) {
+      await systemLogger.warn('MediaAttachmentService', 'Attachment deleted but file remains in storage', {
+        error: storageError,
+        storagePath: attachment.storage_path
+      })
+    }
+  }
+
+  /**
+   * Read an attachment's file from storage
+   */
+  async downloadAttachment(attachment: ContentMediaAttachment): Promise<Uint8Array> {
+    const { data, error } = await this.supabase.storage.from(MEDIA_BUCKET).download(attachment.storage_path)
+
+    if (error || !data) {
+      throw error || new Error('Attachment file not found')
+    }
+
+    return new Uint8Array(await data.arrayBuffer())
+  }
+
+  /**
+   * Upload a content item's attachments to Twitter and return their media ids
+   */
+  async uploadForTweet(contentId: string, twitterAPI: TwitterAPIService): Promise<string[]> {
+    const attachments = await this.getAttachments(contentId)
+    const mediaIds: string[] = []
+
+    for (const attachment of attachments) {
+      const data = await this.downloadAttachment(attachment)
+      const mediaId = await twitterAPI.uploadMedia(data, attachment.media_type, {
+        altText: attachment.alt_text
+      })
+
+      await this.supabase
+        .from('content_media_attachments')
+        .update({
+          twitter_media_id: mediaId,
+          uploaded_to_twitter_at: new Date().toISOString()
+        })
+        .eq('id', attachment.id)
+
+      mediaIds.push(mediaId)
+    }
+
+    return mediaIds
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { getTweetLength, splitIntoThread } from './thread-splitter'
+
+describe('getTweetLength', () => {
+  it('counts Latin text by character', () => {
+    expect(getTweetLength('Hello, world!')).toBe(13)
+  })
+
+  it('counts every link as 23 without its trailing punctuation', () => {
+    expect(getTweetLength('see https://example.com/a/very/long/path/that/keeps/going.')).toBe(4 + 23 + 1)
+  })
+
+  it('counts CJK characters and emoji as two', () => {
+    expect(getTweetLength('日本語')).toBe(6)
+    expect(getTweetLength('hi 👋')).toBe(5)
+  })
+})
+
+describe('splitIntoThread', () => {
+  it('leaves text that fits as a single unnumbered part', () => {
+    expect(splitIntoThread('One short tweet.', { numbering: true })).toEqual(['One short tweet.'])
+  })
+
+  it('returns nothing for blank text', () => {
+    expect(splitIntoThread('  \n\n  ')).toEqual([])
+  })
+
+  it('keeps sentences together and numbers each part within the limit', () => {
+    const sentence = 'This sentence is exactly long enough to matter here.'
+    const parts = splitIntoThread(Array(12).fill(sentence).join(' '), { numbering: true })
+
+    expect(parts.length).toBeGreaterThan(1)
+    parts.forEach((part, index) => {
+      expect(part.endsWith(` ${index + 1}/${parts.length}`)).toBe(true)
+      expect(getTweetLength(part)).toBeLessThanOrEqual(280)
+      expect(part.replace(/ \d+\/\d+$/, '').split(sentence).join('').trim()).toBe('')
+    })
+  })
+
+  it('breaks an over-long sentence between words, never inside one', () => {
+    const words = Array.from({ length: 120 }, (_, index) => `word${index}`)
+    const parts = splitIntoThread(words.join(' '), { maxLength: 100 })
+
+    parts.forEach(part => expect(getTweetLength(part)).toBeLessThanOrEqual(100))
+    expect(parts.join(' ').split(' ')).toEqual(words)
+  })
+
+  it('keeps links whole and measures them as 23', () => {
+    const link = `https://example.com/${'x'.repeat(200)}`
+    const parts = splitIntoThread(`${'a '.repeat(30)}${link} ${'b '.repeat(30)}`.trim(), { maxLength: 80 })
+
+    expect(parts.some(part => part.includes(link))).toBe(true)
+    parts.forEach(part => expect(getTweetLength(part)).toBeLessThanOrEqual(80))
+  })
+
+  it('breaks text written without spaces between its wide characters', () => {
+    const text = '日本語の文章'.repeat(40)
+    const parts = splitIntoThread(text)
+
+    expect(parts.length).toBeGreaterThan(1)
+    parts.forEach(part => expect(getTweetLength(part)).toBeLessThanOrEqual(280))
+    expect(parts.join('')).toBe(text)
+  })
+
+  it('reserves more room when numbering adds a digit to the part count', () => {
+    const parts = splitIntoThread(Array.from({ length: 60 }, (_, index) => `Sentence number ${index} is here.`).join(' '), {
+      maxLength: 60,
+      numbering: true
+    })
+
+    expect(parts.length).toBeGreaterThanOrEqual(10)
+    parts.forEach(part => expect(getTweetLength(part)).toBeLessThanOrEqual(60))
+  })
+
+  it('throws on a single word longer than a tweet', () => {
+    expect(() => splitIntoThread('x'.repeat(300))).toThrow()
+  })
+})
@@ -0,0 +1,202 @@
+/**
+ * Thread Splitter
+ *
+ * Breaks long text into tweet-sized parts, preferring sentence and
+ * paragraph boundaries and only splitting inside a sentence when it is
+ * longer than a single tweet. Parts are measured the way Twitter counts
+ * them: links count as 23 whatever their length, and characters outside
+ * the Latin and common punctuation ranges (CJK, emoji) count as 2. Words
+ * and links are never cut; text written without spaces is broken between
+ * its wide characters instead.
+ */
+
+export interface ThreadSplitOptions {
+  maxLength?: number // as Twitter counts it
+  numbering?: boolean // append " 1/n" to each part
+}
+
+const DEFAULT_MAX_LENGTH = 280
+const URL_LENGTH = 23 // every link is shortened to a t.co link of this length
+
+// Trailing punctuation isn't part of the link
+const URL_PATTERN = /https?:\/\/\S+?(?=[.,!?;:)'"]*(?:\s|$))/g
+
+// Code point ranges that count as one character; everything else counts as two
+const SINGLE_WEIGHT_RANGES: Array<[number, number]> = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247]
+]
+
+function getCharactersLength(text: string): number {
+  let length = 0
+  for (const character of text) {
+    const codePoint = character.codePointAt(0)!
+    length += SINGLE_WEIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2
+  }
+  return length
+}
+
+/**
+ * Length of text as Twitter counts it toward the 280 limit
+ */
+export function getTweetLength(text: string): number {
+  let length = 0
+  let last = 0
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    length += getCharactersLength(text.slice(last, match.index)) + URL_LENGTH
+    last = match.index! + match[0].length
+  }
+
+  return length + getCharactersLength(text.slice(last))
+}
+
+/**
+ * Split text into sentences, treating blank lines as hard breaks
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .flatMap(paragraph => paragraph.replace(/\s+/g, ' ').trim().split(/(?<=[.!?…])\s+/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Break a word with no spaces in it, such as Chinese or Japanese text,
+ * next to its wide characters, which can be broken anywhere. Runs of
+ * narrow characters, like a word or link, are kept whole; one longer than
+ * the limit on its own can't be posted, so it is an error.
+ */
+function splitUnspacedWord(word: string, limit: number): string[] {
+  const chunks: string[] = []
+  let current = ''
+  let breakAt = 0 // last position in current it may be broken at
+  let previousWide = false
+
+  for (const character of word) {
+    const wide = getCharactersLength(character) === 2
+    if (current && (wide || previousWide)) {
+      breakAt = current.length
+    }
+    previousWide = wide
+    current += character
+
+    if (getTweetLength(current) > limit) {
+      if (breakAt === 0) {
+        throw new Error(`"${current.slice(0, 20)}…" is too long for a tweet and can't be split`)
+      }
+      chunks.push(current.slice(0, breakAt))
+      current = current.slice(breakAt)
+      breakAt = 0
+    }
+  }
+
+  if (current) {
+    chunks.push(current)
+  }
+
+  return chunks
+}
+
+/**
+ * Break a single over-long sentence at word boundaries
+ */
+function splitLongSentence(sentence: string, limit: number): string[] {
+  const chunks: string[] = []
+  let current = ''
+
+  for (const word of sentence.split(' ')) {
+    if (getTweetLength(word) > limit) {
+      if (current) {
+        chunks.push(current)
+      }
+      const pieces = splitUnspacedWord(word, limit)
+      chunks.push(...pieces.slice(0, -1))
+      current = pieces[pieces.length - 1]
+      continue
+    }
+
+    const candidate = current ? `${current} ${word}` : word
+    if (getTweetLength(candidate) > limit) {
+      chunks.push(current)
+      current = word
+    } else {
+      current = candidate
+    }
+  }
+
+  if (current) {
+    chunks.push(current)
+  }
+
+  return chunks
+}
+
+/**
+ * Greedily pack sentences into parts of at most `limit` weighted characters
+ */
+function packSentences(sentences: string[], limit: number): string[] {
+  const parts: string[] = []
+  let current = ''
+
+  for (const sentence of sentences) {
+    const pieces = getTweetLength(sentence) > limit ? splitLongSentence(sentence, limit) : [sentence]
+
+    for (const piece of pieces) {
+      const candidate = current ? `${current} ${piece}` : piece
+      if (getTweetLength(candidate) > limit) {
+        parts.push(current)
+        current = piece
+      } else {
+        current = candidate
+      }
+    }
+  }
+
+  if (current) {
+    parts.push(current)
+  }
+
+  return parts
+}
+
+/**
+ * Split text into thread parts. With numbering enabled, room for the
+ * " i/n" suffix is reserved up front; if adding it pushes the part count
+ * into more digits the text is re-packed with a larger reserve.
+ */
+export function splitIntoThread(text: string, options: ThreadSplitOptions = {}): string[] {
+  const maxLength = options.maxLength || DEFAULT_MAX_LENGTH
+  const sentences = splitSentences(text)
+
+  if (sentences.length === 0) {
+    return []
+  }
+
+  if (!options.numbering) {
+    return packSentences(sentences, maxLength)
+  }
+
+  let parts = packSentences(sentences, maxLength)
+  let reservedFor = parts.length
+
+  // A single part needs no numbering
+  if (parts.length === 1) {
+    return parts
+  }
+
+  for (;;) {
+    const suffixLength = ` ${reservedFor}/${reservedFor}`.length
+    parts = packSentences(sentences, maxLength - suffixLength)
+
+    if (String(parts.length).length <= String(reservedFor).length) {
+      break
+    }
+    reservedFor = parts.length
+  }
+
+  return parts.map((part, index) => `${part} ${index + 1}/${parts.length}`)
+}
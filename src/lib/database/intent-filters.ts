@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/client'
 import { systemLogger } from '@/lib/logging/system-logger'
 
@@ -5,11 +6,17 @@ export interface IntentFilter {
   id: string
   user_id: string
   keyword: string
+  since_id?: string | null // newest tweet already fetched for this filter
   created_at: string
 }
 
 export class IntentFiltersService {
-  private supabase = createClient()
+  private supabase: SupabaseClient
+
+  // Background jobs have no user session, so they pass the admin client
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createClient()
+  }
 
   /**
    * Get all intent filters for a user
@@ -38,6 +45,23 @@ export class IntentFiltersService {
     }
   }
 
+  /**
+   * Get every user's intent filters, for syncing app-wide filtered stream rules
+   */
+  async getAllFilters(): Promise<IntentFilter[]> {
+    const { data, error } = await this.supabase
+      .from('intent_filters')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      await systemLogger.error('IntentFiltersService', 'Failed to fetch all filters', { error })
+      throw error
+    }
+
+    return data || []
+  }
+
   /**
    * Add a new intent filter for a user
    */
@@ -92,6 +116,23 @@ export class IntentFiltersService {
     }
   }
 
+  /**
+   * Record the newest tweet fetched for a filter so the next search only
+   * asks for newer ones
+   */
+  async updateSinceId(filterId: string, userId: string, sinceId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('intent_filters')
+      .update({ since_id: sinceId })
+      .eq('id', filterId)
+      .eq('user_id', userId)
+
+    if (error) {
+      await systemLogger.error('IntentFiltersService', 'Failed to update since_id', { filterId, userId, sinceId, error })
+      throw error
+    }
+  }
+
   /**
    * Get all keywords for a user as a simple array
    */
@@ -0,0 +1,169 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { AgentDecision, IntentAnalysis } from '@/types/ai'
+import { CreateMonitoredTweet, MonitoredTweet, TriageStatus, TRIAGE_STATUSES } from '@/types/database'
+
+export interface MonitoredTweetQueryOptions {
+  status?: TriageStatus
+  limit?: number
+}
+
+export class MonitoredTweetsService {
+  private supabase: SupabaseClient
+
+  // Background jobs have no user session, so they pass the admin client
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createClient()
+  }
+
+  /**
+   * Store matched tweets, skipping any the user already has, and return
+   * the rows that were new
+   */
+  async saveMatches(rows: CreateMonitoredTweet[]): Promise<MonitoredTweet[]> {
+    if (rows.length === 0) {
+      return []
+    }
+
+    const { data, error } = await this.supabase
+      .from('monitored_tweets')
+      .upsert(rows, { onConflict: 'user_id,tweet_id', ignoreDuplicates: true })
+      .select()
+
+    if (error) {
+      await systemLogger.error('MonitoredTweetsService', 'Failed to store matched tweets', {
+        error,
+        tweetIds: rows.map(row => row.tweet_id)
+      })
+      throw error
+    }
+
+    return (data || []) as MonitoredTweet[]
+  }
+
+  /**
+   * Attach the agent's intent analysis and decision to a stored tweet
+   */
+  async saveAnalysis(id: string, intent: IntentAnalysis, decision: AgentDecision): Promise<void> {
+    const { error } = await this.supabase
+      .from('monitored_tweets')
+      .update({
+        intent_analysis: intent,
+        agent_decision: decision,
+        analyzed_at: new Date().toISOString()
+      })
+      .eq('id', id)
+
+    if (error) {
+      await systemLogger.error('MonitoredTweetsService', 'Failed to save tweet analysis', { error, id })
+      throw error
+    }
+  }
+
+  /**
+   * Get a user's monitored tweets, newest first. Snoozed tweets whose
+   * snooze has run out are listed as new.
+   */
+  async getTweets(userId: string, options: MonitoredTweetQueryOptions = {}): Promise<MonitoredTweet[]> {
+    let query = this.supabase
+      .from('monitored_tweets')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50)
+
+    if (options.status) {
+      query = query.or(buildStatusFilter(options.status))
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      await systemLogger.error('MonitoredTweetsService', 'Failed to fetch monitored tweets', { error }, userId)
+      throw error
+    }
+
+    return ((data || []) as MonitoredTweet[]).map(tweet => ({ ...tweet, status: getEffectiveStatus(tweet) }))
+  }
+
+  /**
+   * Number of tweets in each triage status
+   */
+  async getStatusCounts(userId: string): Promise<Record<TriageStatus, number>> {
+    const counts = await Promise.all(TRIAGE_STATUSES.map(async status => {
+      const { count, error } = await this.supabase
+        .from('monitored_tweets')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .or(buildStatusFilter(status))
+
+      if (error) {
+        await systemLogger.error('MonitoredTweetsService', 'Failed to count monitored tweets', { error, status }, userId)
+        throw error
+      }
+
+      return [status, count || 0] as const
+    }))
+
+    return Object.fromEntries(counts) as Record<TriageStatus, number>
+  }
+
+  /**
+   * Move tweets to a triage status. Snoozing needs the time the tweet
+   * should come back.
+   */
+  async updateStatus(
+    userId: string,
+    ids: string[],
+    status: TriageStatus,
+    snoozedUntil?: string
+  ): Promise<MonitoredTweet[]> {
+    if (status === 'snoozed' && !snoozedUntil) {
+      throw new Error('Snoozing a tweet requires snoozedUntil')
+    }
+
+    const { data, error } = await this.supabase
+      .from('monitored_tweets')
+      .update({
+        status,
+        snoozed_until: status === 'snoozed' ? snoozedUntil : null,
+        status_changed_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+      .in('id', ids)
+      .select()
+
+    if (error) {
+      await systemLogger.error('MonitoredTweetsService', 'Failed to update triage status', { error, ids, status }, userId)
+      throw error
+    }
+
+    return (data || []) as MonitoredTweet[]
+  }
+}
+
+/**
+ * PostgREST filter for a triage status, with expired snoozes counted as new
+ */
+function buildStatusFilter(status: TriageStatus): string {
+  const now = new Date().toISOString()
+  switch (status) {
+    case 'new':
+      return `status.eq.new,and(status.eq.snoozed,snoozed_until.lte.${now})`
+    case 'snoozed':
+      return `and(status.eq.snoozed,snoozed_until.gt.${now})`
+    default:
+      return `status.eq.${status}`
+  }
+}
+
+/**
+ * The status a tweet should be shown with, treating an expired snooze as new
+ */
+export function getEffectiveStatus(tweet: Pick<MonitoredTweet, 'status' | 'snoozed_until'>): TriageStatus {
+  if (tweet.status === 'snoozed' && (!tweet.snoozed_until || new Date(tweet.snoozed_until).getTime() <= Date.now())) {
+    return 'new'
+  }
+  return tweet.status
+}
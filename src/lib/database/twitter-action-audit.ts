@@ -0,0 +1,48 @@
+import { createClient } from '@/lib/supabase/client'
+import { CreateTwitterActionAudit, TwitterActionAudit } from '@/types/database'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+export class TwitterActionAuditService {
+  private supabase = createClient()
+
+  /**
+   * Record an undo or delete so there is a trail of what was taken back
+   */
+  async record(entry: CreateTwitterActionAudit): Promise<void> {
+    const { error } = await this.supabase
+      .from('twitter_action_audit')
+      .insert(entry)
+
+    // The Twitter action already happened; keep the trail in the system log if the insert fails
+    if (error) {
+      await systemLogger.error('Twitter Action Audit', 'Failed to record audit entry', { error, entry }, entry.user_id)
+      return
+    }
+
+    await systemLogger.info('Twitter Action Audit', `Recorded ${entry.action}`, {
+      accountId: entry.account_id,
+      twitterPostId: entry.twitter_post_id,
+      sourceTable: entry.source_table,
+      sourceId: entry.source_id
+    }, entry.user_id)
+  }
+
+  /**
+   * Audit entries for one response or scheduled content item, newest first
+   */
+  async getForSource(sourceTable: 'ai_responses' | 'content_schedule', sourceId: string): Promise<TwitterActionAudit[]> {
+    const { data, error } = await this.supabase
+      .from('twitter_action_audit')
+      .select('*')
+      .eq('source_table', sourceTable)
+      .eq('source_id', sourceId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      await systemLogger.error('Twitter Action Audit', 'Failed to fetch audit entries', { error, sourceTable, sourceId })
+      throw error
+    }
+
+    return (data || []) as TwitterActionAudit[]
+  }
+}
@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/client'
 import { 
   TwitterOAuthConnection, 
@@ -6,9 +7,39 @@ import {
   TwitterConnectionStatus 
 } from '@/types/database'
 import { systemLogger } from '@/lib/logging/system-logger'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  decryptTokens,
+  encryptTokens,
+  getActiveKeyVersion,
+  hasTokenFields,
+  pickTokenFields
+} from '@/lib/security/token-encryption'
 
 export class TwitterOAuthConnectionService {
-  private supabase = createClient()
+  private supabase: SupabaseClient
+
+  // Routes pass their session client; token refreshes and workers pass the admin client
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createClient()
+  }
+
+  /**
+   * Replace plaintext token fields with their encrypted form
+   */
+  private encryptConnection<T extends UpdateTwitterOAuthConnection>(connection: T): T {
+    if (!hasTokenFields(connection)) {
+      return connection
+    }
+    return { ...connection, ...encryptTokens(pickTokenFields(connection)) }
+  }
+
+  /**
+   * Decrypt token fields on a row read from the database
+   */
+  private decryptConnection(connection: TwitterOAuthConnection): TwitterOAuthConnection {
+    return decryptTokens(connection)
+  }
 
   /**
    * Create a new Twitter OAuth connection
@@ -17,12 +48,16 @@ export class TwitterOAuthConnectionService {
     try {
       const { data, error } = await this.supabase
         .from('user_twitter_connections')
-        .insert(connection)
+        .insert(this.encryptConnection(connection))
         .select()
         .single()
 
       if (error) {
-        await systemLogger.error('Twitter OAuth Service', 'Failed to create connection', { error, connection })
+        await systemLogger.error('Twitter OAuth Service', 'Failed to create connection', { 
+          error, 
+          userId: connection.user_id, 
+          twitterUsername: connection.twitter_username 
+        })
         return null
       }
 
@@ -31,9 +66,13 @@ export class TwitterOAuthConnectionService {
         twitterUsername: connection.twitter_username 
       })
 
-      return data
+      return this.decryptConnection(data)
     } catch (error) {
-      await systemLogger.error('Twitter OAuth Service', 'Exception creating connection', { error, connection })
+      await systemLogger.error('Twitter OAuth Service', 'Exception creating connection', { 
+        error, 
+        userId: connection.user_id, 
+        twitterUsername: connection.twitter_username 
+      })
       return null
     }
   }
@@ -54,7 +93,7 @@ export class TwitterOAuthConnectionService {
         return null
       }
 
-      return data
+      return this.decryptConnection(data)
     } catch (error) {
       await systemLogger.error('Twitter OAuth Service', 'Exception getting connection by ID', { error, id })
       return null
@@ -77,7 +116,7 @@ export class TwitterOAuthConnectionService {
         return []
       }
 
-      return data || []
+      return (data || []).map(connection => this.decryptConnection(connection))
     } catch (error) {
       await systemLogger.error('Twitter OAuth Service', 'Exception getting connections by user ID', { error, userId })
       return []
@@ -100,7 +139,7 @@ export class TwitterOAuthConnectionService {
         return null
       }
 
-      return data
+      return this.decryptConnection(data)
     } catch (error) {
       await systemLogger.error('Twitter OAuth Service', 'Exception getting connection by Twitter user ID', { error, twitterUserId })
       return null
@@ -111,24 +150,38 @@ export class TwitterOAuthConnectionService {
    * Update a Twitter OAuth connection
    */
   async updateConnection(id: string, updates: UpdateTwitterOAuthConnection): Promise<TwitterOAuthConnection | null> {
+    const updatedFields = Object.keys(updates)
+
     try {
+      let payload = updates
+
+      // All token fields on a row share one data key, so a partial token
+      // update re-encrypts the full set under a fresh key
+      if (hasTokenFields(updates)) {
+        const current = await this.getConnectionById(id)
+        if (!current) {
+          return null
+        }
+        payload = this.encryptConnection({ ...pickTokenFields(current), ...updates })
+      }
+
       const { data, error } = await this.supabase
         .from('user_twitter_connections')
-        .update(updates)
+        .update(payload)
         .eq('id', id)
         .select()
         .single()
 
       if (error) {
-        await systemLogger.error('Twitter OAuth Service', 'Failed to update connection', { error, id, updates })
+        await systemLogger.error('Twitter OAuth Service', 'Failed to update connection', { error, id, updatedFields })
         return null
       }
 
-      await systemLogger.info('Twitter OAuth Service', 'Updated Twitter OAuth connection', { id, updates })
+      await systemLogger.info('Twitter OAuth Service', 'Updated Twitter OAuth connection', { id, updatedFields })
 
-      return data
+      return this.decryptConnection(data)
     } catch (error) {
-      await systemLogger.error('Twitter OAuth Service', 'Exception updating connection', { error, id, updates })
+      await systemLogger.error('Twitter OAuth Service', 'Exception updating connection', { error, id, updatedFields })
       return null
     }
   }
@@ -225,7 +278,7 @@ export class TwitterOAuthConnectionService {
         return []
       }
 
-      return data || []
+      return (data || []).map(connection => this.decryptConnection(connection))
     } catch (error) {
       await systemLogger.error('Twitter OAuth Service', 'Exception getting active connections', { error })
       return []
@@ -256,6 +309,54 @@ export class TwitterOAuthConnectionService {
     }
   }
 
+  /**
+   * Re-encrypt every connection not yet on the active master key. Rows
+   * stored before encryption was enabled are encrypted for the first time.
+   * Uses the admin client because it must see every user's rows.
+   */
+  async rotateEncryptionKey(): Promise<{ rotated: number; failed: number; keyVersion: number }> {
+    const keyVersion = getActiveKeyVersion()
+    const admin = createAdminClient()
+    let rotated = 0
+    let failed = 0
+
+    const { data, error } = await admin
+      .from('user_twitter_connections')
+      .select()
+      .or(`encryption_key_version.is.null,encryption_key_version.neq.${keyVersion}`)
+
+    if (error) {
+      await systemLogger.error('Twitter OAuth Service', 'Failed to load connections for key rotation', { error })
+      throw error
+    }
+
+    for (const row of (data || []) as TwitterOAuthConnection[]) {
+      try {
+        const tokens = pickTokenFields(this.decryptConnection(row))
+        const { error: updateError } = await admin
+          .from('user_twitter_connections')
+          .update({ ...tokens, ...encryptTokens(tokens), updated_at: new Date().toISOString() })
+          .eq('id', row.id)
+
+        if (updateError) {
+          throw updateError
+        }
+        rotated++
+      } catch (rotationError) {
+        failed++
+        await systemLogger.error('Twitter OAuth Service', 'Failed to re-encrypt connection', { 
+          error: rotationError, 
+          id: row.id, 
+          fromVersion: row.encryption_key_version 
+        })
+      }
+    }
+
+    await systemLogger.info('Twitter OAuth Service', 'Token encryption key rotation finished', { keyVersion, rotated, failed })
+
+    return { rotated, failed, keyVersion }
+  }
+
   /**
    * Get connection statistics
    */
@@ -6,8 +6,11 @@ interface UseAgentResponsesReturn {
   loading: boolean;
   error: string | null;
   refresh: () => void;
-  approveResponse: (id: string) => Promise<void>;
+  approveResponse: (id: string, accountId?: string) => Promise<void>;
   rejectResponse: (id: string) => Promise<void>;
+  sendResponse: (id: string) => Promise<void>;
+  cancelSend: (id: string) => Promise<void>;
+  unpublishResponse: (id: string) => Promise<void>;
   generateResponse: (tweetId: string, intent: string) => Promise<void>;
 }
 
@@ -35,10 +38,12 @@ export function useAgentResponses(): UseAgentResponsesReturn {
     }
   };
 
-  const approveResponse = async (id: string) => {
+  const approveResponse = async (id: string, accountId?: string) => {
     try {
       const response = await fetch(`/api/ai/responses/${id}/approve`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ account_id: accountId || undefined }),
       });
 
       if (!response.ok) {
@@ -69,6 +74,32 @@ export function useAgentResponses(): UseAgentResponsesReturn {
     }
   };
 
+  // POST to a response action route and refresh, surfacing the API's error details
+  const postResponseAction = async (path: string, fallbackError: string) => {
+    try {
+      const response = await fetch(path, { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      await fetchResponses(); // Refresh the list
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      throw err;
+    }
+  };
+
+  const sendResponse = (id: string) =>
+    postResponseAction(`/api/ai/responses/${id}/send`, 'Failed to send response');
+
+  const cancelSend = (id: string) =>
+    postResponseAction(`/api/ai/responses/${id}/cancel-send`, 'Failed to undo send');
+
+  const unpublishResponse = (id: string) =>
+    postResponseAction(`/api/ai/responses/${id}/unpublish`, 'Failed to delete tweet');
+
   const generateResponse = async (tweetId: string, intent: string) => {
     try {
       const response = await fetch('/api/ai/generate-response', {
@@ -99,6 +130,9 @@ export function useAgentResponses(): UseAgentResponsesReturn {
     refresh: fetchResponses,
     approveResponse,
     rejectResponse,
+    sendResponse,
+    cancelSend,
+    unpublishResponse,
     generateResponse,
   };
 }
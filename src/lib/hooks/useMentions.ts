@@ -0,0 +1,104 @@
+import { useState, useEffect } from 'react';
+import { TwitterMention } from '@/types/database';
+
+interface UseMentionsReturn {
+  mentions: TwitterMention[];
+  unreadCount: number;
+  loading: boolean;
+  syncing: boolean;
+  error: string | null;
+  refresh: () => void;
+  syncMentions: (accountId?: string) => Promise<void>;
+  markRead: (mentionIds?: string[]) => Promise<void>;
+}
+
+export function useMentions(): UseMentionsReturn {
+  const [mentions, setMentions] = useState<TwitterMention[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMentions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/twitter/mentions');
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setMentions(data.mentions || []);
+      setUnreadCount(data.unreadCount || 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch mentions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const syncMentions = async (accountId?: string) => {
+    try {
+      setSyncing(true);
+      setError(null);
+      const response = await fetch('/api/twitter/mentions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.details || errorData.error || 'Failed to sync mentions');
+      }
+
+      await fetchMentions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync mentions');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const markRead = async (mentionIds?: string[]) => {
+    try {
+      const response = await fetch('/api/twitter/mentions/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mentionIds })
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const readAt = new Date().toISOString();
+      setMentions(prev => prev.map(mention =>
+        !mention.read_at && (!mentionIds || mentionIds.includes(mention.id))
+          ? { ...mention, read_at: readAt }
+          : mention
+      ));
+      setUnreadCount(data.unreadCount || 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark mentions read');
+    }
+  };
+
+  useEffect(() => {
+    fetchMentions();
+  }, []);
+
+  return {
+    mentions,
+    unreadCount,
+    loading,
+    syncing,
+    error,
+    refresh: fetchMentions,
+    syncMentions,
+    markRead,
+  };
+}
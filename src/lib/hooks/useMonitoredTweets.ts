@@ -109,7 +109,6 @@ export function useTwitterSearch(): UseTwitterSearchReturn {
       if (data.source === 'rate_limited') {
         console.log('⚠️ Twitter API rate limited:', data.message)
         setError(`Twitter API rate limited. ${data.message || 'Please try again later.'}`)
-        setTweets([]);
         return;
       }
       
@@ -128,8 +127,12 @@ export function useTwitterSearch(): UseTwitterSearchReturn {
         data.keywords || []
       );
       
-      console.log('✅ useTwitterSearch setting tweets state to:', tweetData)
-      setTweets(tweetData);
+      // Search only returns tweets newer than the last poll, so keep the ones already shown
+      console.log('✅ useTwitterSearch adding new tweets to state:', tweetData)
+      setTweets(prev => {
+        const seen = new Set(tweetData.map(tweet => tweet.id));
+        return [...tweetData, ...prev.filter(tweet => !seen.has(tweet.id))];
+      });
       setLastRefresh(new Date()); // Update last refresh timestamp
       setError(null); // Clear any previous errors
     } catch (err) {
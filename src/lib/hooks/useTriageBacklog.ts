@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MonitoredTweet, TriageStatus } from '@/types/database';
+
+interface UseTriageBacklogReturn {
+  tweets: MonitoredTweet[];
+  counts: Partial<Record<TriageStatus, number>>;
+  status: TriageStatus;
+  loading: boolean;
+  error: string | null;
+  setStatus: (status: TriageStatus) => void;
+  refresh: () => void;
+  updateStatus: (ids: string[], status: TriageStatus, snoozeMinutes?: number) => Promise<void>;
+}
+
+export function useTriageBacklog(initialStatus: TriageStatus = 'new'): UseTriageBacklogReturn {
+  const [tweets, setTweets] = useState<MonitoredTweet[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<TriageStatus, number>>>({});
+  const [status, setStatus] = useState<TriageStatus>(initialStatus);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTweets = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/twitter/monitored-tweets?status=${status}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setTweets(data.tweets || []);
+      setCounts(data.counts || {});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch monitored tweets');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  const updateStatus = async (ids: string[], newStatus: TriageStatus, snoozeMinutes?: number) => {
+    try {
+      const response = await fetch('/api/twitter/monitored-tweets', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids, status: newStatus, snoozeMinutes })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update triage status');
+      }
+
+      // The tweets leave the current view; refetch to keep the counts right
+      await fetchTweets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update triage status');
+    }
+  };
+
+  useEffect(() => {
+    fetchTweets();
+  }, [fetchTweets]);
+
+  return {
+    tweets,
+    counts,
+    status,
+    loading,
+    error,
+    setStatus,
+    refresh: fetchTweets,
+    updateStatus,
+  };
+}
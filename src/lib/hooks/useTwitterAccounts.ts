@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { TwitterConnectionStatus } from '@/types/database';
+
+export interface TwitterAccount {
+  id: string;
+  twitter_user_id: string;
+  twitter_username: string;
+  connection_status: TwitterConnectionStatus;
+  last_used?: string;
+}
+
+interface UseTwitterAccountsReturn {
+  accounts: TwitterAccount[];
+  connectedAccounts: TwitterAccount[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+export function useTwitterAccounts(): UseTwitterAccountsReturn {
+  const [accounts, setAccounts] = useState<TwitterAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAccounts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/twitter/accounts');
+      
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      
+      const data = await response.json();
+      setAccounts(data.accounts || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch Twitter accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  return {
+    accounts,
+    connectedAccounts: accounts.filter(account => account.connection_status === 'connected'),
+    loading,
+    error,
+    refresh: fetchAccounts,
+  };
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { UsageSummary } from '@/lib/usage/usage-ledger';
+
+export interface AccountUsageRow {
+  id: string;
+  twitter_username: string;
+  reads: number;
+  writes: number;
+}
+
+export type TwitterUsage = Omit<UsageSummary, 'accounts'> & { accounts: AccountUsageRow[] };
+
+interface UseTwitterUsageReturn {
+  usage: TwitterUsage | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+export function useTwitterUsage(): UseTwitterUsageReturn {
+  const [usage, setUsage] = useState<TwitterUsage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/twitter/usage');
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setUsage(data.usage || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch usage');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return {
+    usage,
+    loading,
+    error,
+    refresh: fetchUsage,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * File Rate Limit Store
+ *
+ * Keeps rate limits in a JSON file so several server processes on one
+ * machine, and restarts of the same one, share them. Kept apart from
+ * rate-limit-store.ts because it needs Node's fs; it is installed at server
+ * start when TWITTER_RATE_LIMIT_STORE=file.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { RateLimitStore } from './rate-limit-store'
+import type { RateLimitInfo } from './twitter-rate-limiter'
+
+type RateLimitFile = Record<string, RateLimitInfo>
+
+export class FileRateLimitStore implements RateLimitStore {
+  private filePath: string
+  private pending: Promise<unknown> = Promise.resolve() // writes from this process, one at a time
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  async get(key: string): Promise<RateLimitInfo | undefined> {
+    return (await this.read())[key]
+  }
+
+  async set(key: string, info: RateLimitInfo): Promise<void> {
+    await this.update(limits => {
+      limits[key] = info
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(limits => {
+      delete limits[key]
+    })
+  }
+
+  async list(prefix = ''): Promise<Record<string, RateLimitInfo>> {
+    return Object.fromEntries(Object.entries(await this.read()).filter(([key]) => key.startsWith(prefix)))
+  }
+
+  async clear(prefix = ''): Promise<void> {
+    await this.update(limits => {
+      Object.keys(limits)
+        .filter(key => key.startsWith(prefix))
+        .forEach(key => delete limits[key])
+    })
+  }
+
+  private async read(): Promise<RateLimitFile> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as RateLimitFile
+    } catch (error) {
+      // A missing or half-written file just means no limits are known yet
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+        return {}
+      }
+      throw error
+    }
+  }
+
+  private update(change: (limits: RateLimitFile) => void): Promise<void> {
+    const run = this.pending.then(async () => {
+      const limits = await this.read()
+      change(limits)
+
+      // Write then rename, so readers never see a partial file
+      const tempPath = `${this.filePath}.${process.pid}.tmp`
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      await fs.writeFile(tempPath, JSON.stringify(limits))
+      await fs.rename(tempPath, this.filePath)
+    })
+    this.pending = run.catch(() => undefined)
+    return run
+  }
+}
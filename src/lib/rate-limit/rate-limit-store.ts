@@ -0,0 +1,172 @@
+/**
+ * Rate Limit Store
+ *
+ * Where rate limit counts live, so every client using the same token sees
+ * the same remaining requests and reset time. The in-memory store is shared
+ * within one process and suits tests and single-server setups; the
+ * Supabase store is shared across serverless invocations. A file-backed
+ * store for local servers lives in file-rate-limit-store.ts. Writes are
+ * last-write-wins, which is fine because every response carries the
+ * authoritative counts again.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+import { TwitterRateLimitRecord } from '@/types/database'
+import type { RateLimitInfo } from './twitter-rate-limiter'
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitInfo | undefined>
+  set(key: string, info: RateLimitInfo): Promise<void>
+  delete(key: string): Promise<void>
+  /**
+   * Every stored limit, optionally only keys starting with prefix
+   */
+  list(prefix?: string): Promise<Record<string, RateLimitInfo>>
+  /**
+   * Remove every stored limit, optionally only keys starting with prefix
+   */
+  clear(prefix?: string): Promise<void>
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private limits = new Map<string, RateLimitInfo>()
+
+  async get(key: string): Promise<RateLimitInfo | undefined> {
+    return this.limits.get(key)
+  }
+
+  async set(key: string, info: RateLimitInfo): Promise<void> {
+    this.limits.set(key, info)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.limits.delete(key)
+  }
+
+  async list(prefix = ''): Promise<Record<string, RateLimitInfo>> {
+    return Object.fromEntries(Array.from(this.limits.entries()).filter(([key]) => key.startsWith(prefix)))
+  }
+
+  async clear(prefix = ''): Promise<void> {
+    Array.from(this.limits.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.limits.delete(key))
+  }
+}
+
+/**
+ * Limits kept in the twitter_rate_limits table. Uses the service role
+ * client, since limits are shared between users of the app token.
+ */
+export class SupabaseRateLimitStore implements RateLimitStore {
+  private supabase: ReturnType<typeof createAdminClient> | null = null
+
+  private getClient(): ReturnType<typeof createAdminClient> {
+    if (!this.supabase) {
+      this.supabase = createAdminClient()
+    }
+    return this.supabase
+  }
+
+  async get(key: string): Promise<RateLimitInfo | undefined> {
+    const { data, error } = await this.getClient()
+      .from('twitter_rate_limits')
+      .select('*')
+      .eq('key', key)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+    return data ? fromRecord(data as TwitterRateLimitRecord) : undefined
+  }
+
+  async set(key: string, info: RateLimitInfo): Promise<void> {
+    const { error } = await this.getClient()
+      .from('twitter_rate_limits')
+      .upsert(toRecord(key, info), { onConflict: 'key' })
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.getClient()
+      .from('twitter_rate_limits')
+      .delete()
+      .eq('key', key)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async list(prefix = ''): Promise<Record<string, RateLimitInfo>> {
+    const { data, error } = await this.getClient()
+      .from('twitter_rate_limits')
+      .select('*')
+      .like('key', `${prefix}%`)
+
+    if (error) {
+      throw error
+    }
+    return Object.fromEntries(((data || []) as TwitterRateLimitRecord[]).map(record => [record.key, fromRecord(record)]))
+  }
+
+  async clear(prefix = ''): Promise<void> {
+    const { error } = await this.getClient()
+      .from('twitter_rate_limits')
+      .delete()
+      .like('key', `${prefix}%`)
+
+    if (error) {
+      throw error
+    }
+  }
+}
+
+function toRecord(key: string, info: RateLimitInfo): TwitterRateLimitRecord {
+  return {
+    key,
+    endpoint: info.endpoint,
+    remaining: info.remaining,
+    reset_at: new Date(info.resetTime).toISOString(),
+    limit: info.limit ?? null,
+    retry_after_ms: info.retryAfter ?? null,
+    updated_at: new Date().toISOString()
+  }
+}
+
+function fromRecord(record: TwitterRateLimitRecord): RateLimitInfo {
+  return {
+    endpoint: record.endpoint,
+    remaining: record.remaining,
+    resetTime: new Date(record.reset_at).getTime(),
+    limit: record.limit ?? undefined,
+    retryAfter: record.retry_after_ms ?? undefined
+  }
+}
+
+let defaultStore: RateLimitStore | null = null
+
+/**
+ * The store limiters use unless given one. TWITTER_RATE_LIMIT_STORE=supabase
+ * shares limits across serverless invocations; otherwise they are kept in
+ * this process's memory.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore = process.env.TWITTER_RATE_LIMIT_STORE === 'supabase'
+      ? new SupabaseRateLimitStore()
+      : new MemoryRateLimitStore()
+  }
+  return defaultStore
+}
+
+/**
+ * Replace the default store, e.g. with a file-backed one at server start
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  defaultStore = store
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MemoryRateLimitStore, RateLimitStore } from './rate-limit-store'
+import { TwitterRateLimiter } from './twitter-rate-limiter'
+
+const NOW = new Date('2026-10-19T12:00:00Z').getTime()
+
+function limitHeaders(remaining: number, resetMs: number): Headers {
+  return new Headers({
+    'x-rate-limit-remaining': String(remaining),
+    'x-rate-limit-reset': String(Math.floor(resetMs / 1000)),
+    'x-rate-limit-limit': '180'
+  })
+}
+
+describe('TwitterRateLimiter', () => {
+  let store: MemoryRateLimitStore
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+    store = new MemoryRateLimitStore()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('is limited until the window resets', async () => {
+    const limiter = new TwitterRateLimiter({ scope: 'token-a', store })
+    await limiter.updateRateLimit('/tweets/search/recent', limitHeaders(0, NOW + 60_000))
+
+    expect(limiter.isRateLimited('/tweets/search/recent')).toBe(true)
+    expect(limiter.getRemainingRequests('/tweets/search/recent')).toBe(0)
+
+    vi.setSystemTime(NOW + 60_000)
+    expect(limiter.isRateLimited('/tweets/search/recent')).toBe(false)
+    expect(limiter.getRemainingRequests('/tweets/search/recent')).toBeUndefined()
+  })
+
+  it('shares limits between limiters for the same token only', async () => {
+    const writer = new TwitterRateLimiter({ scope: 'token-a', store })
+    const sameToken = new TwitterRateLimiter({ scope: 'token-a', store })
+    const otherToken = new TwitterRateLimiter({ scope: 'token-b', store })
+
+    await writer.updateRateLimit('/tweets', limitHeaders(0, NOW + 60_000))
+    await sameToken.sync('/tweets')
+    await otherToken.sync('/tweets')
+
+    expect(sameToken.isRateLimited('/tweets')).toBe(true)
+    expect(otherToken.isRateLimited('/tweets')).toBe(false)
+  })
+
+  it('drops a limit another client cleared from the store', async () => {
+    const writer = new TwitterRateLimiter({ scope: 'token-a', store })
+    const reader = new TwitterRateLimiter({ scope: 'token-a', store })
+
+    await writer.updateRateLimit('/tweets', limitHeaders(0, NOW + 60_000))
+    await reader.sync('/tweets')
+    await writer.clearRateLimit('/tweets')
+    await reader.sync('/tweets')
+
+    expect(reader.isRateLimited('/tweets')).toBe(false)
+  })
+
+  it('keeps the last known limits when the store fails', async () => {
+    const failing: RateLimitStore = {
+      get: vi.fn(async () => { throw new Error('store down') }),
+      set: vi.fn(async () => { throw new Error('store down') }),
+      delete: vi.fn(async () => undefined),
+      list: vi.fn(async () => { throw new Error('store down') }),
+      clear: vi.fn(async () => undefined)
+    }
+    const limiter = new TwitterRateLimiter({ scope: 'token-a', store: failing })
+
+    await limiter.updateRateLimit('/tweets', limitHeaders(0, NOW + 60_000))
+    await limiter.sync('/tweets')
+    await limiter.sync()
+
+    expect(limiter.isRateLimited('/tweets')).toBe(true)
+  })
+
+  it('holds off for the retry-after of a 429, capped at 15 minutes', async () => {
+    const limiter = new TwitterRateLimiter({ scope: 'token-a', store })
+
+    expect((await limiter.handleRateLimitError('/tweets', 30)).retryDelay).toBe(30_000)
+    expect((await limiter.handleRateLimitError('/tweets', 3600)).retryDelay).toBe(900_000)
+    expect(limiter.isRateLimited('/tweets')).toBe(true)
+  })
+})
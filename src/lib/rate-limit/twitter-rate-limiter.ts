@@ -1,3 +1,15 @@
+/**
+ * Twitter Rate Limiter
+ *
+ * Tracks each endpoint's remaining requests and reset time from response
+ * headers. Limits are kept in a RateLimitStore under the limiter's scope,
+ * so every limiter for the same token shares them; call sync() before
+ * checking an endpoint to pick up what other clients have recorded.
+ */
+
+import { systemLogger } from '@/lib/logging/system-logger'
+import { getRateLimitStore, RateLimitStore } from './rate-limit-store'
+
 export interface RateLimitInfo {
   endpoint: string
   remaining: number
@@ -6,11 +18,79 @@ export interface RateLimitInfo {
   limit?: number
 }
 
+/**
+ * Who a limiter's changes concern: the app user who owns the token, or
+ * everyone for the app's own token
+ */
+export interface RateLimitAudience {
+  owner?: string
+  shared: boolean
+}
+
+type RateLimitListener = (info: RateLimitInfo, audience: RateLimitAudience) => void
+
+// Shared across limiter instances so one subscriber sees every client's limits
+const rateLimitListeners = new Set<RateLimitListener>()
+
+/**
+ * Be told whenever an endpoint's remaining requests or reset time changes
+ */
+export function subscribeToRateLimitChanges(listener: RateLimitListener): () => void {
+  rateLimitListeners.add(listener)
+  return () => {
+    rateLimitListeners.delete(listener)
+  }
+}
+
+export interface TwitterRateLimiterOptions {
+  scope?: string // e.g. the token the limits belong to; unscoped limiters see every key
+  store?: RateLimitStore
+  owner?: string // app user whose token this is
+  shared?: boolean // the app's own token, drawn on by every user
+}
+
 export class TwitterRateLimiter {
-  private rateLimits: Map<string, RateLimitInfo> = new Map()
+  private rateLimits: Map<string, RateLimitInfo> = new Map() // last known limits, for the synchronous checks
+  private readonly scope: string
+  private readonly store: RateLimitStore
+  private readonly audience: RateLimitAudience
   private readonly DEFAULT_RETRY_DELAY = 60000 // 1 minute in milliseconds
   private readonly MAX_RETRY_DELAY = 900000 // 15 minutes in milliseconds
 
+  constructor(options: TwitterRateLimiterOptions = {}) {
+    this.scope = options.scope || ''
+    this.store = options.store || getRateLimitStore()
+    this.audience = { owner: options.owner, shared: options.shared ?? false }
+  }
+
+  /**
+   * Load the shared limits for an endpoint, or for every endpoint in this
+   * limiter's scope. If the store can't be reached the last known limits
+   * are kept.
+   */
+  async sync(endpoint?: string): Promise<void> {
+    try {
+      if (endpoint) {
+        const info = await this.store.get(this.getStoreKey(endpoint))
+        if (info) {
+          this.setLocalLimit(info)
+        } else {
+          this.rateLimits.delete(endpoint)
+        }
+        return
+      }
+
+      const limits = await this.store.list(this.getStorePrefix())
+      this.rateLimits.clear()
+      Object.values(limits).forEach(info => this.setLocalLimit(info))
+    } catch (error) {
+      await systemLogger.warn('Twitter Rate Limiter', 'Failed to load shared Twitter rate limits', {
+        endpoint,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
   /**
    * Check if we're rate limited for a specific endpoint
    */
@@ -53,7 +133,7 @@ export class TwitterRateLimiter {
   /**
    * Update rate limit information from response headers
    */
-  updateRateLimit(endpoint: string, headers: Headers): void {
+  async updateRateLimit(endpoint: string, headers: Headers): Promise<void> {
     const remaining = headers.get('x-rate-limit-remaining')
     const reset = headers.get('x-rate-limit-reset')
     const limit = headers.get('x-rate-limit-limit')
@@ -63,7 +143,7 @@ export class TwitterRateLimiter {
       const resetTime = parseInt(reset) * 1000 // Convert to milliseconds
       const remainingCount = parseInt(remaining)
       
-      this.rateLimits.set(endpoint, {
+      await this.setLimit({
         endpoint,
         remaining: remainingCount,
         resetTime,
@@ -78,14 +158,49 @@ export class TwitterRateLimiter {
     }
   }
 
+  /**
+   * Record an endpoint's limit locally and in the shared store
+   */
+  private async setLimit(info: RateLimitInfo): Promise<void> {
+    this.setLocalLimit(info)
+
+    try {
+      await this.store.set(this.getStoreKey(info.endpoint), info)
+    } catch (error) {
+      await systemLogger.warn('Twitter Rate Limiter', `Failed to share Twitter rate limit for ${info.endpoint}`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  /**
+   * Keep an endpoint's limit and notify listeners if it changed
+   */
+  private setLocalLimit(info: RateLimitInfo): void {
+    const previous = this.rateLimits.get(info.endpoint)
+    this.rateLimits.set(info.endpoint, info)
+
+    if (previous?.remaining !== info.remaining || previous?.resetTime !== info.resetTime) {
+      rateLimitListeners.forEach(listener => listener(info, this.audience))
+    }
+  }
+
+  private getStorePrefix(): string {
+    return this.scope ? `${this.scope}:` : ''
+  }
+
+  private getStoreKey(endpoint: string): string {
+    return `${this.getStorePrefix()}${endpoint}`
+  }
+
   /**
    * Handle rate limit error and return retry information
    */
-  handleRateLimitError(endpoint: string, retryAfter?: number): {
+  async handleRateLimitError(endpoint: string, retryAfter?: number): Promise<{
     isRateLimited: boolean
     retryDelay: number
     message: string
-  } {
+  }> {
     const now = Date.now()
     let retryDelay = this.DEFAULT_RETRY_DELAY
 
@@ -94,7 +209,7 @@ export class TwitterRateLimiter {
     }
 
     // Update rate limit info
-    this.rateLimits.set(endpoint, {
+    await this.setLimit({
       endpoint,
       remaining: 0,
       resetTime: now + retryDelay,
@@ -115,11 +230,23 @@ export class TwitterRateLimiter {
     return Object.fromEntries(this.rateLimits)
   }
 
+  /**
+   * Requests left in the current window, or undefined if not yet known
+   */
+  getRemainingRequests(endpoint: string): number | undefined {
+    const limit = this.rateLimits.get(endpoint)
+    if (!limit || Date.now() >= limit.resetTime) {
+      return undefined
+    }
+    return limit.remaining
+  }
+
   /**
    * Clear rate limit information for an endpoint
    */
-  clearRateLimit(endpoint: string): void {
+  async clearRateLimit(endpoint: string): Promise<void> {
     this.rateLimits.delete(endpoint)
+    await this.store.delete(this.getStoreKey(endpoint))
   }
 
   /**
@@ -154,9 +281,11 @@ export class TwitterRateLimiter {
   }
 
   /**
-   * Reset rate limits for testing purposes
+   * Forget every limit in this limiter's scope, including the shared ones.
+   * An unscoped limiter clears limits for every token.
    */
-  resetAllLimits(): void {
+  async resetAllLimits(): Promise<void> {
     this.rateLimits.clear()
+    await this.store.clear(this.getStorePrefix())
   }
 }
@@ -0,0 +1,111 @@
+/**
+ * Live Events
+ *
+ * In-process event bus behind the live monitoring SSE endpoint. Newly
+ * matched tweets, rate limit changes and agent decisions are published
+ * here with increasing ids, and the most recent events are kept so a
+ * reconnecting client can resume from its Last-Event-ID.
+ */
+
+import { subscribeToRateLimitChanges, RateLimitInfo } from '@/lib/rate-limit/twitter-rate-limiter'
+import { MonitoredTweet } from '@/types/database'
+
+const MAX_BUFFERED_EVENTS = 500
+
+export type LiveEventType = 'tweet' | 'rate_limit' | 'agent_decision'
+
+export interface AgentDecisionEvent {
+  tweetId: string
+  action: string
+  responseType?: string
+  priority: number
+  reasoning?: string
+  source?: string
+}
+
+export interface RateLimitEvent extends RateLimitInfo {
+  limited: boolean
+}
+
+export interface LiveEventData {
+  tweet: MonitoredTweet
+  rate_limit: RateLimitEvent
+  agent_decision: AgentDecisionEvent
+}
+
+export interface LiveEvent<T extends LiveEventType = LiveEventType> {
+  id: number
+  type: T
+  userId?: string // events without a user, like app token rate limits, go to everyone
+  data: LiveEventData[T]
+  timestamp: string
+}
+
+type LiveEventListener = (event: LiveEvent) => void
+
+export class LiveEventBus {
+  private events: LiveEvent[] = []
+  private listeners = new Set<LiveEventListener>()
+  private lastId = 0
+
+  publish<T extends LiveEventType>(type: T, data: LiveEventData[T], userId?: string): LiveEvent<T> {
+    const event: LiveEvent<T> = {
+      id: ++this.lastId,
+      type,
+      userId,
+      data,
+      timestamp: new Date().toISOString()
+    }
+
+    this.events.push(event)
+    if (this.events.length > MAX_BUFFERED_EVENTS) {
+      this.events.shift()
+    }
+
+    this.listeners.forEach(listener => listener(event))
+    return event
+  }
+
+  subscribe(listener: LiveEventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Buffered events a user missed after lastEventId. An id from before a
+   * server restart is ahead of this process's counter, so everything
+   * buffered is replayed.
+   */
+  getEventsSince(lastEventId: number, userId: string): LiveEvent[] {
+    const since = lastEventId > this.lastId ? 0 : lastEventId
+    return this.events.filter(event => event.id > since && isVisibleTo(event, userId))
+  }
+}
+
+export function isVisibleTo(event: LiveEvent, userId: string): boolean {
+  return !event.userId || event.userId === userId
+}
+
+/**
+ * Encode an event in Server-Sent Events format
+ */
+export function formatServerSentEvent(event: LiveEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, timestamp: event.timestamp })}\n\n`
+}
+
+// One bus per server process, shared by every SSE connection
+export const liveEvents = new LiveEventBus()
+
+// A user token's limits go to its owner; only the app token's go to everyone
+subscribeToRateLimitChanges((info, { owner, shared }) => {
+  if (!owner && !shared) {
+    return
+  }
+
+  liveEvents.publish('rate_limit', {
+    ...info,
+    limited: info.remaining <= 0 && Date.now() < info.resetTime
+  }, shared ? undefined : owner)
+})
@@ -1,4 +1,19 @@
 import { createClient } from '@/lib/supabase/client'
+import type { AgentDecisionEvent, LiveEventType, RateLimitEvent } from '@/lib/realtime/live-events'
+import type { MonitoredTweet } from '@/types/database'
+
+const LIVE_STREAM_ID = 'live_stream'
+const LIVE_EVENT_TYPES: LiveEventType[] = ['tweet', 'rate_limit', 'agent_decision']
+const MAX_CONNECT_FAILURES = 3
+
+type LiveEventTimestamp = { timestamp: string }
+
+export type LiveStreamEvent =
+  | { type: 'tweet'; data: MonitoredTweet & LiveEventTimestamp }
+  | { type: 'rate_limit'; data: RateLimitEvent & LiveEventTimestamp }
+  | { type: 'agent_decision'; data: AgentDecisionEvent & LiveEventTimestamp }
+  | { type: 'connected' }
+  | { type: 'unavailable' }
 
 type RealtimePayload = {
   eventType: 'INSERT' | 'UPDATE' | 'DELETE';
@@ -28,7 +43,7 @@ export class RealtimeService {
    */
   subscribeToTweets(
     callback: (payload: RealtimePayload) => void,
-    filters?: { status?: string; author_id?: string }
+    filters?: { status?: string; author_id?: string; user_id?: string }
   ): string {
     if (!this.supabase) {
       console.warn('Supabase client not available')
@@ -44,7 +59,10 @@ export class RealtimeService {
             event: '*',
             schema: 'public',
             table: 'monitored_tweets',
-            filter: filters?.status ? `status=eq.${filters.status}` : undefined
+            // Realtime accepts a single filter; the owning user takes precedence
+            filter: filters?.user_id
+              ? `user_id=eq.${filters.user_id}`
+              : filters?.status ? `status=eq.${filters.status}` : undefined
           },
           callback
         )
@@ -61,96 +79,71 @@ export class RealtimeService {
   }
 
   /**
-   * Start live monitoring stream
+   * Listen to the live monitoring event stream. The filtered stream that
+   * feeds it runs on the server and is started there, not per page. The
+   * callback gets 'unavailable' if the browser can't open or keep the
+   * connection, so callers can fall back to polling.
    */
-  startLiveStream(
-    callback: (data: unknown) => void,
-    filters?: { keywords?: string; intent?: string; sentiment?: string; priority?: string; status?: string }
-  ): string {
-    if (this.isStreaming) {
+  startLiveStream(callback: (event: LiveStreamEvent) => void): string {
+    if (this.eventSource) {
       console.warn('Live stream already active')
       return 'stream_active'
     }
 
-    const streamId = `live_stream_${Date.now()}`
-    
-    // Start the stream via API
-    fetch('/api/twitter/live-monitoring', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        action: 'start-stream',
-        filters
-      })
-    }).then(response => response.json())
-    .then(data => {
-      if (data.success) {
-        this.isStreaming = true
-        console.log('Live stream started:', data.streamId)
-      }
-    })
-    .catch(error => {
-      console.error('Failed to start live stream:', error)
-    })
+    if (typeof EventSource === 'undefined') {
+      callback({ type: 'unavailable' })
+      return 'unavailable'
+    }
 
-    // Also subscribe to Supabase real-time changes for immediate updates
-    if (this.supabase) {
-      try {
-        const channel = this.supabase
-          .channel(`live_monitoring_${streamId}`)
-          .on(
-            'postgres_changes',
-            {
-              event: '*',
-              schema: 'public',
-              table: 'monitored_tweets'
-            },
-            (payload) => {
-              callback({
-                type: 'realtime_update',
-                data: payload,
-                timestamp: new Date().toISOString()
-              })
-            }
-          )
-          .subscribe()
-
-        this.subscriptions.set(streamId, channel)
-      } catch (error) {
-        console.error('Failed to subscribe to live monitoring:', error)
+    // EventSource reconnects by itself and resends Last-Event-ID
+    const source = new EventSource('/api/twitter/live-monitoring')
+    let opened = false
+    let failedAttempts = 0
+
+    source.onopen = () => {
+      opened = true
+      failedAttempts = 0
+      callback({ type: 'connected' })
+    }
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED || (!opened && ++failedAttempts >= MAX_CONNECT_FAILURES)) {
+        source.close()
+        this.eventSource = null
+        this.isStreaming = false
+        callback({ type: 'unavailable' })
       }
     }
-    
+
+    LIVE_EVENT_TYPES.forEach(type => {
+      source.addEventListener(type, event => {
+        try {
+          callback({ type, data: JSON.parse((event as MessageEvent).data) } as LiveStreamEvent)
+        } catch (error) {
+          console.error('Failed to parse live event:', error)
+        }
+      })
+    })
+
+    this.eventSource = source
     this.isStreaming = true
 
-    return streamId
+    return LIVE_STREAM_ID
   }
 
   /**
-   * Stop live monitoring stream
+   * Stop listening to the live monitoring event stream. The filtered
+   * stream itself is shared by every user and keeps running.
    */
-  stopLiveStream(streamId: string): boolean {
-    const subscription = this.subscriptions.get(streamId)
-    if (subscription) {
-      // Unsubscribe from Supabase
-      if (typeof subscription === 'object' && subscription !== null && 'unsubscribe' in subscription) {
-        (subscription as { unsubscribe: () => void }).unsubscribe()
-      }
-      this.subscriptions.delete(streamId)
-      
-      // Stop the API stream
-      fetch('/api/twitter/live-monitoring', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'stop-stream' })
-      }).catch(error => {
-        console.error('Failed to stop live stream:', error)
-      })
-      
-      this.isStreaming = false
-      return true
+  stopLiveStream(): boolean {
+    if (!this.eventSource) {
+      return false
     }
-    return false
+
+    this.eventSource.close()
+    this.eventSource = null
+    this.isStreaming = false
+    return true
   }
 
   /**
@@ -0,0 +1,83 @@
+/**
+ * Clock
+ *
+ * Time source for background jobs. Jobs read the time and schedule their
+ * next run through a Clock so a FakeClock can drive them in tests without
+ * waiting in real time.
+ */
+
+export type ClockCallback = () => void | Promise<void>
+
+export interface Clock {
+  now(): number
+  /**
+   * Run the callback after delayMs, returning a function that cancels it
+   */
+  schedule(callback: ClockCallback, delayMs: number): () => void
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  schedule: (callback, delayMs) => {
+    const timeout = setTimeout(() => void callback(), delayMs)
+    return () => clearTimeout(timeout)
+  }
+}
+
+interface FakeTimer {
+  id: number
+  at: number
+  callback: ClockCallback
+}
+
+/**
+ * Clock that only moves when told to
+ */
+export class FakeClock implements Clock {
+  private time: number
+  private timers: FakeTimer[] = []
+  private nextId = 1
+
+  constructor(startTime: number = Date.now()) {
+    this.time = startTime
+  }
+
+  now(): number {
+    return this.time
+  }
+
+  schedule(callback: ClockCallback, delayMs: number): () => void {
+    const timer = { id: this.nextId++, at: this.time + Math.max(0, delayMs), callback }
+    this.timers.push(timer)
+    return () => {
+      this.timers = this.timers.filter(t => t.id !== timer.id)
+    }
+  }
+
+  /**
+   * Move time forward, running due callbacks in order and waiting for each
+   * one to finish, including callbacks they schedule within the window
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms
+
+    while (true) {
+      const due = this.timers
+        .filter(timer => timer.at <= target)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0]
+      if (!due) {
+        break
+      }
+
+      this.timers = this.timers.filter(timer => timer.id !== due.id)
+      this.time = due.at
+      await due.callback()
+    }
+
+    this.time = target
+  }
+
+  pendingTimers(): number {
+    return this.timers.length
+  }
+}
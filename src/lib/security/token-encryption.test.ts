@@ -0,0 +1,85 @@
+import { randomBytes } from 'crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  decryptTokens,
+  encryptTokens,
+  getActiveKeyVersion,
+  hasTokenFields,
+  pickTokenFields
+} from './token-encryption'
+
+const key1 = randomBytes(32).toString('base64')
+const key2 = randomBytes(32).toString('base64')
+
+describe('token encryption', () => {
+  beforeEach(() => {
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYS', `1:${key1},2:${key2}`)
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY_VERSION', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('encrypts present token fields under the highest key version and decrypts them back', () => {
+    const row = encryptTokens({ access_token: 'access', refresh_token: 'refresh' })
+
+    expect(row.encryption_key_version).toBe(2)
+    expect(row.access_token).not.toContain('access')
+    expect(row.oauth_token).toBeUndefined()
+    expect(decryptTokens(row)).toMatchObject({ access_token: 'access', refresh_token: 'refresh' })
+  })
+
+  it('uses a fresh data key and IV for every row', () => {
+    const first = encryptTokens({ access_token: 'same' })
+    const second = encryptTokens({ access_token: 'same' })
+
+    expect(first.encrypted_data_key).not.toBe(second.encrypted_data_key)
+    expect(first.access_token).not.toBe(second.access_token)
+  })
+
+  it('decrypts rows written under an older key after the active version changes', () => {
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY_VERSION', '1')
+    const row = encryptTokens({ oauth_token: 'token', oauth_token_secret: 'secret' })
+    expect(row.encryption_key_version).toBe(1)
+
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY_VERSION', '2')
+    expect(getActiveKeyVersion()).toBe(2)
+    expect(decryptTokens(row)).toMatchObject({ oauth_token: 'token', oauth_token_secret: 'secret' })
+  })
+
+  it('returns rows from before encryption unchanged', () => {
+    const row = { access_token: 'plain', encryption_key_version: null, encrypted_data_key: null }
+    expect(decryptTokens(row)).toBe(row)
+  })
+
+  it('rejects a tampered value', () => {
+    const row = encryptTokens({ access_token: 'access' })
+    const [iv, ciphertext, tag] = row.access_token!.split('.')
+    const flipped = Buffer.from(ciphertext, 'base64')
+    flipped[0] ^= 1
+
+    expect(() => decryptTokens({ ...row, access_token: [iv, flipped.toString('base64'), tag].join('.') })).toThrow()
+  })
+
+  it('fails clearly when keys are missing or malformed', () => {
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYS', '')
+    expect(() => encryptTokens({ access_token: 'access' })).toThrow('Missing TOKEN_ENCRYPTION_KEYS')
+
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYS', '1:tooshort')
+    expect(() => encryptTokens({ access_token: 'access' })).toThrow('Invalid TOKEN_ENCRYPTION_KEYS entry')
+
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYS', `1:${key1}`)
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY_VERSION', '3')
+    expect(() => getActiveKeyVersion()).toThrow('version 3 not found')
+  })
+
+  it('picks out only the token fields of a payload', () => {
+    const payload = { access_token: 'a', twitter_username: 'someone', refresh_token: undefined }
+
+    expect(pickTokenFields(payload)).toEqual({ access_token: 'a' })
+    expect(hasTokenFields(payload)).toBe(true)
+    const profileOnly: Record<string, string> = { twitter_username: 'someone' }
+    expect(hasTokenFields(profileOnly)).toBe(false)
+  })
+})
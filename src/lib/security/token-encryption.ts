@@ -0,0 +1,170 @@
+/**
+ * Envelope encryption for stored Twitter credentials
+ *
+ * Every connection row gets its own random data key (DEK). The token
+ * fields are encrypted with that DEK using AES-256-GCM, and the DEK itself
+ * is wrapped with a master key from the environment. The master key
+ * version is stored on the row so keys can be rotated.
+ *
+ * Configure with:
+ *   TOKEN_ENCRYPTION_KEYS="1:<base64 32-byte key>,2:<base64 32-byte key>"
+ *   TOKEN_ENCRYPTION_KEY_VERSION=2   (defaults to the highest version)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const KEY_LENGTH = 32
+
+export const ENCRYPTED_TOKEN_FIELDS = ['oauth_token', 'oauth_token_secret', 'access_token', 'refresh_token'] as const
+
+export type EncryptedTokenField = typeof ENCRYPTED_TOKEN_FIELDS[number]
+
+export type TokenFields = Partial<Record<EncryptedTokenField, string>>
+
+export interface TokenEnvelope {
+  encrypted_data_key: string
+  encryption_key_version: number
+}
+
+interface Keyring {
+  activeVersion: number
+  keys: Map<number, Buffer>
+}
+
+/**
+ * Parse master keys from the environment
+ */
+function loadKeyring(): Keyring {
+  const rawKeys = process.env.TOKEN_ENCRYPTION_KEYS
+
+  if (!rawKeys) {
+    throw new Error('Missing TOKEN_ENCRYPTION_KEYS environment variable')
+  }
+
+  const keys = new Map<number, Buffer>()
+  for (const entry of rawKeys.split(',')) {
+    const [version, encodedKey] = entry.trim().split(':')
+    const key = Buffer.from(encodedKey || '', 'base64')
+
+    if (!version || Number.isNaN(parseInt(version)) || key.length !== KEY_LENGTH) {
+      throw new Error('Invalid TOKEN_ENCRYPTION_KEYS entry: expected "<version>:<base64 32-byte key>"')
+    }
+    keys.set(parseInt(version), key)
+  }
+
+  const configuredVersion = process.env.TOKEN_ENCRYPTION_KEY_VERSION
+  const activeVersion = configuredVersion
+    ? parseInt(configuredVersion)
+    : Math.max(...Array.from(keys.keys()))
+
+  if (!keys.has(activeVersion)) {
+    throw new Error(`Active token encryption key version ${activeVersion} not found in TOKEN_ENCRYPTION_KEYS`)
+  }
+
+  return { activeVersion, keys }
+}
+
+function getMasterKey(keyring: Keyring, version: number): Buffer {
+  const key = keyring.keys.get(version)
+  if (!key) {
+    throw new Error(`Token encryption key version ${version} is not configured`)
+  }
+  return key
+}
+
+/**
+ * Encrypt a value as "<iv>.<ciphertext>.<auth tag>" in base64
+ */
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  const tag = cipher.getAuthTag()
+
+  return [iv, ciphertext, tag].map(part => part.toString('base64')).join('.')
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const [iv, ciphertext, tag] = sealed.split('.').map(part => Buffer.from(part, 'base64'))
+  if (!iv || !ciphertext || !tag) {
+    throw new Error('Malformed encrypted token value')
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+/**
+ * Current master key version new rows are encrypted with
+ */
+export function getActiveKeyVersion(): number {
+  return loadKeyring().activeVersion
+}
+
+/**
+ * Encrypt every token field present with a fresh data key
+ */
+export function encryptTokens(tokens: TokenFields): TokenFields & TokenEnvelope {
+  const keyring = loadKeyring()
+  const dataKey = randomBytes(KEY_LENGTH)
+  const encrypted: TokenFields = {}
+
+  for (const field of ENCRYPTED_TOKEN_FIELDS) {
+    const value = tokens[field]
+    if (value) {
+      encrypted[field] = seal(dataKey, Buffer.from(value, 'utf8'))
+    }
+  }
+
+  return {
+    ...encrypted,
+    encrypted_data_key: seal(getMasterKey(keyring, keyring.activeVersion), dataKey),
+    encryption_key_version: keyring.activeVersion
+  }
+}
+
+/**
+ * Decrypt the token fields of a stored row. Rows without a key version
+ * predate encryption and are returned unchanged.
+ */
+export function decryptTokens<T extends TokenFields & Partial<{ encrypted_data_key: string | null; encryption_key_version: number | null }>>(row: T): T {
+  if (!row.encryption_key_version || !row.encrypted_data_key) {
+    return row
+  }
+
+  const keyring = loadKeyring()
+  const dataKey = open(getMasterKey(keyring, row.encryption_key_version), row.encrypted_data_key)
+  const decrypted: T = { ...row }
+
+  for (const field of ENCRYPTED_TOKEN_FIELDS) {
+    const value = row[field]
+    if (value) {
+      decrypted[field] = open(dataKey, value).toString('utf8') as T[EncryptedTokenField]
+    }
+  }
+
+  return decrypted
+}
+
+/**
+ * Pick only the token fields out of a row or update payload
+ */
+export function pickTokenFields(source: TokenFields): TokenFields {
+  const tokens: TokenFields = {}
+  for (const field of ENCRYPTED_TOKEN_FIELDS) {
+    if (source[field] !== undefined) {
+      tokens[field] = source[field]
+    }
+  }
+  return tokens
+}
+
+/**
+ * Whether a payload touches any encrypted field
+ */
+export function hasTokenFields(source: TokenFields): boolean {
+  return ENCRYPTED_TOKEN_FIELDS.some(field => source[field] !== undefined)
+}
@@ -0,0 +1,151 @@
+/**
+ * Author Profiles
+ *
+ * Keeps the profiles of tweet authors (bio, location, verification and
+ * follower counts) so every tweet can carry its author, including search
+ * results served from cache. Profiles come from the users Twitter includes
+ * with tweets; missing and stale ones are looked up in batches through the
+ * /users multi-lookup. Profiles are kept per server process.
+ */
+
+import { systemLogger } from '@/lib/logging/system-logger'
+import type { TweetData, TwitterAPIService, TwitterUser } from './twitter-api'
+
+const DEFAULT_TTL_MS = 6 * 60 * 60 * 1000
+const DEFAULT_MAX_PROFILES = 5000
+
+export interface AuthorProfileStoreOptions {
+  ttlMs?: number // how long a profile is used before it's looked up again
+  maxProfiles?: number
+  now?: () => number
+}
+
+export class AuthorProfileStore {
+  // Least recently stored first, so the oldest profiles are evicted first
+  private profiles = new Map<string, { user: TwitterUser; fetchedAt: number }>()
+  // Ids Twitter didn't return (suspended or deleted accounts), not asked for again until the ttl passes
+  private missing = new Map<string, number>()
+  private ttlMs: number
+  private maxProfiles: number
+  private now: () => number
+
+  constructor(options: AuthorProfileStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+    this.maxProfiles = options.maxProfiles ?? DEFAULT_MAX_PROFILES
+    this.now = options.now || Date.now
+  }
+
+  /**
+   * Store users Twitter returned, over any profile already held for them
+   */
+  remember(users: TwitterUser[] = []): void {
+    const fetchedAt = this.now()
+
+    users.forEach(user => {
+      const existing = this.profiles.get(user.id)
+      this.profiles.delete(user.id)
+      this.profiles.set(user.id, { user: { ...existing?.user, ...user }, fetchedAt })
+      this.missing.delete(user.id)
+    })
+
+    for (const id of this.profiles.keys()) {
+      if (this.profiles.size <= this.maxProfiles) {
+        break
+      }
+      this.profiles.delete(id)
+    }
+  }
+
+  get(userId: string): TwitterUser | undefined {
+    return this.profiles.get(userId)?.user
+  }
+
+  /**
+   * Look up the profiles that are missing or stale. A failed lookup is
+   * logged and leaves the profiles as they were.
+   */
+  async refresh(twitterAPI: TwitterAPIService, userIds: string[]): Promise<void> {
+    const now = this.now()
+    const ids = Array.from(new Set(userIds)).filter(id => {
+      const profile = this.profiles.get(id)
+      const missingAt = this.missing.get(id)
+      return (!profile || now - profile.fetchedAt >= this.ttlMs) &&
+        (missingAt === undefined || now - missingAt >= this.ttlMs)
+    })
+
+    if (ids.length === 0) {
+      return
+    }
+
+    try {
+      const users = await twitterAPI.getUsersByIds(ids)
+      this.remember(users)
+
+      const returned = new Set(users.map(user => user.id))
+      ids.filter(id => !returned.has(id)).forEach(id => this.missing.set(id, now))
+    } catch (error) {
+      await systemLogger.warn('Author Profiles', 'Failed to refresh author profiles', {
+        count: ids.length,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  /**
+   * Attach the stored profile of each tweet's author
+   */
+  apply(tweets: TweetData[]): TweetData[] {
+    return tweets.map(tweet => {
+      const author = this.get(tweet.author_id)
+      return author ? { ...tweet, author, author_username: author.username } : tweet
+    })
+  }
+
+  /**
+   * Store the users that came with some tweets, look up the authors still
+   * missing or stale, and attach each tweet's author
+   */
+  async hydrate(twitterAPI: TwitterAPIService, tweets: TweetData[], users?: TwitterUser[]): Promise<TweetData[]> {
+    this.remember(users)
+    await this.refresh(twitterAPI, tweets.map(tweet => tweet.author_id).filter(Boolean))
+    return this.apply(tweets)
+  }
+
+  /**
+   * The distinct authors attached to some tweets, for a response's includes.users
+   */
+  getAuthors(tweets: TweetData[]): TwitterUser[] {
+    const authors = new Map<string, TwitterUser>()
+    tweets.forEach(tweet => {
+      if (tweet.author) {
+        authors.set(tweet.author.id, tweet.author)
+      }
+    })
+    return Array.from(authors.values())
+  }
+}
+
+/**
+ * One line describing a tweet's author for prompts: handle, name,
+ * verification, follower count, location and bio, as far as they're known
+ */
+export function describeAuthor(tweet: TweetData): string {
+  const author = tweet.author
+  const handle = tweet.author_username ? `@${tweet.author_username}` : 'unknown'
+  if (!author) {
+    return handle
+  }
+
+  const details = [
+    author.name,
+    author.verified || (author.verified_type && author.verified_type !== 'none') ? 'verified' : undefined,
+    author.public_metrics ? `${author.public_metrics.followers_count.toLocaleString('en-US')} followers` : undefined,
+    author.location || undefined
+  ].filter(Boolean)
+  const bio = author.description?.replace(/\s+/g, ' ').trim()
+
+  return `${handle} (${details.join(', ')})${bio ? ` - bio: "${bio}"` : ''}`
+}
+
+// Shared by every Twitter client in this process
+export const authorProfiles = new AuthorProfileStore()
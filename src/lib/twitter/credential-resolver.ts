@@ -0,0 +1,98 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { TwitterAPIService, TwitterCredentials } from '@/lib/twitter/twitter-api'
+import { TwitterOAuthConnectionService } from '@/lib/database/twitter-oauth-connections'
+import { TwitterOAuthConnection } from '@/types/database'
+import { systemLogger } from '@/lib/logging/system-logger'
+
+export interface ResolvedTwitterAccount {
+  connection: TwitterOAuthConnection
+  twitterAPI: TwitterAPIService
+}
+
+/**
+ * App-only credentials from the environment, used for reads that don't act as a user
+ */
+export function getAppCredentials(): TwitterCredentials {
+  return {
+    apiKey: process.env.TWITTER_API_KEY || '',
+    apiSecret: process.env.TWITTER_API_SECRET || '',
+    accessToken: '',
+    accessTokenSecret: '',
+    bearerToken: process.env.TWITTER_BEARER_TOKEN || ''
+  }
+}
+
+/**
+ * Build credentials for a stored connection. OAuth 2.0 connections carry
+ * refreshable bearer tokens; legacy OAuth 1.0a rows are signed with the
+ * app's consumer key and the row's token pair.
+ */
+export function buildCredentialsForConnection(connection: TwitterOAuthConnection): TwitterCredentials {
+  const credentials: TwitterCredentials = {
+    ...getAppCredentials(),
+    accessToken: connection.oauth_token || '',
+    accessTokenSecret: connection.oauth_token_secret || '',
+    accountId: connection.id,
+    userId: connection.user_id
+  }
+
+  if (connection.access_token) {
+    credentials.oauth2 = {
+      accessToken: connection.access_token,
+      refreshToken: connection.refresh_token,
+      expiresAt: connection.token_expires_at ? new Date(connection.token_expires_at).getTime() : undefined,
+      connectionId: connection.id,
+      scopes: Array.isArray(connection.permissions?.scopes) ? connection.permissions.scopes as string[] : undefined
+    }
+  }
+
+  return credentials
+}
+
+/**
+ * Create a Twitter client that only uses the app's Bearer token
+ */
+export function createAppTwitterAPI(): TwitterAPIService {
+  return new TwitterAPIService(getAppCredentials())
+}
+
+export class TwitterCredentialResolver {
+  private connectionService: TwitterOAuthConnectionService
+
+  // Connections are read with the caller's client: a route's session or a worker's admin client
+  constructor(supabase?: SupabaseClient) {
+    this.connectionService = new TwitterOAuthConnectionService(supabase)
+  }
+
+  /**
+   * Resolve a Twitter client that acts as one of the user's connected accounts.
+   * Without an account id the most recently used connected account is picked.
+   */
+  async resolveForUser(userId: string, accountId?: string): Promise<ResolvedTwitterAccount> {
+    const connection = accountId
+      ? await this.connectionService.getConnectionById(accountId)
+      : (await this.connectionService.getConnectionsByUserId(userId))
+          .filter(c => c.connection_status === 'connected')
+          .sort((a, b) => (b.last_used || '').localeCompare(a.last_used || ''))[0]
+
+    if (!connection || connection.user_id !== userId) {
+      throw new Error(accountId ? 'Twitter account not found' : 'No connected Twitter account')
+    }
+
+    if (connection.connection_status !== 'connected') {
+      throw new Error(`Twitter account @${connection.twitter_username} is ${connection.connection_status}, please reconnect it`)
+    }
+
+    await this.connectionService.updateLastUsed(connection.id)
+    await systemLogger.debug('Twitter Credentials', 'Resolved Twitter account', {
+      userId,
+      connectionId: connection.id,
+      twitterUsername: connection.twitter_username
+    })
+
+    return {
+      connection,
+      twitterAPI: new TwitterAPIService(buildCredentialsForConnection(connection))
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Local stand-in for Twitter's filtered stream
+ *
+ * Implements the stream rules endpoints and a streaming connection that
+ * sends keep-alives and pushed tweets, closely enough to exercise
+ * FilteredStreamManager without the live API. Rules match when their
+ * quoted keyword appears in a pushed tweet's text. Point the client at it
+ * with TWITTER_API_BASE_URL=<stub url>.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { StreamRule, TweetData, TwitterUser } from './twitter-api'
+
+export interface FilteredStreamStubOptions {
+  port?: number
+  keepAliveMs?: number
+}
+
+export interface FilteredStreamStub {
+  url: string
+  rules: Map<string, StreamRule>
+  connections: () => number
+  connectAttempts: () => number
+  push: (tweet: TweetData, author?: TwitterUser) => number // returns the number of connections it was sent to
+  disconnect: () => void // drop open connections, as Twitter does on operational disconnects
+  failNextConnections: (count: number, status?: number) => void
+  close: () => Promise<void>
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    request.on('data', chunk => chunks.push(chunk))
+    request.on('end', () => resolve(Buffer.concat(chunks)))
+    request.on('error', reject)
+  })
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+/**
+ * Start the stub on a local port (random by default)
+ */
+export async function startFilteredStreamStub(options: FilteredStreamStubOptions = {}): Promise<FilteredStreamStub> {
+  const rules = new Map<string, StreamRule>()
+  const openStreams = new Set<ServerResponse>()
+  const keepAliveMs = options.keepAliveMs ?? 20000
+  let nextRuleId = 1
+  let attempts = 0
+  let failures = { count: 0, status: 503 }
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost')
+    const body = await readBody(request)
+
+    if (!request.headers.authorization) {
+      return sendJson(response, 401, { detail: 'Unauthorized' })
+    }
+
+    if (url.pathname.endsWith('/tweets/search/stream/rules')) {
+      if (request.method === 'GET') {
+        return sendJson(response, 200, { data: Array.from(rules.values()), meta: { result_count: rules.size } })
+      }
+
+      const payload = JSON.parse(body.toString() || '{}')
+      if (payload.delete) {
+        const ids: string[] = payload.delete.ids || []
+        const deleted = ids.filter(id => rules.delete(id)).length
+        return sendJson(response, 200, { meta: { summary: { deleted, not_deleted: ids.length - deleted } } })
+      }
+
+      const added: StreamRule[] = (payload.add || []).map((rule: { value: string; tag?: string }) => {
+        const created = { id: String(nextRuleId++), value: rule.value, tag: rule.tag }
+        rules.set(created.id, created)
+        return created
+      })
+      return sendJson(response, 201, { data: added, meta: { summary: { created: added.length } } })
+    }
+
+    if (!url.pathname.endsWith('/tweets/search/stream')) {
+      return sendJson(response, 404, { detail: 'Not found' })
+    }
+
+    attempts++
+    if (failures.count > 0) {
+      failures.count--
+      return sendJson(response, failures.status, { detail: 'Stub connection failure' })
+    }
+
+    response.writeHead(200, { 'Content-Type': 'application/json', 'Transfer-Encoding': 'chunked' })
+    response.write('\r\n')
+    openStreams.add(response)
+
+    const keepAlive = setInterval(() => response.write('\r\n'), keepAliveMs)
+    const cleanup = () => {
+      clearInterval(keepAlive)
+      openStreams.delete(response)
+    }
+    request.on('close', cleanup)
+    response.on('close', cleanup)
+  })
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}/2`,
+    rules,
+    connections: () => openStreams.size,
+    connectAttempts: () => attempts,
+    push: (tweet, author) => {
+      const text = tweet.text.toLowerCase()
+      const matching = Array.from(rules.values())
+        .filter(rule => {
+          const keyword = rule.value.match(/"([^"]+)"/)?.[1]
+          return keyword !== undefined && text.includes(keyword.toLowerCase())
+        })
+        .map(rule => ({ id: rule.id, tag: rule.tag }))
+
+      if (matching.length === 0) {
+        return 0
+      }
+
+      const message = JSON.stringify({
+        data: tweet,
+        includes: author ? { users: [author] } : undefined,
+        matching_rules: matching
+      })
+      openStreams.forEach(stream => stream.write(`${message}\r\n`))
+      return openStreams.size
+    },
+    disconnect: () => {
+      openStreams.forEach(stream => stream.end())
+      openStreams.clear()
+    },
+    failNextConnections: (count, status = 503) => {
+      failures = { count, status }
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      openStreams.forEach(stream => stream.end())
+      server.close(error => (error ? reject(error) : resolve()))
+    })
+  }
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FakeClock } from '@/lib/scheduling/clock'
+import { IntentFilter } from '@/lib/database/intent-filters'
+import { CreateMonitoredTweet } from '@/types/database'
+import { FilteredStreamStub, startFilteredStreamStub } from './filtered-stream-stub'
+import { FilteredStreamManager } from './filtered-stream'
+
+// Filters and matches live in Supabase; the stream itself runs against the stub
+const database = vi.hoisted(() => ({
+  filters: [] as IntentFilter[],
+  saved: [] as CreateMonitoredTweet[]
+}))
+
+vi.mock('@/lib/supabase/admin', () => ({ createAdminClient: () => ({}) }))
+vi.mock('@/lib/database/intent-filters', () => ({
+  IntentFiltersService: class {
+    async getAllFilters() {
+      return database.filters
+    }
+  }
+}))
+vi.mock('@/lib/database/monitored-tweets', () => ({
+  MonitoredTweetsService: class {
+    async saveMatches(rows: CreateMonitoredTweet[]) {
+      database.saved.push(...rows)
+      return rows.map(row => ({ ...row, id: `${row.user_id}:${row.tweet_id}` }))
+    }
+  }
+}))
+vi.mock('@/lib/ai/monitored-tweet-analysis', () => ({ analyzeMonitoredTweets: vi.fn(async () => 0) }))
+
+function filter(id: string, userId: string, keyword: string): IntentFilter {
+  return { id, user_id: userId, keyword, created_at: '2026-10-19T00:00:00Z' }
+}
+
+function tweet(id: string, text: string) {
+  return { id, text, author_id: 'author-1', author_username: 'author', created_at: '2026-10-19T12:00:00Z' }
+}
+
+describe('FilteredStreamManager', () => {
+  let stub: FilteredStreamStub
+  let clock: FakeClock
+  let stream: FilteredStreamManager
+
+  beforeEach(async () => {
+    stub = await startFilteredStreamStub()
+    vi.stubEnv('TWITTER_API_BASE_URL', stub.url)
+    vi.stubEnv('TWITTER_BEARER_TOKEN', 'app-token')
+    database.filters = [filter('f1', 'user-1', 'hiring'), filter('f2', 'user-2', 'launch')]
+    database.saved = []
+    clock = new FakeClock()
+    stream = new FilteredStreamManager({ clock })
+  })
+
+  afterEach(async () => {
+    stream.stop()
+    vi.unstubAllEnvs()
+    await stub.close()
+  })
+
+  it('adds rules for new filters and deletes rules for removed ones, leaving others alone', async () => {
+    stub.rules.set('99', { id: '99', value: 'not ours', tag: 'someone-else' })
+
+    expect(await stream.syncRules()).toMatchObject({ added: 2, deleted: 0, unchanged: 0 })
+
+    database.filters = [database.filters[0], filter('f3', 'user-2', 'funding')]
+    expect(await stream.syncRules()).toMatchObject({ added: 1, deleted: 1, unchanged: 1 })
+
+    expect(Array.from(stub.rules.values()).map(rule => rule.tag).sort()).toEqual([
+      'intent:user-1:f1',
+      'intent:user-2:f3',
+      'someone-else'
+    ])
+  })
+
+  it('stores a pushed match for the filter owner', async () => {
+    await stream.start()
+    await vi.waitFor(() => expect(stub.connections()).toBe(1))
+
+    stub.push(tweet('t1', 'We are hiring engineers'))
+    await vi.waitFor(() => expect(database.saved).toHaveLength(1))
+
+    expect(database.saved[0]).toMatchObject({
+      user_id: 'user-1',
+      tweet_id: 't1',
+      matched_filter_ids: ['f1'],
+      source: 'stream'
+    })
+    expect(stream.getStatus()).toMatchObject({ state: 'connected', tweetsReceived: 1 })
+  })
+
+  it('reconnects after the server drops the stream', async () => {
+    await stream.start()
+    await vi.waitFor(() => expect(stub.connections()).toBe(1))
+
+    stub.disconnect()
+    await vi.waitFor(() => expect(stream.getStatus().state).toBe('backoff'))
+    await clock.advance(250)
+    await vi.waitFor(() => expect(stub.connections()).toBe(1))
+
+    expect(stub.connectAttempts()).toBe(2)
+    expect(stream.getStatus()).toMatchObject({ state: 'connected', reconnectAttempts: 1 })
+  })
+
+  it('backs off exponentially while connections are refused', async () => {
+    stub.failNextConnections(2, 503)
+    await stream.start()
+
+    await vi.waitFor(() => expect(clock.pendingTimers()).toBe(1))
+    await clock.advance(4999)
+    expect(stub.connectAttempts()).toBe(1)
+    await clock.advance(1)
+
+    await vi.waitFor(() => expect(stub.connectAttempts()).toBe(2))
+    await vi.waitFor(() => expect(clock.pendingTimers()).toBe(1))
+    await clock.advance(10_000)
+
+    await vi.waitFor(() => expect(stub.connections()).toBe(1))
+    expect(stream.getStatus()).toMatchObject({ state: 'connected', reconnectAttempts: 2 })
+  })
+})
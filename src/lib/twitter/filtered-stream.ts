@@ -0,0 +1,405 @@
+/**
+ * Filtered Stream
+ *
+ * Real-time monitoring through Twitter's filtered stream. Every user's
+ * intent filters are synced into app-wide stream rules tagged with the
+ * owning user and filter, and a single long-lived connection delivers
+ * matches. They are stored in monitored_tweets for triage and pushed to
+ * the dashboard through the live monitoring event stream. Dropped
+ * connections are retried with the backoff Twitter asks for. This needs a
+ * long-running server process; serverless functions end the connection
+ * when they return. Set TWITTER_FILTERED_STREAM=local to start it with the
+ * server, or start it from the admin controls.
+ */
+
+import { systemLogger } from '@/lib/logging/system-logger'
+import { Clock, systemClock } from '@/lib/scheduling/clock'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { IntentFiltersService, IntentFilter } from '@/lib/database/intent-filters'
+import { MonitoredTweetsService } from '@/lib/database/monitored-tweets'
+import { analyzeMonitoredTweets } from '@/lib/ai/monitored-tweet-analysis'
+import { createAppTwitterAPI } from './credential-resolver'
+import { FilteredStreamMessage, StreamRule, TweetData } from './twitter-api'
+import { authorProfiles } from './author-profiles'
+import { liveEvents } from '@/lib/realtime/live-events'
+import { usageLedger } from '@/lib/usage/usage-ledger'
+import { CreateMonitoredTweet, MonitoredTweet } from '@/types/database'
+
+const RULE_TAG_PREFIX = 'intent:'
+const STALL_TIMEOUT_MS = 30000 // Twitter sends a keep-alive line every 20 seconds
+
+export type FilteredStreamState = 'stopped' | 'connecting' | 'connected' | 'backoff'
+export type StreamErrorKind = 'network' | 'http' | 'rate_limit'
+
+export interface FilteredStreamStatus {
+  state: FilteredStreamState
+  rules: number
+  tweetsReceived: number
+  reconnectAttempts: number
+  connectedAt?: string
+  lastMessageAt?: string
+  nextRetryAt?: string
+  lastError?: string
+}
+
+export interface StreamRuleSyncResult {
+  added: number
+  deleted: number
+  unchanged: number
+  errors: string[]
+}
+
+export interface FilteredStreamOptions {
+  clock?: Clock // times reconnect backoff
+}
+
+interface RuleOwner {
+  userId: string
+  filterId: string
+  keyword: string
+}
+
+/**
+ * Wait before reconnecting, following Twitter's guidance: linear from
+ * 250ms for network errors, exponential from 5s for HTTP errors and from
+ * one minute after a 429
+ */
+export function getReconnectDelay(kind: StreamErrorKind, attempt: number): number {
+  switch (kind) {
+    case 'network':
+      return Math.min(250 * (attempt + 1), 16000)
+    case 'http':
+      return Math.min(5000 * 2 ** attempt, 320000)
+    case 'rate_limit':
+      return Math.min(60000 * 2 ** attempt, 900000)
+  }
+}
+
+/**
+ * One stream rule per intent filter, tagged so matches can be routed back
+ * to the filter's owner
+ */
+export function buildStreamRules(filters: IntentFilter[]): Array<{ value: string; tag: string }> {
+  return filters.map(filter => ({
+    value: `"${filter.keyword.replace(/"/g, '')}" -is:retweet lang:en`,
+    tag: `${RULE_TAG_PREFIX}${filter.user_id}:${filter.id}`
+  }))
+}
+
+function classifyError(error: unknown): StreamErrorKind {
+  const message = error instanceof Error ? error.message : ''
+  if (message.startsWith('Rate limited')) {
+    return 'rate_limit'
+  }
+  return message.startsWith('Twitter API') ? 'http' : 'network'
+}
+
+export class FilteredStreamManager {
+  private twitterAPI = createAppTwitterAPI()
+  private clock: Clock
+  private supabase: ReturnType<typeof createAdminClient> | null = null
+  private ruleOwners = new Map<string, RuleOwner>()
+  private connection: AbortController | null = null
+  private retryTimer: { cancel: () => void; resolve: () => void } | null = null
+  private running = false
+  private generation = 0 // bumped on each start so a stopped run loop can't revive
+  private status: FilteredStreamStatus = {
+    state: 'stopped',
+    rules: 0,
+    tweetsReceived: 0,
+    reconnectAttempts: 0
+  }
+
+  constructor(options: FilteredStreamOptions = {}) {
+    this.clock = options.clock || systemClock
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  getStatus(): FilteredStreamStatus {
+    return { ...this.status }
+  }
+
+  /**
+   * Bring stream rules in line with intent_filters: add missing rules,
+   * delete rules for removed filters, and leave rules we don't own alone
+   */
+  async syncRules(): Promise<StreamRuleSyncResult> {
+    const filters = await new IntentFiltersService(this.getClient()).getAllFilters()
+    const desired = buildStreamRules(filters)
+    const current = (await this.twitterAPI.getStreamRules())
+      .filter(rule => rule.tag?.startsWith(RULE_TAG_PREFIX))
+
+    const ruleKey = (rule: { value: string; tag?: string }) => `${rule.tag}|${rule.value}`
+    const currentKeys = new Set(current.map(ruleKey))
+    const desiredKeys = new Set(desired.map(ruleKey))
+
+    const toAdd = desired.filter(rule => !currentKeys.has(ruleKey(rule)))
+    const toDelete = current.filter((rule: StreamRule) => !desiredKeys.has(ruleKey(rule)))
+
+    const result = await this.twitterAPI.updateStreamRules({
+      add: toAdd,
+      delete: toDelete.map(rule => rule.id)
+    })
+
+    this.ruleOwners = new Map(filters.map(filter => [
+      `${RULE_TAG_PREFIX}${filter.user_id}:${filter.id}`,
+      { userId: filter.user_id, filterId: filter.id, keyword: filter.keyword }
+    ]))
+    this.status.rules = desired.length - result.errors.length
+
+    const summary: StreamRuleSyncResult = {
+      added: result.added.length,
+      deleted: result.deleted,
+      unchanged: desired.length - toAdd.length,
+      errors: result.errors.map(error => `${error.title}${error.value ? ` (${error.value})` : ''}`)
+    }
+
+    await systemLogger.info('Filtered Stream', 'Stream rules synced', { ...summary })
+    return summary
+  }
+
+  /**
+   * Resync rules after intent filters change, if the stream is running.
+   * A failure is only logged; the next sync catches up.
+   */
+  async refreshRules(): Promise<void> {
+    if (!this.running) {
+      return
+    }
+
+    try {
+      await this.syncRules()
+    } catch (error) {
+      await systemLogger.warn('Filtered Stream', 'Failed to resync stream rules', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  /**
+   * Sync rules and open the stream, unless it is already running
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return
+    }
+
+    await this.syncRules()
+    this.running = true
+    this.status.reconnectAttempts = 0
+    void this.run(++this.generation)
+  }
+
+  /**
+   * Close the stream and cancel any pending reconnect
+   */
+  stop(): void {
+    this.running = false
+    this.connection?.abort()
+    if (this.retryTimer) {
+      this.retryTimer.cancel()
+      this.retryTimer.resolve()
+    }
+    this.status.state = 'stopped'
+    this.status.nextRetryAt = undefined
+  }
+
+  /**
+   * Keep a connection open until stopped, backing off between attempts
+   */
+  private async run(generation: number): Promise<void> {
+    let lastErrorKind: StreamErrorKind | null = null
+    let attempt = 0
+    const isCurrent = () => this.running && generation === this.generation
+
+    while (isCurrent()) {
+      try {
+        this.status.state = 'connecting'
+        this.connection = new AbortController()
+        const response = await this.twitterAPI.connectFilteredStream(this.connection.signal)
+
+        this.status.state = 'connected'
+        this.status.connectedAt = new Date().toISOString()
+        this.status.nextRetryAt = undefined
+        lastErrorKind = null
+        attempt = 0
+
+        await systemLogger.info('Filtered Stream', 'Connected to filtered stream', { rules: this.status.rules })
+        await this.readStream(response, this.connection)
+
+        // The server closed the stream; reconnect like any other network drop
+        throw new Error('Stream closed by server')
+      } catch (error) {
+        if (!isCurrent()) {
+          break
+        }
+
+        const kind = classifyError(error)
+        attempt = kind === lastErrorKind ? attempt + 1 : 0
+        lastErrorKind = kind
+
+        const delay = getReconnectDelay(kind, attempt)
+        this.status.state = 'backoff'
+        this.status.reconnectAttempts++
+        this.status.lastError = error instanceof Error ? error.message : 'Unknown error'
+        this.status.nextRetryAt = new Date(this.clock.now() + delay).toISOString()
+
+        await systemLogger.warn('Filtered Stream', 'Stream disconnected, reconnecting', {
+          kind,
+          attempt,
+          delay,
+          error: this.status.lastError
+        })
+
+        await this.wait(delay)
+      }
+    }
+
+    if (generation === this.generation) {
+      this.connection = null
+      this.status.state = 'stopped'
+    }
+  }
+
+  /**
+   * Wait for a reconnect, returning early if the stream is stopped
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.retryTimer = {
+        cancel: this.clock.schedule(() => {
+          this.retryTimer = null
+          resolve()
+        }, ms),
+        resolve
+      }
+    })
+  }
+
+  /**
+   * Read newline-delimited messages until the stream ends. A stream that
+   * goes quiet past the keep-alive interval is treated as stalled.
+   */
+  private async readStream(response: Response, connection: AbortController): Promise<void> {
+    if (!response.body) {
+      throw new Error('Filtered stream response has no body')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let stallTimer = setTimeout(() => connection.abort(), STALL_TIMEOUT_MS)
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) {
+          return
+        }
+
+        clearTimeout(stallTimer)
+        stallTimer = setTimeout(() => connection.abort(), STALL_TIMEOUT_MS)
+        this.status.lastMessageAt = new Date().toISOString()
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\r\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          if (line.trim()) {
+            await this.handleMessage(line)
+          }
+        }
+      }
+    } finally {
+      clearTimeout(stallTimer)
+    }
+  }
+
+  private async handleMessage(line: string): Promise<void> {
+    let message: FilteredStreamMessage
+    try {
+      message = JSON.parse(line)
+    } catch {
+      await systemLogger.warn('Filtered Stream', 'Skipped unparseable stream message', { line: line.slice(0, 200) })
+      return
+    }
+
+    // Operational disconnects arrive as an errors payload before the stream closes
+    if (message.errors && !message.data) {
+      await systemLogger.warn('Filtered Stream', 'Stream reported errors', { errors: message.errors })
+      return
+    }
+
+    if (message.data) {
+      // Each delivered tweet counts against the monthly read cap like a searched one
+      this.status.tweetsReceived++
+      await usageLedger.record('read', 'filtered_stream', 1)
+      await this.storeMatch(message)
+    }
+  }
+
+  /**
+   * Save a matched tweet once for each user whose filters it matched
+   */
+  private async storeMatch(message: FilteredStreamMessage): Promise<void> {
+    authorProfiles.remember(message.includes?.users)
+    const [tweet] = authorProfiles.apply([message.data as TweetData])
+    const author = tweet.author
+    const metrics = tweet.public_metrics
+    const engagementScore = metrics
+      ? metrics.like_count + metrics.retweet_count + metrics.reply_count + metrics.quote_count
+      : 0
+
+    const ownersByUser = new Map<string, RuleOwner[]>()
+    for (const rule of message.matching_rules || []) {
+      const owner = rule.tag ? this.ruleOwners.get(rule.tag) : undefined
+      if (owner) {
+        ownersByUser.set(owner.userId, [...(ownersByUser.get(owner.userId) || []), owner])
+      }
+    }
+
+    if (ownersByUser.size === 0) {
+      return
+    }
+
+    const rows: CreateMonitoredTweet[] = Array.from(ownersByUser.entries()).map(([userId, owners]) => ({
+      user_id: userId,
+      tweet_id: tweet.id,
+      author_id: tweet.author_id,
+      author_username: author?.username,
+      text: tweet.text,
+      matched_keywords: owners.map(owner => owner.keyword),
+      matched_filter_ids: owners.map(owner => owner.filterId),
+      source: 'stream',
+      engagement_score: engagementScore,
+      tweet_created_at: tweet.created_at
+    }))
+
+    let stored: MonitoredTweet[]
+    try {
+      stored = await new MonitoredTweetsService(this.getClient()).saveMatches(rows)
+    } catch {
+      return // already logged; the stream carries on
+    }
+
+    stored.forEach(row => liveEvents.publish('tweet', row, row.user_id))
+
+    // Analysis is slow, so don't hold up reading the stream for it
+    void analyzeMonitoredTweets(stored, new Map([[tweet.id, tweet]]))
+  }
+
+  private getClient(): ReturnType<typeof createAdminClient> {
+    // Stream rules and matches cover every user's filters, with no session to pass RLS
+    if (!this.supabase) {
+      this.supabase = createAdminClient()
+    }
+    return this.supabase
+  }
+}
+
+// One stream connection per server process
+export const filteredStream = new FilteredStreamManager()
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { IdempotentWrites } from './idempotent-writes'
+
+describe('IdempotentWrites', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('runs a key once and replays its result', async () => {
+    const writes = new IdempotentWrites()
+    const write = vi.fn(async () => 'tweet-1')
+
+    expect(await writes.run('key', write)).toEqual({ result: 'tweet-1', replayed: false })
+    expect(await writes.run('key', write)).toEqual({ result: 'tweet-1', replayed: true })
+    expect(write).toHaveBeenCalledTimes(1)
+  })
+
+  it('makes a repeat wait for the write in flight', async () => {
+    const writes = new IdempotentWrites()
+    let finish!: (id: string) => void
+    const write = vi.fn(() => new Promise<string>(resolve => { finish = resolve }))
+
+    const first = writes.run('key', write)
+    const second = writes.run('key', write)
+    finish('tweet-1')
+
+    expect(await first).toEqual({ result: 'tweet-1', replayed: false })
+    expect(await second).toEqual({ result: 'tweet-1', replayed: true })
+    expect(write).toHaveBeenCalledTimes(1)
+  })
+
+  it('forgets failed writes so they can be tried again', async () => {
+    const writes = new IdempotentWrites()
+
+    await expect(writes.run('key', async () => { throw new Error('503') })).rejects.toThrow('503')
+    expect(await writes.run('key', async () => 'tweet-1')).toEqual({ result: 'tweet-1', replayed: false })
+  })
+
+  it('runs a key again once it expires', async () => {
+    vi.useFakeTimers()
+    const writes = new IdempotentWrites(1000)
+    const write = vi.fn(async () => 'tweet')
+
+    await writes.run('key', write)
+    vi.advanceTimersByTime(1000)
+    await writes.run('key', write)
+
+    expect(write).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps different keys apart', async () => {
+    const writes = new IdempotentWrites()
+
+    expect((await writes.run('a', async () => 'tweet-a')).result).toBe('tweet-a')
+    expect((await writes.run('b', async () => 'tweet-b')).result).toBe('tweet-b')
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Idempotent Writes
+ *
+ * Makes a tweet write with the same idempotency key happen once. While a
+ * write is in flight, repeats wait for it; once it succeeds, repeats get
+ * its result until the key expires. Failed writes are forgotten so they
+ * can be tried again. Keys are kept per server process. Callers key writes
+ * by the row they publish (a content_schedule or ai_responses id), never
+ * by the text, so posting the same text again on purpose still posts.
+ */
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000
+
+export class IdempotentWrites {
+  private inFlight = new Map<string, Promise<unknown>>()
+  private completed = new Map<string, { result: unknown; expiresAt: number }>()
+  private ttlMs: number
+
+  constructor(ttlMs: number = DEFAULT_TTL_MS) {
+    this.ttlMs = ttlMs
+  }
+
+  /**
+   * Run the write unless this key already ran, returning the first result
+   */
+  async run<T>(key: string, write: () => Promise<T>): Promise<{ result: T; replayed: boolean }> {
+    this.removeExpired()
+
+    const completed = this.completed.get(key)
+    if (completed) {
+      return { result: completed.result as T, replayed: true }
+    }
+
+    const pending = this.inFlight.get(key)
+    if (pending) {
+      return { result: await pending as T, replayed: true }
+    }
+
+    const running = write()
+    this.inFlight.set(key, running)
+
+    try {
+      const result = await running
+      this.completed.set(key, { result, expiresAt: Date.now() + this.ttlMs })
+      return { result, replayed: false }
+    } finally {
+      this.inFlight.delete(key)
+    }
+  }
+
+  private removeExpired(): void {
+    const now = Date.now()
+    this.completed.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.completed.delete(key)
+      }
+    })
+  }
+}
+
+// Shared by every Twitter client in this process
+export const idempotentWrites = new IdempotentWrites()
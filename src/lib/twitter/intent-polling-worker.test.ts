@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest'
+import { FakeClock } from '@/lib/scheduling/clock'
+import { IntentFilter } from '@/lib/database/intent-filters'
+import { RateLimitInfo } from '@/lib/rate-limit/twitter-rate-limiter'
+import { getNextSlot, getUserPollOffset, IntentPollingWorker } from './intent-polling-worker'
+import { IntentSearchResult } from './intent-search'
+import { TwitterAPIService } from './twitter-api'
+
+const INTERVAL_MS = 60_000
+const TICK_MS = 1000
+
+function filter(id: string, userId: string): IntentFilter {
+  return { id, user_id: userId, keyword: `keyword ${id}`, created_at: '2026-10-19T00:00:00Z' }
+}
+
+function setup(filters: IntentFilter[], limits: Record<string, RateLimitInfo> = {}) {
+  const clock = new FakeClock(0)
+  const polls: Array<{ userId: string; at: number }> = []
+  const state = { filters, limits }
+  const search = vi.fn(async (_api: TwitterAPIService, userId: string): Promise<IntentSearchResult> => {
+    polls.push({ userId, at: clock.now() })
+    return { tweets: [], users: [], pagesFetched: 1, complete: true, stored: [], analyzed: 0 }
+  })
+
+  const worker = new IntentPollingWorker({
+    clock,
+    intervalMs: INTERVAL_MS,
+    tickMs: TICK_MS,
+    reserveRequests: 5,
+    twitterAPI: { getRateLimitStatus: async () => state.limits } as unknown as TwitterAPIService,
+    loadFilters: async () => state.filters,
+    search
+  })
+
+  return { clock, polls, state, search, worker }
+}
+
+describe('IntentPollingWorker', () => {
+  it('gives each user a stable slot inside the interval', () => {
+    const offset = getUserPollOffset('user-1', INTERVAL_MS)
+
+    expect(offset).toBe(getUserPollOffset('user-1', INTERVAL_MS))
+    expect(offset).toBeGreaterThanOrEqual(0)
+    expect(offset).toBeLessThan(INTERVAL_MS)
+    expect(getNextSlot(offset, offset, INTERVAL_MS)).toBe(offset)
+    expect(getNextSlot(offset + 1, offset, INTERVAL_MS)).toBe(offset + INTERVAL_MS)
+  })
+
+  it('polls each user once per interval on the first tick at their slot', async () => {
+    const { clock, polls, worker } = setup([filter('a', 'user-1'), filter('b', 'user-1'), filter('c', 'user-2')])
+
+    worker.start()
+    await clock.advance(2 * INTERVAL_MS)
+    worker.stop()
+
+    for (const userId of ['user-1', 'user-2']) {
+      const offset = getUserPollOffset(userId, INTERVAL_MS)
+      const times = polls.filter(poll => poll.userId === userId).map(poll => poll.at)
+
+      expect(times).toHaveLength(2)
+      times.forEach((at, index) => {
+        expect(at - (offset + index * INTERVAL_MS)).toBeGreaterThanOrEqual(0)
+        expect(at - (offset + index * INTERVAL_MS)).toBeLessThan(TICK_MS)
+      })
+    }
+    expect(worker.getStatus()).toMatchObject({ state: 'stopped', users: 2, polls: 4 })
+  })
+
+  it('defers a user to the window reset when the budget cannot cover their filters', async () => {
+    const offset = getUserPollOffset('user-1', INTERVAL_MS)
+    const resetTime = offset + 10_000
+    const { clock, polls, state, worker } = setup([filter('a', 'user-1')], {
+      '/tweets/search/recent': { endpoint: '/tweets/search/recent', remaining: 5, resetTime }
+    })
+
+    worker.start()
+    await clock.advance(offset + TICK_MS)
+
+    expect(polls).toHaveLength(0)
+    expect(worker.getStatus('user-1')).toMatchObject({ deferrals: 1, user: { deferredUntilReset: true } })
+
+    state.limits = {}
+    await clock.advance(resetTime - clock.now() + TICK_MS)
+    worker.stop()
+
+    expect(polls).toHaveLength(1)
+    expect(polls[0].at).toBeGreaterThanOrEqual(resetTime)
+    expect(worker.getStatus('user-1').user?.deferredUntilReset).toBe(false)
+  })
+
+  it('drops users whose filters are gone and stops ticking when stopped', async () => {
+    const { clock, state, worker } = setup([filter('a', 'user-1'), filter('b', 'user-2')])
+
+    worker.start()
+    await clock.advance(TICK_MS)
+    expect(worker.getStatus().users).toBe(2)
+
+    state.filters = [filter('a', 'user-1')]
+    await clock.advance(TICK_MS)
+    expect(worker.getStatus().users).toBe(1)
+
+    worker.stop()
+    expect(clock.pendingTimers()).toBe(0)
+  })
+
+  it('keeps polling a user after a failed search', async () => {
+    const { clock, search, worker } = setup([filter('a', 'user-1')])
+    search.mockRejectedValueOnce(new Error('Twitter API error: 503'))
+
+    worker.start()
+    await clock.advance(INTERVAL_MS)
+    expect(worker.getStatus('user-1').user?.lastError).toBe('Twitter API error: 503')
+
+    await clock.advance(INTERVAL_MS)
+    worker.stop()
+    expect(search).toHaveBeenCalledTimes(2)
+    expect(worker.getStatus('user-1').user?.lastError).toBeUndefined()
+  })
+})
@@ -0,0 +1,341 @@
+/**
+ * Intent Polling Worker
+ *
+ * Background job that searches every user's intent filters on a fixed
+ * interval and stores the matches in monitored_tweets, so monitoring keeps
+ * going when nobody has the dashboard open. All users share the app's
+ * search rate limit, so each user gets a fixed slot in the interval and
+ * is deferred to the window reset when the remaining budget can't cover
+ * their filters. Like the filtered stream, this needs a long-running
+ * server process; set INTENT_POLLING_WORKER=local to start it with the
+ * server.
+ */
+
+import { systemLogger } from '@/lib/logging/system-logger'
+import { IntentFiltersService, IntentFilter } from '@/lib/database/intent-filters'
+import { Clock, systemClock } from '@/lib/scheduling/clock'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { createAppTwitterAPI } from './credential-resolver'
+import { IntentSearchOptions, IntentSearchResult, INTENT_SEARCH_RESERVE_REQUESTS, searchIntentFilters } from './intent-search'
+import { TwitterAPIService } from './twitter-api'
+
+const SEARCH_ENDPOINT = '/tweets/search/recent'
+const DEFAULT_INTERVAL_MINUTES = 15
+const DEFAULT_TICK_MS = 30000
+
+export type PollingWorkerState = 'stopped' | 'running'
+
+export interface IntentPollingWorkerOptions {
+  intervalMs?: number
+  tickMs?: number
+  reserveRequests?: number
+  clock?: Clock
+  twitterAPI?: TwitterAPIService
+  loadFilters?: () => Promise<IntentFilter[]>
+  search?: (
+    twitterAPI: TwitterAPIService,
+    userId: string,
+    filters: IntentFilter[],
+    options: IntentSearchOptions
+  ) => Promise<IntentSearchResult>
+}
+
+export interface UserPollSchedule {
+  userId: string
+  filters: number
+  nextRunAt: string
+  lastRunAt?: string
+  lastTweets?: number
+  lastStored?: number
+  deferredUntilReset?: boolean
+  lastError?: string
+}
+
+export interface PollingWorkerStatus {
+  state: PollingWorkerState
+  intervalMinutes: number
+  users: number
+  polls: number
+  tweetsStored: number
+  deferrals: number
+  lastTickAt?: string
+  nextTickAt?: string
+  lastError?: string
+  user?: UserPollSchedule // the requesting user's slot, when asked for
+}
+
+interface UserSlot {
+  userId: string
+  offsetMs: number
+  filters: IntentFilter[]
+  nextRunAt: number
+  lastRunAt?: number
+  lastTweets?: number
+  lastStored?: number
+  deferredUntilReset?: boolean
+  lastError?: string
+}
+
+/**
+ * Stable offset for a user within the polling interval, so users are
+ * spread across it rather than all polled at once
+ */
+export function getUserPollOffset(userId: string, intervalMs: number): number {
+  // FNV-1a with a final mix, so ids that differ in one character still land far apart
+  let hash = 0x811c9dc5
+  for (let i = 0; i < userId.length; i++) {
+    hash = Math.imul(hash ^ userId.charCodeAt(i), 0x01000193)
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 0x45d9f3b)
+  hash = (hash ^ (hash >>> 16)) >>> 0
+  return hash % intervalMs
+}
+
+/**
+ * The first time at or after `after` that falls on the user's slot
+ */
+export function getNextSlot(after: number, offsetMs: number, intervalMs: number): number {
+  const intoInterval = ((after - offsetMs) % intervalMs + intervalMs) % intervalMs
+  return intoInterval === 0 ? after : after + intervalMs - intoInterval
+}
+
+export class IntentPollingWorker {
+  private clock: Clock
+  private intervalMs: number
+  private tickMs: number
+  private reserveRequests: number
+  private twitterAPI: TwitterAPIService | null
+  private loadFilters: () => Promise<IntentFilter[]>
+  private search: NonNullable<IntentPollingWorkerOptions['search']>
+  private slots = new Map<string, UserSlot>()
+  private cancelTick: (() => void) | null = null
+  private currentRun: Promise<void> | null = null
+  private running = false
+  private generation = 0 // bumped on each start so a stopped loop can't reschedule itself
+  private status = {
+    polls: 0,
+    tweetsStored: 0,
+    deferrals: 0,
+    lastTickAt: undefined as number | undefined,
+    nextTickAt: undefined as number | undefined,
+    lastError: undefined as string | undefined
+  }
+
+  constructor(options: IntentPollingWorkerOptions = {}) {
+    const intervalMinutes = parseInt(process.env.INTENT_POLLING_INTERVAL_MINUTES || '') || DEFAULT_INTERVAL_MINUTES
+    this.clock = options.clock || systemClock
+    this.intervalMs = options.intervalMs ?? intervalMinutes * 60000
+    this.tickMs = options.tickMs ?? DEFAULT_TICK_MS
+    this.reserveRequests = options.reserveRequests ?? INTENT_SEARCH_RESERVE_REQUESTS
+    this.twitterAPI = options.twitterAPI || null
+    // Polling is app-wide, so it reads every user's filters
+    this.loadFilters = options.loadFilters || (() => new IntentFiltersService(createAdminClient()).getAllFilters())
+    this.search = options.search || searchIntentFilters
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  getStatus(userId?: string): PollingWorkerStatus {
+    const slot = userId ? this.slots.get(userId) : undefined
+    const toIso = (time?: number) => (time === undefined ? undefined : new Date(time).toISOString())
+
+    return {
+      state: this.running ? 'running' : 'stopped',
+      intervalMinutes: this.intervalMs / 60000,
+      users: this.slots.size,
+      polls: this.status.polls,
+      tweetsStored: this.status.tweetsStored,
+      deferrals: this.status.deferrals,
+      lastTickAt: toIso(this.status.lastTickAt),
+      nextTickAt: toIso(this.status.nextTickAt),
+      lastError: this.status.lastError,
+      user: slot && {
+        userId: slot.userId,
+        filters: slot.filters.length,
+        nextRunAt: new Date(slot.nextRunAt).toISOString(),
+        lastRunAt: toIso(slot.lastRunAt),
+        lastTweets: slot.lastTweets,
+        lastStored: slot.lastStored,
+        deferredUntilReset: slot.deferredUntilReset,
+        lastError: slot.lastError
+      }
+    }
+  }
+
+  /**
+   * Start polling, with the first tick straight away
+   */
+  start(): void {
+    if (this.running) {
+      return
+    }
+
+    this.running = true
+    this.scheduleTick(++this.generation, 0)
+    void systemLogger.info('Intent Polling Worker', 'Polling worker started', {
+      intervalMinutes: this.intervalMs / 60000
+    })
+  }
+
+  stop(): void {
+    this.running = false
+    this.cancelTick?.()
+    this.cancelTick = null
+    this.status.nextTickAt = undefined
+    void systemLogger.info('Intent Polling Worker', 'Polling worker stopped', {})
+  }
+
+  /**
+   * Poll every user that is due now. Safe to call while stopped, which is
+   * how a single run is triggered by hand; a call during a run waits for it.
+   */
+  runOnce(): Promise<void> {
+    if (!this.currentRun) {
+      this.currentRun = this.pollDueUsers().finally(() => {
+        this.currentRun = null
+      })
+    }
+    return this.currentRun
+  }
+
+  private async pollDueUsers(): Promise<void> {
+    const now = this.clock.now()
+    this.status.lastTickAt = now
+
+    let filters: IntentFilter[]
+    try {
+      filters = await this.loadFilters()
+    } catch (error) {
+      this.status.lastError = error instanceof Error ? error.message : 'Failed to load intent filters'
+      return
+    }
+
+    this.updateSlots(filters, now)
+
+    const due = Array.from(this.slots.values())
+      .filter(slot => slot.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt)
+
+    for (const slot of due) {
+      const resetAt = await this.getBudgetResetTime(slot.filters.length)
+      if (resetAt !== undefined) {
+        // Not enough budget left this window; wait for it to reset
+        slot.nextRunAt = resetAt
+        slot.deferredUntilReset = true
+        this.status.deferrals++
+        continue
+      }
+
+      await this.pollUser(slot)
+    }
+  }
+
+  private scheduleTick(generation: number, delayMs: number): void {
+    this.status.nextTickAt = this.clock.now() + delayMs
+    this.cancelTick = this.clock.schedule(async () => {
+      if (!this.running || generation !== this.generation) {
+        return
+      }
+
+      try {
+        await this.runOnce()
+      } catch (error) {
+        this.status.lastError = error instanceof Error ? error.message : 'Unknown error'
+        await systemLogger.error('Intent Polling Worker', 'Polling tick failed', { error: this.status.lastError })
+      }
+
+      if (this.running && generation === this.generation) {
+        this.scheduleTick(generation, this.tickMs)
+      }
+    }, delayMs)
+  }
+
+  /**
+   * Track users who have filters, giving new users their slot
+   */
+  private updateSlots(filters: IntentFilter[], now: number): void {
+    const filtersByUser = new Map<string, IntentFilter[]>()
+    filters.forEach(filter => {
+      filtersByUser.set(filter.user_id, [...(filtersByUser.get(filter.user_id) || []), filter])
+    })
+
+    for (const userId of Array.from(this.slots.keys())) {
+      if (!filtersByUser.has(userId)) {
+        this.slots.delete(userId)
+      }
+    }
+
+    filtersByUser.forEach((userFilters, userId) => {
+      const slot = this.slots.get(userId)
+      if (slot) {
+        slot.filters = userFilters
+        return
+      }
+
+      const offsetMs = getUserPollOffset(userId, this.intervalMs)
+      this.slots.set(userId, {
+        userId,
+        offsetMs,
+        filters: userFilters,
+        nextRunAt: getNextSlot(now, offsetMs, this.intervalMs)
+      })
+    })
+  }
+
+  /**
+   * When the shared search budget can't cover one request per filter plus
+   * the reserve, the time it resets; otherwise undefined
+   */
+  private async getBudgetResetTime(requestsNeeded: number): Promise<number | undefined> {
+    const limit = (await this.getTwitterAPI().getRateLimitStatus())[SEARCH_ENDPOINT]
+    if (!limit || this.clock.now() >= limit.resetTime) {
+      return undefined
+    }
+    return limit.remaining - this.reserveRequests < requestsNeeded ? limit.resetTime : undefined
+  }
+
+  private async pollUser(slot: UserSlot): Promise<void> {
+    const startedAt = this.clock.now()
+
+    try {
+      const result = await this.search(this.getTwitterAPI(), slot.userId, slot.filters, {
+        reserveRequests: this.reserveRequests
+      })
+
+      slot.lastTweets = result.tweets.length
+      slot.lastStored = result.stored.length
+      slot.lastError = undefined
+      this.status.tweetsStored += result.stored.length
+
+      await systemLogger.info('Intent Polling Worker', 'Polled intent filters', {
+        filters: slot.filters.length,
+        tweets: result.tweets.length,
+        stored: result.stored.length,
+        pagesFetched: result.pagesFetched
+      }, slot.userId)
+    } catch (error) {
+      slot.lastError = error instanceof Error ? error.message : 'Unknown error'
+      await systemLogger.warn('Intent Polling Worker', 'Failed to poll intent filters', {
+        error: slot.lastError
+      }, slot.userId)
+    }
+
+    this.status.polls++
+    slot.lastRunAt = startedAt
+    slot.deferredUntilReset = false
+    slot.nextRunAt = getNextSlot(startedAt + 1, slot.offsetMs, this.intervalMs)
+  }
+
+  private getTwitterAPI(): TwitterAPIService {
+    // Created on first use so importing the worker doesn't need Twitter credentials
+    if (!this.twitterAPI) {
+      this.twitterAPI = createAppTwitterAPI()
+    }
+    return this.twitterAPI
+  }
+}
+
+// One worker per server process
+export const intentPollingWorker = new IntentPollingWorker()
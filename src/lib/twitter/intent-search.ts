@@ -0,0 +1,160 @@
+/**
+ * Intent Search
+ *
+ * Searches each of a user's intent filters for tweets newer than the
+ * filter's since_id, stores the matches in monitored_tweets and runs the
+ * new ones through the agent. Shared by the live search route and the
+ * background polling worker.
+ */
+
+import { IntentFiltersService, IntentFilter } from '@/lib/database/intent-filters'
+import { MonitoredTweetsService } from '@/lib/database/monitored-tweets'
+import { analyzeMonitoredTweets } from '@/lib/ai/monitored-tweet-analysis'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { PaginatedSearchResult, TweetData, TweetFilter, TwitterAPIService, TwitterUser } from './twitter-api'
+import { MonitoredTweet } from '@/types/database'
+
+export const INTENT_SEARCH_PAGE_SIZE = 25
+export const INTENT_SEARCH_MAX_PAGES = 3
+export const INTENT_SEARCH_RESERVE_REQUESTS = 5
+
+export interface IntentSearchOptions {
+  pageSize?: number
+  maxPages?: number
+  reserveRequests?: number
+}
+
+export interface IntentSearchResult {
+  tweets: TweetData[] // newest first
+  users: TwitterUser[]
+  pagesFetched: number
+  complete: boolean
+  stored: MonitoredTweet[]
+  analyzed: number
+}
+
+/**
+ * The search run for a filter's keyword, shared with the cache warmer so
+ * warmed entries have the same cache key
+ */
+export function getIntentFilterSearch(keyword: string): { query: string; filters: TweetFilter } {
+  return {
+    query: `"${keyword}"`,
+    filters: {
+      keywords: [keyword],
+      excludeRetweets: true,
+      excludeReplies: false,
+      languages: ['en']
+    }
+  }
+}
+
+/**
+ * Search a user's filters and store what they match. An error on the first
+ * filter is thrown; an error on a later filter keeps the earlier results.
+ * Since_ids only advance once the matches are stored, so a failed insert
+ * is thrown and the same tweets are searched for again next time, and only
+ * for filters whose paging reached the old since_id.
+ */
+export async function searchIntentFilters(
+  twitterAPI: TwitterAPIService,
+  userId: string,
+  filters: IntentFilter[],
+  options: IntentSearchOptions = {}
+): Promise<IntentSearchResult> {
+  // The polling worker searches for users who aren't signed in, so RLS can't scope these writes
+  const supabase = createAdminClient()
+  const intentService = new IntentFiltersService(supabase)
+  const tweets = new Map<string, TweetData>()
+  const matchedFilters = new Map<string, IntentFilter[]>()
+  const users = new Map<string, TwitterUser>()
+  const newestIds = new Map<IntentFilter, string>()
+  let pagesFetched = 0
+  let searched = 0
+  let complete = true
+
+  for (const filter of filters) {
+    let result: PaginatedSearchResult
+    try {
+      const search = getIntentFilterSearch(filter.keyword)
+      result = await twitterAPI.searchTweetsPaginated(search.query, search.filters, {
+        sinceId: filter.since_id || undefined,
+        pageSize: options.pageSize ?? INTENT_SEARCH_PAGE_SIZE,
+        // A filter's first search only takes the latest page rather than the whole backlog
+        maxPages: filter.since_id ? options.maxPages ?? INTENT_SEARCH_MAX_PAGES : 1,
+        reserveRequests: options.reserveRequests ?? INTENT_SEARCH_RESERVE_REQUESTS
+      })
+    } catch (filterError) {
+      // Keep what earlier filters found; their since_ids move on once it's stored
+      if (searched === 0) {
+        throw filterError
+      }
+      await systemLogger.warn('Intent Search', 'Stopped searching remaining filters', {
+        userId,
+        keyword: filter.keyword,
+        error: filterError instanceof Error ? filterError.message : 'Unknown error'
+      })
+      complete = false
+      break
+    }
+
+    result.data?.forEach(tweet => {
+      tweets.set(tweet.id, tweet)
+      matchedFilters.set(tweet.id, [...(matchedFilters.get(tweet.id) || []), filter])
+    })
+    result.includes?.users?.forEach(author => users.set(author.id, author))
+    pagesFetched += result.pagesFetched
+    searched++
+    complete = complete && result.complete
+
+    // Paging runs newest to oldest, so a search cut short left a gap above
+    // the old since_id; keeping it searches the gap again next time. A
+    // first search skips the backlog on purpose and always moves on.
+    if (result.meta?.newest_id && (result.complete || !filter.since_id)) {
+      newestIds.set(filter, result.meta.newest_id)
+    }
+  }
+
+  // Newest first; tweet ids are numeric strings that outgrow Number
+  const newTweets = Array.from(tweets.values()).sort((a, b) =>
+    b.id.length - a.id.length || (b.id > a.id ? 1 : b.id < a.id ? -1 : 0)
+  )
+
+  // Keep every match for triage; tweets the user already has are skipped.
+  // A failed insert is thrown before any since_id moves past these tweets.
+  const stored = await new MonitoredTweetsService(supabase).saveMatches(newTweets.map(tweet => {
+    const metrics = tweet.public_metrics
+    const matched = matchedFilters.get(tweet.id) || []
+    return {
+      user_id: userId,
+      tweet_id: tweet.id,
+      author_id: tweet.author_id,
+      author_username: users.get(tweet.author_id)?.username,
+      text: tweet.text,
+      matched_keywords: matched.map(filter => filter.keyword),
+      matched_filter_ids: matched.map(filter => filter.id),
+      source: 'search' as const,
+      engagement_score: metrics
+        ? metrics.like_count + metrics.retweet_count + metrics.reply_count + metrics.quote_count
+        : 0,
+      tweet_created_at: tweet.created_at
+    }
+  }))
+
+  // Stored matches come back as duplicates if this fails, so the next search just repeats
+  for (const [filter, newestId] of newestIds) {
+    await intentService.updateSinceId(filter.id, userId, newestId)
+  }
+
+  const analyzed = await analyzeMonitoredTweets(stored, tweets)
+
+  return {
+    tweets: newTweets,
+    users: Array.from(users.values()),
+    pagesFetched,
+    complete,
+    stored,
+    analyzed
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Local stand-in for Twitter's media upload endpoint
+ *
+ * Implements INIT/APPEND/FINALIZE/STATUS and alt text metadata closely
+ * enough to exercise TwitterAPIService.uploadMedia without the live API,
+ * on both the v1.1 endpoint and the v2 endpoints OAuth 2.0 tokens use.
+ * Like Twitter, v1.1 turns away Bearer tokens. Point OAuth 1.0a clients at
+ * it with TWITTER_UPLOAD_BASE_URL=<stub url> and OAuth 2.0 clients with
+ * TWITTER_API_BASE_URL=<stub apiUrl>.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+
+export interface StubMediaUpload {
+  mediaId: string
+  mediaType: string
+  mediaCategory: string
+  totalBytes: number
+  segments: number[]
+  receivedBytes: number // raw APPEND bodies, including multipart framing
+  finalized: boolean
+  statusChecks: number
+  altText?: string
+}
+
+export interface MediaUploadStubOptions {
+  port?: number
+  processingChecks?: number // STATUS calls that report in_progress before success, for GIFs
+}
+
+export interface MediaUploadStub {
+  url: string // v1.1 upload base
+  apiUrl: string // v2 API base
+  uploads: Map<string, StubMediaUpload>
+  close: () => Promise<void>
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    request.on('data', chunk => chunks.push(chunk))
+    request.on('end', () => resolve(Buffer.concat(chunks)))
+    request.on('error', reject)
+  })
+}
+
+function sendJson(response: ServerResponse, status: number, body?: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+/**
+ * Start the stub on a local port (random by default)
+ */
+export async function startMediaUploadStub(options: MediaUploadStubOptions = {}): Promise<MediaUploadStub> {
+  const uploads = new Map<string, StubMediaUpload>()
+  const processingChecks = options.processingChecks ?? 1
+  let nextMediaId = 1000
+
+  const processingInfo = (upload: StubMediaUpload) => {
+    if (upload.mediaCategory !== 'tweet_gif') {
+      return undefined
+    }
+    return upload.statusChecks < processingChecks
+      ? { state: upload.statusChecks === 0 ? 'pending' : 'in_progress', check_after_secs: 0 }
+      : { state: 'succeeded', progress_percent: 100 }
+  }
+
+  const createUpload = (mediaType: string, mediaCategory: string, totalBytes: number): StubMediaUpload => {
+    const mediaId = String(nextMediaId++)
+    const upload = {
+      mediaId,
+      mediaType,
+      mediaCategory,
+      totalBytes,
+      segments: [],
+      receivedBytes: 0,
+      finalized: false,
+      statusChecks: 0
+    }
+    uploads.set(mediaId, upload)
+    return upload
+  }
+
+  // v2 splits the commands into paths and wraps each result in `data`
+  const handleV2 = async (request: IncomingMessage, url: URL, body: Buffer, response: ServerResponse) => {
+    const [, mediaId, step] = url.pathname.match(/^\/2\/media\/upload\/(\d+)\/(append|finalize)$/) || []
+    const upload = uploads.get(mediaId || url.searchParams.get('media_id') || '')
+
+    if (url.pathname === '/2/media/upload/initialize') {
+      const { media_type, media_category, total_bytes } = JSON.parse(body.toString() || '{}')
+      const created = createUpload(media_type || '', media_category || 'tweet_image', total_bytes || 0)
+      return sendJson(response, 200, { data: { id: created.mediaId, expires_after_secs: 86400 } })
+    }
+
+    if (url.pathname === '/2/media/metadata') {
+      const { id, metadata } = JSON.parse(body.toString() || '{}')
+      const target = uploads.get(id)
+      if (!target) {
+        return sendJson(response, 400, { detail: 'Unknown media id' })
+      }
+      target.altText = metadata?.alt_text?.text
+      return sendJson(response, 200, { data: { id } })
+    }
+
+    if (step === 'append') {
+      if (!upload) {
+        return sendJson(response, 400, { detail: 'Unknown media id' })
+      }
+      const form = await new Response(new Uint8Array(body), {
+        headers: { 'Content-Type': request.headers['content-type'] || '' }
+      }).formData()
+      upload.segments.push(parseInt(String(form.get('segment_index') || '0')))
+      upload.receivedBytes += body.length
+      return sendJson(response, 200, { data: { expires_at: Date.now() + 86400 * 1000 } })
+    }
+
+    if (step === 'finalize') {
+      if (!upload || upload.segments.length === 0) {
+        return sendJson(response, 400, { detail: 'Upload incomplete' })
+      }
+      upload.finalized = true
+      return sendJson(response, 200, {
+        data: { id: upload.mediaId, size: upload.totalBytes, expires_after_secs: 86400, processing_info: processingInfo(upload) }
+      })
+    }
+
+    if (url.pathname === '/2/media/upload' && url.searchParams.get('command') === 'STATUS') {
+      if (!upload?.finalized) {
+        return sendJson(response, 400, { detail: 'Media not finalized' })
+      }
+      upload.statusChecks++
+      return sendJson(response, 200, { data: { id: upload.mediaId, processing_info: processingInfo(upload) } })
+    }
+
+    return sendJson(response, 404, { detail: 'Not found' })
+  }
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost')
+    const body = await readBody(request)
+
+    if (!request.headers.authorization) {
+      return sendJson(response, 401, { detail: 'Unauthorized' })
+    }
+
+    if (url.pathname.startsWith('/2/')) {
+      return handleV2(request, url, body, response)
+    }
+
+    // v1.1 media upload only accepts OAuth 1.0a user context
+    if (request.headers.authorization.startsWith('Bearer ')) {
+      return sendJson(response, 403, { detail: 'Unsupported Authentication' })
+    }
+
+    if (url.pathname.endsWith('/media/metadata/create.json')) {
+      const { media_id, alt_text } = JSON.parse(body.toString() || '{}')
+      const upload = uploads.get(media_id)
+      if (!upload) {
+        return sendJson(response, 400, { detail: 'Unknown media_id' })
+      }
+      upload.altText = alt_text?.text
+      return sendJson(response, 200)
+    }
+
+    if (!url.pathname.endsWith('/media/upload.json')) {
+      return sendJson(response, 404, { detail: 'Not found' })
+    }
+
+    const command = url.searchParams.get('command')
+    const upload = uploads.get(url.searchParams.get('media_id') || '')
+
+    switch (command) {
+      case 'INIT': {
+        const created = createUpload(
+          url.searchParams.get('media_type') || '',
+          url.searchParams.get('media_category') || 'tweet_image',
+          parseInt(url.searchParams.get('total_bytes') || '0')
+        )
+        return sendJson(response, 202, { media_id_string: created.mediaId, expires_after_secs: 86400 })
+      }
+
+      case 'APPEND':
+        if (!upload) {
+          return sendJson(response, 400, { detail: 'Unknown media_id' })
+        }
+        upload.segments.push(parseInt(url.searchParams.get('segment_index') || '0'))
+        upload.receivedBytes += body.length
+        response.writeHead(204)
+        return response.end()
+
+      case 'FINALIZE':
+        if (!upload || upload.segments.length === 0) {
+          return sendJson(response, 400, { detail: 'Upload incomplete' })
+        }
+        upload.finalized = true
+        return sendJson(response, 201, {
+          media_id_string: upload.mediaId,
+          size: upload.totalBytes,
+          expires_after_secs: 86400,
+          processing_info: processingInfo(upload)
+        })
+
+      case 'STATUS':
+        if (!upload?.finalized) {
+          return sendJson(response, 400, { detail: 'Media not finalized' })
+        }
+        upload.statusChecks++
+        return sendJson(response, 200, {
+          media_id_string: upload.mediaId,
+          processing_info: processingInfo(upload)
+        })
+
+      default:
+        return sendJson(response, 400, { detail: `Unknown command ${command}` })
+    }
+  })
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}/1.1`,
+    apiUrl: `http://127.0.0.1:${port}/2`,
+    uploads,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { buildOAuth1Header, buildSignatureBaseString, createSignature, percentEncode } from './oauth1'
+
+// The reference request from Twitter's "Creating a signature" guide
+const credentials = {
+  consumerKey: 'xvz1evFS4wEEPTGEFPHBog',
+  consumerSecret: 'kAcSOqF21Fu85e7zjz7ZN2U4ZRhfV3WpwPAoE3Z7kBw',
+  token: '370773112-GmHxMAgYyLbNEtIKZeRNFsMKPR9EyMZeS9weJAEb',
+  tokenSecret: 'LswwdoUaIvS8ltyTt5jkRh4J50vUPVVHtR2YPi5kE'
+}
+const url = 'https://api.twitter.com/1.1/statuses/update.json'
+const nonce = 'kYjzVBB8Y0ZFabxSWbWovY3uYSQ2pTgmZeNu2VS4cg'
+const timestamp = '1318622958'
+const status = 'Hello Ladies + Gentlemen, a signed OAuth request!'
+
+const referenceParams: Array<[string, string]> = [
+  ['status', status],
+  ['include_entities', 'true'],
+  ['oauth_consumer_key', credentials.consumerKey],
+  ['oauth_nonce', nonce],
+  ['oauth_signature_method', 'HMAC-SHA1'],
+  ['oauth_timestamp', timestamp],
+  ['oauth_token', credentials.token],
+  ['oauth_version', '1.0']
+]
+
+const referenceBaseString = 'POST&https%3A%2F%2Fapi.twitter.com%2F1.1%2Fstatuses%2Fupdate.json&' +
+  'include_entities%3Dtrue%26oauth_consumer_key%3Dxvz1evFS4wEEPTGEFPHBog%26' +
+  'oauth_nonce%3DkYjzVBB8Y0ZFabxSWbWovY3uYSQ2pTgmZeNu2VS4cg%26oauth_signature_method%3DHMAC-SHA1%26' +
+  'oauth_timestamp%3D1318622958%26oauth_token%3D370773112-GmHxMAgYyLbNEtIKZeRNFsMKPR9EyMZeS9weJAEb%26' +
+  'oauth_version%3D1.0%26status%3DHello%2520Ladies%2520%252B%2520Gentlemen%252C%2520a%2520signed%2520OAuth%2520request%2521'
+
+const referenceSignature = 'hCtSmYh+iHYCEqBWrE7C7hYmtUk='
+
+function parseHeader(header: string): Record<string, string> {
+  const params: Record<string, string> = {}
+  header.replace(/^OAuth /, '').split(', ').forEach(pair => {
+    const [key, value] = pair.split('=')
+    params[decodeURIComponent(key)] = decodeURIComponent(value.slice(1, -1))
+  })
+  return params
+}
+
+describe('percentEncode', () => {
+  it('encodes the characters encodeURIComponent leaves alone', () => {
+    expect(percentEncode("!'()*")).toBe('%21%27%28%29%2A')
+    expect(percentEncode('a-b_c.d~e')).toBe('a-b_c.d~e')
+  })
+})
+
+describe('buildSignatureBaseString', () => {
+  it('matches the reference base string', () => {
+    expect(buildSignatureBaseString('post', `${url}?include_entities=true`, referenceParams))
+      .toBe(referenceBaseString)
+  })
+
+  it('keeps and sorts every value of a repeated key', () => {
+    const baseString = buildSignatureBaseString('GET', 'https://api.twitter.com/2/tweets', [['ids', '2'], ['ids', '1']])
+    expect(baseString).toBe('GET&https%3A%2F%2Fapi.twitter.com%2F2%2Ftweets&ids%3D1%26ids%3D2')
+  })
+
+  it('drops default ports and lowercases the host', () => {
+    expect(buildSignatureBaseString('GET', 'HTTPS://API.Twitter.com:443/2/tweets', []))
+      .toBe('GET&https%3A%2F%2Fapi.twitter.com%2F2%2Ftweets&')
+  })
+})
+
+describe('createSignature', () => {
+  it('matches the reference signature', () => {
+    expect(createSignature(referenceBaseString, credentials.consumerSecret, credentials.tokenSecret))
+      .toBe(referenceSignature)
+  })
+})
+
+describe('buildOAuth1Header', () => {
+  it('signs the reference request', () => {
+    const header = buildOAuth1Header(credentials, {
+      method: 'POST',
+      url: `${url}?include_entities=true`,
+      bodyParams: { status },
+      nonce,
+      timestamp
+    })
+
+    expect(parseHeader(header)).toEqual({
+      oauth_consumer_key: credentials.consumerKey,
+      oauth_nonce: nonce,
+      oauth_signature: referenceSignature,
+      oauth_signature_method: 'HMAC-SHA1',
+      oauth_timestamp: timestamp,
+      oauth_token: credentials.token,
+      oauth_version: '1.0'
+    })
+  })
+
+  it('signs explicit query parameters like ones on the URL', () => {
+    const request = { method: 'POST', bodyParams: { status }, nonce, timestamp }
+    expect(buildOAuth1Header(credentials, { ...request, url, queryParams: { include_entities: 'true' } }))
+      .toBe(buildOAuth1Header(credentials, { ...request, url: `${url}?include_entities=true` }))
+  })
+
+  it('signs every value of a repeated query key', () => {
+    const request = { method: 'GET', nonce, timestamp }
+    const repeated = buildOAuth1Header(credentials, { ...request, url: 'https://api.twitter.com/2/tweets?ids=1&ids=2' })
+    const single = buildOAuth1Header(credentials, { ...request, url: 'https://api.twitter.com/2/tweets?ids=2' })
+
+    const signature = createSignature(
+      buildSignatureBaseString('GET', 'https://api.twitter.com/2/tweets', [
+        ['ids', '1'],
+        ['ids', '2'],
+        ...referenceParams.filter(([key]) => key.startsWith('oauth_'))
+      ]),
+      credentials.consumerSecret,
+      credentials.tokenSecret
+    )
+    expect(parseHeader(repeated).oauth_signature).toBe(signature)
+    expect(parseHeader(repeated).oauth_signature).not.toBe(parseHeader(single).oauth_signature)
+  })
+})
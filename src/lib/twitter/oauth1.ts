@@ -0,0 +1,123 @@
+import { createHmac, randomBytes } from 'crypto'
+
+export interface OAuth1Credentials {
+  consumerKey: string
+  consumerSecret: string
+  token: string
+  tokenSecret: string
+}
+
+export interface OAuth1SigningRequest {
+  method: string
+  url: string
+  queryParams?: Record<string, string>
+  bodyParams?: Record<string, string>
+  nonce?: string
+  timestamp?: string
+}
+
+/**
+ * Percent-encode a value as required by RFC 5849 section 3.6
+ */
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char =>
+    `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+/**
+ * Generate a random alphanumeric nonce
+ */
+export function generateNonce(): string {
+  return randomBytes(24).toString('base64').replace(/[^a-zA-Z0-9]/g, '')
+}
+
+/**
+ * Current time in whole seconds, as OAuth expects
+ */
+export function generateTimestamp(): string {
+  return Math.floor(Date.now() / 1000).toString()
+}
+
+/**
+ * Strip query string and fragment, and lowercase scheme and host
+ */
+function normalizeBaseUrl(url: string): string {
+  const parsed = new URL(url)
+  const defaultPort = (parsed.protocol === 'http:' && parsed.port === '80') ||
+    (parsed.protocol === 'https:' && parsed.port === '443')
+  const port = parsed.port && !defaultPort ? `:${parsed.port}` : ''
+
+  return `${parsed.protocol.toLowerCase()}//${parsed.hostname.toLowerCase()}${port}${parsed.pathname}`
+}
+
+/**
+ * Build the signature base string from method, URL and every signed
+ * parameter. Parameters are [key, value] pairs so a repeated key keeps
+ * every value.
+ */
+export function buildSignatureBaseString(
+  method: string,
+  url: string,
+  params: Array<[string, string]>
+): string {
+  const encodedParams = params
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) => {
+      if (keyA === keyB) {
+        return valueA < valueB ? -1 : valueA > valueB ? 1 : 0
+      }
+      return keyA < keyB ? -1 : 1
+    })
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&')
+
+  return [
+    method.toUpperCase(),
+    percentEncode(normalizeBaseUrl(url)),
+    percentEncode(encodedParams)
+  ].join('&')
+}
+
+/**
+ * Sign a base string with HMAC-SHA1 using the consumer and token secrets
+ */
+export function createSignature(baseString: string, consumerSecret: string, tokenSecret: string): string {
+  const signingKey = `${percentEncode(consumerSecret)}&${percentEncode(tokenSecret)}`
+  return createHmac('sha1', signingKey).update(baseString).digest('base64')
+}
+
+/**
+ * Build a complete OAuth 1.0a Authorization header value.
+ *
+ * Query parameters already present on the URL are signed along with any
+ * explicit query and form-encoded body parameters. JSON bodies are not
+ * part of the signature.
+ */
+export function buildOAuth1Header(credentials: OAuth1Credentials, request: OAuth1SigningRequest): string {
+  const oauthParams: Record<string, string> = {
+    oauth_consumer_key: credentials.consumerKey,
+    oauth_nonce: request.nonce || generateNonce(),
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: request.timestamp || generateTimestamp(),
+    oauth_token: credentials.token,
+    oauth_version: '1.0'
+  }
+
+  const signedParams: Array<[string, string]> = [
+    ...Array.from(new URL(request.url).searchParams.entries()),
+    ...Object.entries(request.queryParams || {}),
+    ...Object.entries(request.bodyParams || {}),
+    ...Object.entries(oauthParams)
+  ]
+
+  const baseString = buildSignatureBaseString(request.method, request.url, signedParams)
+  oauthParams.oauth_signature = createSignature(baseString, credentials.consumerSecret, credentials.tokenSecret)
+
+  const headerParams = Object.keys(oauthParams)
+    .sort()
+    .map(key => `${percentEncode(key)}="${percentEncode(oauthParams[key])}"`)
+    .join(', ')
+
+  return `OAuth ${headerParams}`
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { FakeClock } from '@/lib/scheduling/clock'
+import { MemoryRateLimitStore } from '@/lib/rate-limit/rate-limit-store'
+import { TwitterRateLimiter } from '@/lib/rate-limit/twitter-rate-limiter'
+import { RequestBudget, RequestScheduler } from './request-scheduler'
+
+const START = new Date('2026-10-19T12:00:00Z').getTime()
+
+// Let the scheduler's store reads and started requests settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>(done => { resolve = done })
+  return { promise, resolve }
+}
+
+describe('RequestScheduler', () => {
+  let clock: FakeClock
+  let limiter: TwitterRateLimiter
+  let budget: RequestBudget
+
+  beforeEach(() => {
+    clock = new FakeClock(START)
+    limiter = new TwitterRateLimiter({ scope: 'token-a', store: new MemoryRateLimitStore() })
+    budget = { key: 'token-a:/tweets/search/recent', limiter, endpoint: '/tweets/search/recent' }
+  })
+
+  const setRemaining = (remaining: number, resetInMs: number) =>
+    limiter.updateRateLimit(budget.endpoint, new Headers({
+      'x-rate-limit-remaining': String(remaining),
+      'x-rate-limit-reset': String((START + resetInMs) / 1000)
+    }))
+
+  it('keeps the last requests of a window for higher priorities', async () => {
+    const scheduler = new RequestScheduler({ clock })
+    await setRemaining(3, 10_000)
+    const ran: string[] = []
+
+    const search = scheduler.schedule(budget, async () => ran.push('search'), { priority: 'search' })
+    const publish = scheduler.schedule(budget, async () => ran.push('publish'), { priority: 'publish' })
+    await publish
+    await flush()
+
+    expect(ran).toEqual(['publish'])
+    expect(scheduler.getStatus().queued.search).toBe(1)
+
+    await clock.advance(10_000)
+    await search
+    expect(ran).toEqual(['publish', 'search'])
+  })
+
+  it('starts queued requests in priority order as slots free up', async () => {
+    const scheduler = new RequestScheduler({ clock, maxConcurrent: 1 })
+    const blocker = deferred()
+    const ran: string[] = []
+
+    const first = scheduler.schedule(budget, () => blocker.promise, { priority: 'search' })
+    const rest = (['analytics', 'search', 'mentions', 'publish'] as const).map(priority =>
+      scheduler.schedule(budget, async () => ran.push(priority), { priority })
+    )
+    await flush()
+    expect(scheduler.getStatus().active).toBe(1)
+
+    blocker.resolve()
+    await Promise.all([first, ...rest])
+
+    expect(ran).toEqual(['publish', 'mentions', 'search', 'analytics'])
+  })
+
+  it('fails a request that could not start before its deadline', async () => {
+    const scheduler = new RequestScheduler({ clock })
+    await setRemaining(0, 15 * 60_000)
+
+    await expect(scheduler.schedule(budget, async () => 'never', { priority: 'search' })).rejects.toThrow(/Rate limited/)
+    expect(scheduler.getStatus().queued.search).toBe(0)
+  })
+
+  it('drops a queued request whose signal aborts', async () => {
+    const scheduler = new RequestScheduler({ clock })
+    await setRemaining(0, 10_000)
+    const controller = new AbortController()
+
+    const request = scheduler.schedule(budget, async () => 'never', { priority: 'publish', signal: controller.signal })
+    await flush()
+    controller.abort()
+
+    await expect(request).rejects.toThrow('Request cancelled')
+    expect(scheduler.getStatus().queued.publish).toBe(0)
+  })
+})
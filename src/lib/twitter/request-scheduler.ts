@@ -0,0 +1,302 @@
+/**
+ * Request Scheduler
+ *
+ * Decides which Twitter request goes next when features compete for the
+ * same endpoint budgets. Requests queue by priority class (publish, then
+ * mentions, then search, then analytics refresh) and only a few run at
+ * once. A request whose endpoint is rate limited waits for the window to
+ * reset, and lower classes leave the last few requests of a window to
+ * higher ones, so background search can't use up what scheduled posts
+ * need. A request that can't start before its deadline fails with the
+ * usual rate limit error, and one whose signal aborts leaves the queue.
+ * The scheduler runs single attempts; callers back off between retries
+ * outside it, so a slot is only held while a request is in flight.
+ */
+
+import { Clock, systemClock } from '@/lib/scheduling/clock'
+import { TwitterRateLimiter } from '@/lib/rate-limit/twitter-rate-limiter'
+
+export type RequestPriority = 'publish' | 'mentions' | 'search' | 'analytics'
+
+// Highest first
+export const REQUEST_PRIORITIES: RequestPriority[] = ['publish', 'mentions', 'search', 'analytics']
+
+// Requests left in a window that a class won't spend, keeping them for higher classes
+const PRIORITY_RESERVE: Record<RequestPriority, number> = {
+  publish: 0,
+  mentions: 1,
+  search: 3,
+  analytics: 10
+}
+
+// How long a class waits in the queue when the caller gives no deadline
+const DEFAULT_MAX_WAIT_MS: Record<RequestPriority, number> = {
+  publish: 60000,
+  mentions: 30000,
+  search: 15000,
+  analytics: 5000
+}
+
+const DEFAULT_MAX_CONCURRENT = 4
+
+/**
+ * The rate limit a request draws on
+ */
+export interface RequestBudget {
+  key: string // the token and endpoint, shared by every client drawing on this budget
+  limiter: TwitterRateLimiter
+  endpoint: string // the limiter's key for the endpoint
+}
+
+export interface ScheduleOptions {
+  priority?: RequestPriority
+  deadline?: number // epoch ms by which the request must have started
+  signal?: AbortSignal
+}
+
+export interface RequestSchedulerOptions {
+  maxConcurrent?: number
+  clock?: Clock
+}
+
+export interface RequestSchedulerStatus {
+  active: number
+  queued: Record<RequestPriority, number>
+}
+
+interface QueuedRequest {
+  id: number
+  priority: RequestPriority
+  budget: RequestBudget
+  deadline: number
+  signal?: AbortSignal
+  run: () => Promise<unknown>
+  resolve: (value: unknown) => void
+  reject: (error: unknown) => void
+  onAbort?: () => void
+}
+
+export class RequestScheduler {
+  private clock: Clock
+  private maxConcurrent: number
+  private queue: QueuedRequest[] = []
+  private active = 0
+  private inFlight = new Map<string, number>() // running requests per budget key
+  private nextId = 1
+  private pumping = false
+  private pumpAgain = false
+  private wakeAt: number | null = null
+  private cancelWake: (() => void) | null = null
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.clock = options.clock || systemClock
+    this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT
+  }
+
+  /**
+   * Run a request once its turn comes, resolving with its result
+   */
+  schedule<T>(budget: RequestBudget, run: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const priority = options.priority || 'search'
+
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error('Request cancelled'))
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const request: QueuedRequest = {
+        id: this.nextId++,
+        priority,
+        budget,
+        deadline: options.deadline ?? this.clock.now() + DEFAULT_MAX_WAIT_MS[priority],
+        signal: options.signal,
+        run,
+        resolve: value => resolve(value as T),
+        reject
+      }
+
+      if (request.signal) {
+        request.onAbort = () => this.settle(request, new Error('Request cancelled'))
+        request.signal.addEventListener('abort', request.onAbort, { once: true })
+      }
+
+      this.queue.push(request)
+      void this.pump()
+    })
+  }
+
+  getStatus(): RequestSchedulerStatus {
+    const queued = Object.fromEntries(REQUEST_PRIORITIES.map(priority => [priority, 0])) as Record<RequestPriority, number>
+    this.queue.forEach(request => queued[request.priority]++)
+    return { active: this.active, queued }
+  }
+
+  /**
+   * Start every queued request that can go now, in priority order, and
+   * set a wake-up for the earliest one that has to wait
+   */
+  private async pump(): Promise<void> {
+    if (this.pumping) {
+      this.pumpAgain = true
+      return
+    }
+    this.pumping = true
+
+    try {
+      do {
+        this.pumpAgain = false
+        let nextWake = Infinity
+        let waitingForSlot = false
+        const synced = new Set<string>() // budget keys already loaded from the store this pass
+
+        for (const request of this.getQueueInOrder()) {
+          if (!this.queue.includes(request)) {
+            continue // cancelled while an earlier budget was being checked
+          }
+
+          const now = this.clock.now()
+          const waitMs = await this.getWait(request, synced)
+
+          if (waitMs > 0 && now + waitMs > request.deadline) {
+            this.settle(request, new Error(`Rate limited: ${this.describeWait(request)}`))
+            continue
+          }
+
+          // A slot freed while this pass awaited the store goes to the higher
+          // request already waiting for one, on the next pass
+          if (waitMs > 0 || waitingForSlot || this.active >= this.maxConcurrent) {
+            // Behind the concurrency limit it waits for a running request, bounded by its deadline
+            nextWake = Math.min(nextWake, waitMs > 0 ? now + waitMs : request.deadline)
+            waitingForSlot = waitingForSlot || waitMs === 0
+            continue
+          }
+
+          this.start(request)
+        }
+
+        this.expireOverdue()
+        this.setWake(nextWake)
+      } while (this.pumpAgain)
+    } finally {
+      this.pumping = false
+    }
+  }
+
+  /**
+   * How long a request has to wait for its budget, or 0 if it can go. Each
+   * budget is synced from the store once per pass, however many requests
+   * are queued on it.
+   */
+  private async getWait(request: QueuedRequest, synced: Set<string>): Promise<number> {
+    const { limiter, endpoint, key } = request.budget
+    if (!synced.has(key)) {
+      synced.add(key)
+      await limiter.sync(endpoint)
+    }
+
+    const limit = limiter.getRateLimitStatus()[endpoint]
+    const now = this.clock.now()
+    if (!limit || now >= limit.resetTime) {
+      return 0
+    }
+
+    const available = limit.remaining - this.getInFlight(request.budget)
+    return available > PRIORITY_RESERVE[request.priority] ? 0 : limit.resetTime - now
+  }
+
+  private describeWait(request: QueuedRequest): string {
+    const { limiter, endpoint } = request.budget
+    if (limiter.isRateLimited(endpoint)) {
+      return limiter.getRateLimitMessage(endpoint)
+    }
+    return `remaining ${endpoint} requests are held for higher-priority work until the window resets`
+  }
+
+  private start(request: QueuedRequest): void {
+    this.remove(request)
+    this.active++
+    this.adjustInFlight(request.budget, 1)
+
+    request.run()
+      .then(request.resolve, request.reject)
+      .finally(() => {
+        this.active--
+        this.adjustInFlight(request.budget, -1)
+        void this.pump()
+      })
+  }
+
+  /**
+   * Fail queued requests whose deadline has passed
+   */
+  private expireOverdue(): void {
+    const now = this.clock.now()
+    this.queue
+      .filter(request => request.deadline <= now)
+      .forEach(request => this.settle(request, new Error('Request deadline passed before it could be sent')))
+  }
+
+  /**
+   * Take a queued request out with an error
+   */
+  private settle(request: QueuedRequest, error: Error): void {
+    if (!this.queue.includes(request)) {
+      return
+    }
+    this.remove(request)
+    request.reject(error)
+  }
+
+  private remove(request: QueuedRequest): void {
+    this.queue = this.queue.filter(queued => queued !== request)
+    if (request.signal && request.onAbort) {
+      request.signal.removeEventListener('abort', request.onAbort)
+    }
+  }
+
+  private getQueueInOrder(): QueuedRequest[] {
+    return [...this.queue].sort((a, b) =>
+      REQUEST_PRIORITIES.indexOf(a.priority) - REQUEST_PRIORITIES.indexOf(b.priority) || a.id - b.id
+    )
+  }
+
+  private getInFlight(budget: RequestBudget): number {
+    return this.inFlight.get(budget.key) || 0
+  }
+
+  private adjustInFlight(budget: RequestBudget, delta: number): void {
+    const count = this.getInFlight(budget) + delta
+    if (count > 0) {
+      this.inFlight.set(budget.key, count)
+    } else {
+      this.inFlight.delete(budget.key)
+    }
+  }
+
+  /**
+   * Keep one timer, for the earliest time a queued request could change state
+   */
+  private setWake(at: number): void {
+    if (this.wakeAt === at) {
+      return
+    }
+
+    this.cancelWake?.()
+    this.cancelWake = null
+    this.wakeAt = null
+
+    if (at === Infinity) {
+      return
+    }
+
+    this.wakeAt = at
+    this.cancelWake = this.clock.schedule(() => {
+      this.wakeAt = null
+      this.cancelWake = null
+      void this.pump()
+    }, Math.max(0, at - this.clock.now()))
+  }
+}
+
+// Shared by every Twitter client in this process, so priorities hold across them
+export const twitterRequestScheduler = new RequestScheduler()
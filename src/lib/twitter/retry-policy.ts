@@ -0,0 +1,139 @@
+/**
+ * Retry Policy
+ *
+ * When a failed Twitter request is worth sending again, and how long to
+ * wait first. Transient failures (network errors, 429 and 5xx responses)
+ * are retried with exponential backoff and full jitter. A wait Twitter
+ * asks for through retry-after or x-rate-limit-reset is honoured, and if
+ * it is longer than the policy allows the request fails instead.
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number // including the first
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.TWITTER_MAX_ATTEMPTS || '') || 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+}
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504]
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status)
+}
+
+// System and undici error codes for connections that failed or dropped
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CLOSED',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+]
+
+/**
+ * Whether a thrown error is a network failure. fetch rejects with a
+ * TypeError for those and for bad requests alike, so only errors carrying
+ * a network error code, on themselves or a cause, are retried. Aborts are
+ * deliberate.
+ */
+export function isRetryableError(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) {
+    return false
+  }
+
+  // Connection errors can sit a few causes deep, or inside an AggregateError
+  const pending: unknown[] = [error]
+  for (let checked = 0; pending.length > 0 && checked < 10; checked++) {
+    const current = pending.shift()
+    if (!(current instanceof Error)) {
+      continue
+    }
+
+    const code = (current as Error & { code?: unknown }).code
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.includes(code)) {
+      return true
+    }
+    pending.push(current.cause, ...(current instanceof AggregateError ? current.errors : []))
+  }
+
+  return false
+}
+
+/**
+ * Milliseconds to wait before the next attempt, or null when the wait
+ * Twitter asks for is longer than the policy allows
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  headers?: Headers,
+  now: number = Date.now()
+): number | null {
+  const jitter = Math.random() * policy.baseDelayMs
+  const requested = headers ? getRequestedDelay(headers, now) : undefined
+
+  if (requested !== undefined) {
+    return requested > policy.maxDelayMs ? null : requested + jitter
+  }
+
+  // Full jitter: anywhere up to the exponential step
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+}
+
+/**
+ * The wait a response asks for: retry-after as seconds or an HTTP date,
+ * or the rate limit reset once no requests remain
+ */
+function getRequestedDelay(headers: Headers, now: number): number | undefined {
+  const retryAfter = headers.get('retry-after')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    const delay = Number.isNaN(seconds) ? new Date(retryAfter).getTime() - now : seconds * 1000
+    if (!Number.isNaN(delay)) {
+      return Math.max(0, delay)
+    }
+  }
+
+  const reset = headers.get('x-rate-limit-reset')
+  if (reset && headers.get('x-rate-limit-remaining') === '0') {
+    return Math.max(0, parseInt(reset) * 1000 - now)
+  }
+
+  return undefined
+}
+
+/**
+ * Wait, giving up early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request cancelled'))
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(new Error('Request cancelled'))
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
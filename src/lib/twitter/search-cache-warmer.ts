@@ -0,0 +1,235 @@
+/**
+ * Search Cache Warmer
+ *
+ * Runs every intent filter's search shortly before peak hours, the same
+ * way the live search and polling worker do (one page of
+ * INTENT_SEARCH_PAGE_SIZE), so their searches for those keywords are
+ * answered from the search cache while traffic is highest. Warming shares the app's search rate limit with everything else,
+ * so it stops early rather than eat into the reserve. Peak hours are UTC
+ * hours from TWITTER_CACHE_PEAK_HOURS; set TWITTER_CACHE_WARMER=local to
+ * start the warmer with the server.
+ */
+
+import { systemLogger } from '@/lib/logging/system-logger'
+import { IntentFiltersService, IntentFilter } from '@/lib/database/intent-filters'
+import { Clock, systemClock } from '@/lib/scheduling/clock'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { createAppTwitterAPI } from './credential-resolver'
+import { getIntentFilterSearch, INTENT_SEARCH_PAGE_SIZE, INTENT_SEARCH_RESERVE_REQUESTS } from './intent-search'
+import { TwitterAPIService } from './twitter-api'
+
+const SEARCH_ENDPOINT = '/tweets/search/recent'
+const DEFAULT_PEAK_HOURS = [9, 13, 18]
+const DEFAULT_LEAD_MINUTES = 15
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface SearchCacheWarmerOptions {
+  peakHours?: number[] // UTC hours
+  leadMinutes?: number // how long before each peak hour to warm
+  reserveRequests?: number
+  clock?: Clock
+  twitterAPI?: TwitterAPIService
+  loadFilters?: () => Promise<IntentFilter[]>
+}
+
+export interface WarmRunResult {
+  keywords: number
+  searched: number
+  deferred: number // left for the next run once the search budget ran out
+  failed: number
+  errors: string[]
+  startedAt: string
+  finishedAt: string
+}
+
+export interface SearchCacheWarmerStatus {
+  state: 'stopped' | 'running'
+  peakHours: number[]
+  leadMinutes: number
+  nextWarmAt?: string
+  lastRun?: WarmRunResult
+}
+
+/**
+ * Parse a comma separated list of UTC hours, ignoring anything that isn't one
+ */
+export function parsePeakHours(value: string | undefined): number[] {
+  const hours = (value || '')
+    .split(',')
+    .map(hour => parseInt(hour.trim()))
+    .filter(hour => Number.isInteger(hour) && hour >= 0 && hour < 24)
+  return hours.length > 0 ? Array.from(new Set(hours)).sort((a, b) => a - b) : DEFAULT_PEAK_HOURS
+}
+
+/**
+ * The first warm time after `after`: leadMs before one of the peak hours
+ */
+export function getNextWarmTime(after: number, peakHours: number[], leadMs: number): number {
+  const dayStart = after - (after % DAY_MS)
+  const times = [0, 1, 2].flatMap(day => peakHours.map(hour => dayStart + day * DAY_MS + hour * HOUR_MS - leadMs))
+  return Math.min(...times.filter(time => time > after))
+}
+
+export class SearchCacheWarmer {
+  private clock: Clock
+  private peakHours: number[]
+  private leadMs: number
+  private reserveRequests: number
+  private twitterAPI: TwitterAPIService | null
+  private loadFilters: () => Promise<IntentFilter[]>
+  private cancelRun: (() => void) | null = null
+  private currentRun: Promise<WarmRunResult> | null = null
+  private running = false
+  private generation = 0 // bumped on each start so a stopped loop can't reschedule itself
+  private nextWarmAt: number | undefined
+  private lastRun: WarmRunResult | undefined
+
+  constructor(options: SearchCacheWarmerOptions = {}) {
+    const leadMinutes = parseInt(process.env.TWITTER_CACHE_WARM_LEAD_MINUTES || '') || DEFAULT_LEAD_MINUTES
+    this.clock = options.clock || systemClock
+    this.peakHours = options.peakHours || parsePeakHours(process.env.TWITTER_CACHE_PEAK_HOURS)
+    this.leadMs = (options.leadMinutes ?? leadMinutes) * 60000
+    this.reserveRequests = options.reserveRequests ?? INTENT_SEARCH_RESERVE_REQUESTS
+    this.twitterAPI = options.twitterAPI || null
+    // Every user's filters are warmed, with no session to pass RLS
+    this.loadFilters = options.loadFilters || (() => new IntentFiltersService(createAdminClient()).getAllFilters())
+  }
+
+  getStatus(): SearchCacheWarmerStatus {
+    return {
+      state: this.running ? 'running' : 'stopped',
+      peakHours: this.peakHours,
+      leadMinutes: this.leadMs / 60000,
+      nextWarmAt: this.nextWarmAt === undefined ? undefined : new Date(this.nextWarmAt).toISOString(),
+      lastRun: this.lastRun
+    }
+  }
+
+  /**
+   * Warm before each upcoming peak hour
+   */
+  start(): void {
+    if (this.running) {
+      return
+    }
+
+    this.running = true
+    this.scheduleRun(++this.generation)
+    void systemLogger.info('Search Cache Warmer', 'Cache warmer started', {
+      peakHours: this.peakHours,
+      leadMinutes: this.leadMs / 60000
+    })
+  }
+
+  stop(): void {
+    this.running = false
+    this.cancelRun?.()
+    this.cancelRun = null
+    this.nextWarmAt = undefined
+    void systemLogger.info('Search Cache Warmer', 'Cache warmer stopped', {})
+  }
+
+  /**
+   * Search every distinct filter keyword now. Safe to call while stopped,
+   * which is how admins warm by hand; a call during a run waits for it.
+   */
+  warm(): Promise<WarmRunResult> {
+    if (!this.currentRun) {
+      this.currentRun = this.warmKeywords().finally(() => {
+        this.currentRun = null
+      })
+    }
+    return this.currentRun
+  }
+
+  private async warmKeywords(): Promise<WarmRunResult> {
+    const startedAt = this.clock.now()
+    const filters = await this.loadFilters()
+    const keywords = Array.from(new Set(filters.map(filter => filter.keyword.toLowerCase())))
+    const result: WarmRunResult = {
+      keywords: keywords.length,
+      searched: 0,
+      deferred: 0,
+      failed: 0,
+      errors: [],
+      startedAt: new Date(startedAt).toISOString(),
+      finishedAt: ''
+    }
+
+    for (const [index, keyword] of keywords.entries()) {
+      if (!(await this.hasBudget())) {
+        result.deferred = keywords.length - index
+        break
+      }
+
+      try {
+        // Fresh entries come straight back from the cache; stale ones refresh in the background
+        const search = getIntentFilterSearch(keyword)
+        await this.getTwitterAPI().searchTweetsPaginated(search.query, search.filters, {
+          pageSize: INTENT_SEARCH_PAGE_SIZE,
+          maxPages: 1
+        })
+        result.searched++
+      } catch (error) {
+        result.failed++
+        result.errors.push(`${keyword}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    result.finishedAt = new Date(this.clock.now()).toISOString()
+    this.lastRun = result
+
+    await systemLogger.info('Search Cache Warmer', 'Warmed search cache', {
+      keywords: result.keywords,
+      searched: result.searched,
+      deferred: result.deferred,
+      failed: result.failed
+    })
+    return result
+  }
+
+  private scheduleRun(generation: number): void {
+    const now = this.clock.now()
+    this.nextWarmAt = getNextWarmTime(now, this.peakHours, this.leadMs)
+    this.cancelRun = this.clock.schedule(async () => {
+      if (!this.running || generation !== this.generation) {
+        return
+      }
+
+      try {
+        await this.warm()
+      } catch (error) {
+        await systemLogger.error('Search Cache Warmer', 'Cache warm failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+
+      if (this.running && generation === this.generation) {
+        this.scheduleRun(generation)
+      }
+    }, this.nextWarmAt - now)
+  }
+
+  /**
+   * Whether a search still leaves the reserve for user-facing requests
+   */
+  private async hasBudget(): Promise<boolean> {
+    const limit = (await this.getTwitterAPI().getRateLimitStatus())[SEARCH_ENDPOINT]
+    if (!limit || this.clock.now() >= limit.resetTime) {
+      return true
+    }
+    return limit.remaining - this.reserveRequests > 0
+  }
+
+  private getTwitterAPI(): TwitterAPIService {
+    // Created on first use so importing the warmer doesn't need Twitter credentials
+    if (!this.twitterAPI) {
+      this.twitterAPI = createAppTwitterAPI()
+    }
+    return this.twitterAPI
+  }
+}
+
+// One warmer per server process
+export const searchCacheWarmer = new SearchCacheWarmer()
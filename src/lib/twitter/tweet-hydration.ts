@@ -0,0 +1,146 @@
+/**
+ * Tweet Hydration
+ *
+ * Turns stored tweet ids (the tweet a response answers, the tweets we
+ * published) back into tweets, so the original can still be shown once the
+ * live feed has moved on. Tweets are kept in twitter_tweet_cache; ids that
+ * aren't cached, or were cached longer ago than the caller allows, are
+ * looked up through the /tweets multi-lookup, 100 per request. When the
+ * lookup fails, whatever was cached is returned however old.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { createAppTwitterAPI } from './credential-resolver'
+import { TweetData, TwitterAPIService, TWEETS_LOOKUP_MAX_IDS } from './twitter-api'
+import { CachedTweetRecord } from '@/types/database'
+
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+export interface TweetHydrationOptions {
+  maxAgeMs?: number // look up cached tweets older than this again, e.g. to refresh their metrics
+}
+
+export class TweetHydrationService {
+  private supabase: ReturnType<typeof createAdminClient> | null = null
+  private twitterAPI: TwitterAPIService | null
+
+  // Lookups are reads, so the app-only client is used unless one is given
+  constructor(twitterAPI?: TwitterAPIService) {
+    this.twitterAPI = twitterAPI || null
+  }
+
+  /**
+   * Tweets by id. Ids Twitter can't return (deleted or protected tweets)
+   * are missing from the map.
+   */
+  async hydrate(
+    tweetIds: Array<string | null | undefined>,
+    options: TweetHydrationOptions = {}
+  ): Promise<Map<string, TweetData>> {
+    const ids = Array.from(new Set(tweetIds.filter((id): id is string => Boolean(id))))
+    const tweets = new Map<string, TweetData>()
+    if (ids.length === 0) {
+      return tweets
+    }
+
+    const cached = await this.loadCached(ids)
+    const cutoff = Date.now() - (options.maxAgeMs ?? DEFAULT_MAX_AGE_MS)
+    const toFetch: string[] = []
+
+    ids.forEach(id => {
+      const record = cached.get(id)
+      if (!record || new Date(record.fetched_at).getTime() < cutoff) {
+        toFetch.push(id)
+      } else if (record.data) {
+        tweets.set(id, record.data)
+      }
+    })
+
+    if (toFetch.length === 0) {
+      return tweets
+    }
+
+    let fetched: TweetData[]
+    try {
+      fetched = await this.getTwitterAPI().getTweetsByIds(toFetch)
+    } catch (error) {
+      await systemLogger.warn('Tweet Hydration', 'Tweet lookup failed, using cached tweets', {
+        count: toFetch.length,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      toFetch.forEach(id => {
+        const data = cached.get(id)?.data
+        if (data) {
+          tweets.set(id, data)
+        }
+      })
+      return tweets
+    }
+
+    fetched.forEach(tweet => tweets.set(tweet.id, tweet))
+
+    const fetchedAt = new Date().toISOString()
+    await this.saveCached(toFetch.map(id => ({ tweet_id: id, data: tweets.get(id) || null, fetched_at: fetchedAt })))
+
+    return tweets
+  }
+
+  private async loadCached(ids: string[]): Promise<Map<string, CachedTweetRecord>> {
+    const records = new Map<string, CachedTweetRecord>()
+
+    try {
+      // Chunked to keep the id list within URL limits
+      for (let start = 0; start < ids.length; start += TWEETS_LOOKUP_MAX_IDS) {
+        const { data, error } = await this.getClient()
+          .from('twitter_tweet_cache')
+          .select('*')
+          .in('tweet_id', ids.slice(start, start + TWEETS_LOOKUP_MAX_IDS))
+
+        if (error) {
+          throw error
+        }
+        ((data || []) as CachedTweetRecord[]).forEach(record => records.set(record.tweet_id, record))
+      }
+    } catch (error) {
+      // Without the cache every tweet is looked up
+      await systemLogger.warn('Tweet Hydration', 'Failed to load cached tweets', {
+        error: error instanceof Error ? error.message : error
+      })
+    }
+
+    return records
+  }
+
+  private async saveCached(records: CachedTweetRecord[]): Promise<void> {
+    try {
+      const { error } = await this.getClient()
+        .from('twitter_tweet_cache')
+        .upsert(records, { onConflict: 'tweet_id' })
+
+      if (error) {
+        throw error
+      }
+    } catch (error) {
+      await systemLogger.warn('Tweet Hydration', 'Failed to cache tweets', {
+        count: records.length,
+        error: error instanceof Error ? error.message : error
+      })
+    }
+  }
+
+  private getClient(): ReturnType<typeof createAdminClient> {
+    // Tweets are public, so one cache serves every user
+    if (!this.supabase) {
+      this.supabase = createAdminClient()
+    }
+    return this.supabase
+  }
+
+  private getTwitterAPI(): TwitterAPIService {
+    if (!this.twitterAPI) {
+      this.twitterAPI = createAppTwitterAPI()
+    }
+    return this.twitterAPI
+  }
+}
@@ -0,0 +1,425 @@
+/**
+ * Local stand-in for the Twitter v2 API
+ *
+ * Implements recent search, tweet lookup, posting, replies, quotes,
+ * deletes, likes, retweets and single and batch user lookups against
+ * in-memory tweets and users, closely enough to run the agent, scheduler
+ * and routes without the live API. Every endpoint returns rate limit headers from its own
+ * per-window budget and answers 429 once that runs out; failNext injects
+ * 401, 429, 503 and other errors. Every user-context request acts as the
+ * stub's `me` user. Point the client at it with TWITTER_API_BASE_URL=<stub
+ * url>, or pass the url as the client's baseUrl.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { TweetData, TwitterUser } from './twitter-api'
+
+const DEFAULT_WINDOW_MS = 15 * 60 * 1000
+const DEFAULT_LIMIT = 300
+
+const ROUTES: Array<{ method: string; pattern: RegExp; route: string }> = [
+  { method: 'GET', pattern: /^\/tweets\/search\/recent$/, route: 'GET /tweets/search/recent' },
+  { method: 'GET', pattern: /^\/tweets$/, route: 'GET /tweets' },
+  { method: 'GET', pattern: /^\/tweets\/([^/]+)$/, route: 'GET /tweets/:id' },
+  { method: 'POST', pattern: /^\/tweets$/, route: 'POST /tweets' },
+  { method: 'DELETE', pattern: /^\/tweets\/([^/]+)$/, route: 'DELETE /tweets/:id' },
+  { method: 'GET', pattern: /^\/users$/, route: 'GET /users' },
+  { method: 'GET', pattern: /^\/users\/me$/, route: 'GET /users/me' },
+  { method: 'GET', pattern: /^\/users\/by\/username\/([^/]+)$/, route: 'GET /users/by/username/:username' },
+  { method: 'GET', pattern: /^\/users\/([^/]+)\/tweets$/, route: 'GET /users/:id/tweets' },
+  { method: 'GET', pattern: /^\/users\/([^/]+)\/mentions$/, route: 'GET /users/:id/mentions' },
+  { method: 'GET', pattern: /^\/users\/([^/]+)$/, route: 'GET /users/:id' },
+  { method: 'POST', pattern: /^\/users\/([^/]+)\/likes$/, route: 'POST /users/:id/likes' },
+  { method: 'DELETE', pattern: /^\/users\/([^/]+)\/likes\/([^/]+)$/, route: 'DELETE /users/:id/likes/:tweet_id' },
+  { method: 'POST', pattern: /^\/users\/([^/]+)\/retweets$/, route: 'POST /users/:id/retweets' },
+  { method: 'DELETE', pattern: /^\/users\/([^/]+)\/retweets\/([^/]+)$/, route: 'DELETE /users/:id/retweets/:tweet_id' }
+]
+
+export interface TwitterAPIStubOptions {
+  port?: number
+  me?: TwitterUser // the account user-context requests act as
+  rateLimits?: Record<string, number> // requests per window by route, e.g. { 'GET /tweets/search/recent': 5 }
+  windowMs?: number
+  now?: () => number
+}
+
+export interface StubRequest {
+  method: string
+  path: string
+  route: string
+  query: Record<string, string>
+  body?: unknown
+  status: number
+}
+
+export interface StubFailure {
+  status: number // e.g. 401, 429, 503
+  route?: string // only fail this route; any route when unset
+  retryAfterSeconds?: number
+}
+
+export interface TwitterAPIStub {
+  url: string
+  me: TwitterUser
+  tweets: Map<string, TweetData>
+  users: Map<string, TwitterUser>
+  likes: Set<string> // "userId:tweetId"
+  retweets: Set<string>
+  requests: StubRequest[]
+  addUser: (user: TwitterUser) => TwitterUser
+  addTweet: (tweet: Partial<TweetData> & { text: string }, author?: TwitterUser) => TweetData
+  failNext: (count: number, failure: StubFailure) => void
+  setRateLimit: (route: string, limit: number) => void
+  resetRateLimits: () => void
+  close: () => Promise<void>
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    request.on('data', chunk => chunks.push(chunk))
+    request.on('end', () => resolve(Buffer.concat(chunks)))
+    request.on('error', reject)
+  })
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  response.end(JSON.stringify(body))
+}
+
+// Tweet ids are numeric strings that outgrow Number
+function compareIds(a: string, b: string): number {
+  return a.length - b.length || (a > b ? 1 : a < b ? -1 : 0)
+}
+
+/**
+ * Whether a tweet matches a recent search query. Supports quoted phrases,
+ * bare words, OR between lang:/from: operators, -is:retweet and -is:reply.
+ */
+function matchesQuery(tweet: TweetData, query: string): boolean {
+  const tokens = query.match(/-?"[^"]*"|\S+/g) || []
+  const text = tweet.text.toLowerCase()
+  const languages: string[] = []
+  const authors: string[] = []
+
+  for (const token of tokens) {
+    if (token === 'OR') {
+      continue
+    }
+    if (token === '-is:retweet' && tweet.referenced_tweets?.some(ref => ref.type === 'retweeted')) {
+      return false
+    }
+    if (token === '-is:reply' && tweet.referenced_tweets?.some(ref => ref.type === 'replied_to')) {
+      return false
+    }
+    if (token.startsWith('lang:')) {
+      languages.push(token.slice(5))
+    } else if (token.startsWith('from:')) {
+      authors.push(token.slice(5).toLowerCase())
+    } else if (!token.startsWith('-') && !token.includes(':')) {
+      if (!text.includes(token.replace(/"/g, '').toLowerCase())) {
+        return false
+      }
+    }
+  }
+
+  return (languages.length === 0 || !tweet.lang || languages.includes(tweet.lang)) &&
+    (authors.length === 0 || authors.includes(tweet.author_username.toLowerCase()))
+}
+
+/**
+ * Start the stub on a local port (random by default)
+ */
+export async function startTwitterAPIStub(options: TwitterAPIStubOptions = {}): Promise<TwitterAPIStub> {
+  const now = options.now || Date.now
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS
+  const limits: Record<string, number> = { ...options.rateLimits }
+  const windows = new Map<string, { remaining: number; resetAt: number }>()
+  const failures: Array<StubFailure & { count: number }> = []
+  const tweets = new Map<string, TweetData>()
+  const users = new Map<string, TwitterUser>()
+  const likes = new Set<string>()
+  const retweets = new Set<string>()
+  const requests: StubRequest[] = []
+  let nextId = 1000000
+
+  const addUser = (user: TwitterUser) => {
+    users.set(user.id, user)
+    return user
+  }
+  const me = addUser(options.me || { id: '1', username: 'stub_agent', name: 'Stub Agent' })
+
+  const addTweet = (tweet: Partial<TweetData> & { text: string }, author: TwitterUser = me) => {
+    addUser(author)
+    const id = tweet.id || String(nextId++)
+    const created: TweetData = {
+      created_at: new Date(now()).toISOString(),
+      public_metrics: { retweet_count: 0, reply_count: 0, like_count: 0, quote_count: 0 },
+      lang: 'en',
+      conversation_id: id,
+      ...tweet,
+      id,
+      author_id: author.id,
+      author_username: author.username
+    }
+    tweets.set(id, created)
+    return created
+  }
+
+  /**
+   * Count a request against its route's window, returning the headers to send
+   */
+  const takeRateLimit = (route: string): { allowed: boolean; headers: Record<string, string> } => {
+    const limit = limits[route] ?? DEFAULT_LIMIT
+    let window = windows.get(route)
+    if (!window || now() >= window.resetAt) {
+      window = { remaining: limit, resetAt: now() + windowMs }
+      windows.set(route, window)
+    }
+
+    const allowed = window.remaining > 0
+    if (allowed) {
+      window.remaining--
+    }
+    return {
+      allowed,
+      headers: {
+        'x-rate-limit-limit': String(limit),
+        'x-rate-limit-remaining': String(window.remaining),
+        'x-rate-limit-reset': String(Math.ceil(window.resetAt / 1000))
+      }
+    }
+  }
+
+  const takeFailure = (route: string): StubFailure | undefined => {
+    const index = failures.findIndex(failure => !failure.route || failure.route === route)
+    if (index === -1) {
+      return undefined
+    }
+    const failure = failures[index]
+    if (--failure.count <= 0) {
+      failures.splice(index, 1)
+    }
+    return failure
+  }
+
+  const withUsers = (found: TweetData[], expansions: string | null) => {
+    if (!expansions?.includes('author_id')) {
+      return undefined
+    }
+    const authors = new Map<string, TwitterUser>()
+    found.forEach(tweet => {
+      const author = users.get(tweet.author_id)
+      if (author) {
+        authors.set(author.id, author)
+      }
+    })
+    return { users: Array.from(authors.values()) }
+  }
+
+  /**
+   * Newest-first page of tweets, honouring since_id, max_results and the
+   * page token (next_token on search, pagination_token on user timelines)
+   */
+  const page = (found: TweetData[], url: URL) => {
+    const sinceId = url.searchParams.get('since_id')
+    const maxResults = parseInt(url.searchParams.get('max_results') || '') || 10
+    const token = url.searchParams.get('next_token') || url.searchParams.get('pagination_token')
+    const offset = parseInt(token || '') || 0
+
+    const matching = found
+      .filter(tweet => !sinceId || compareIds(tweet.id, sinceId) > 0)
+      .sort((a, b) => compareIds(b.id, a.id))
+    const data = matching.slice(offset, offset + maxResults)
+    const nextToken = offset + maxResults < matching.length ? String(offset + maxResults) : undefined
+
+    return {
+      data: data.length > 0 ? data : undefined,
+      includes: withUsers(data, url.searchParams.get('expansions')),
+      meta: {
+        result_count: data.length,
+        newest_id: data[0]?.id,
+        oldest_id: data[data.length - 1]?.id,
+        next_token: nextToken
+      }
+    }
+  }
+
+  const handle = (route: string, match: RegExpMatchArray, url: URL, payload: Record<string, unknown>): [number, unknown] => {
+    const notFound = (detail: string): [number, unknown] => [200, { errors: [{ title: 'Not Found Error', detail }] }]
+
+    switch (route) {
+      case 'GET /tweets/search/recent': {
+        const query = url.searchParams.get('query') || ''
+        return [200, page(Array.from(tweets.values()).filter(tweet => matchesQuery(tweet, query)), url)]
+      }
+      case 'GET /tweets': {
+        const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean)
+        if (ids.length === 0 || ids.length > 100) {
+          return [400, { detail: 'ids must list between 1 and 100 tweet ids' }]
+        }
+        const found = ids.map(id => tweets.get(id)).filter((tweet): tweet is TweetData => Boolean(tweet))
+        const missing = ids.filter(id => !tweets.has(id))
+        return [200, {
+          data: found.length > 0 ? found : undefined,
+          includes: withUsers(found, url.searchParams.get('expansions')),
+          errors: missing.length > 0
+            ? missing.map(id => ({ value: id, resource_id: id, title: 'Not Found Error', detail: `Could not find tweet with ids: [${id}].` }))
+            : undefined
+        }]
+      }
+      case 'GET /tweets/:id': {
+        const tweet = tweets.get(match[1])
+        return tweet
+          ? [200, { data: tweet, includes: withUsers([tweet], url.searchParams.get('expansions')) }]
+          : notFound(`Could not find tweet with id: [${match[1]}].`)
+      }
+      case 'POST /tweets': {
+        const text = String(payload.text || '')
+        const duplicate = Array.from(tweets.values()).some(tweet => tweet.author_id === me.id && tweet.text === text)
+        if (duplicate) {
+          return [403, { detail: 'You are not allowed to create a Tweet with duplicate content.' }]
+        }
+
+        const replyTo = (payload.reply as { in_reply_to_tweet_id?: string } | undefined)?.in_reply_to_tweet_id
+        const quoted = payload.quote_tweet_id as string | undefined
+        const references = [
+          ...(replyTo ? [{ type: 'replied_to' as const, id: replyTo }] : []),
+          ...(quoted ? [{ type: 'quoted' as const, id: quoted }] : [])
+        ]
+        const tweet = addTweet({
+          text,
+          referenced_tweets: references.length > 0 ? references : undefined,
+          conversation_id: replyTo ? tweets.get(replyTo)?.conversation_id || replyTo : undefined
+        })
+        return [201, { data: { id: tweet.id, text: tweet.text } }]
+      }
+      case 'DELETE /tweets/:id':
+        return [200, { data: { deleted: tweets.delete(match[1]) } }]
+      case 'GET /users': {
+        const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean)
+        if (ids.length === 0 || ids.length > 100) {
+          return [400, { detail: 'ids must list between 1 and 100 user ids' }]
+        }
+        const found = ids.map(id => users.get(id)).filter((user): user is TwitterUser => Boolean(user))
+        const missing = ids.filter(id => !users.has(id))
+        return [200, {
+          data: found.length > 0 ? found : undefined,
+          errors: missing.length > 0
+            ? missing.map(id => ({ value: id, resource_id: id, title: 'Not Found Error', detail: `Could not find user with ids: [${id}].` }))
+            : undefined
+        }]
+      }
+      case 'GET /users/me':
+        return [200, { data: me }]
+      case 'GET /users/by/username/:username': {
+        const user = Array.from(users.values()).find(candidate => candidate.username.toLowerCase() === match[1].toLowerCase())
+        return user ? [200, { data: user }] : notFound(`Could not find user with username: [${match[1]}].`)
+      }
+      case 'GET /users/:id': {
+        const user = users.get(match[1])
+        return user ? [200, { data: user }] : notFound(`Could not find user with id: [${match[1]}].`)
+      }
+      case 'GET /users/:id/tweets':
+        return [200, page(Array.from(tweets.values()).filter(tweet => tweet.author_id === match[1]), url)]
+      case 'GET /users/:id/mentions': {
+        const username = users.get(match[1])?.username.toLowerCase()
+        return [200, page(Array.from(tweets.values()).filter(tweet =>
+          username !== undefined && tweet.text.toLowerCase().includes(`@${username}`)
+        ), url)]
+      }
+      case 'POST /users/:id/likes':
+        likes.add(`${match[1]}:${payload.tweet_id}`)
+        return [200, { data: { liked: true } }]
+      case 'DELETE /users/:id/likes/:tweet_id':
+        likes.delete(`${match[1]}:${match[2]}`)
+        return [200, { data: { liked: false } }]
+      case 'POST /users/:id/retweets':
+        retweets.add(`${match[1]}:${payload.tweet_id}`)
+        return [200, { data: { retweeted: true } }]
+      case 'DELETE /users/:id/retweets/:tweet_id':
+        retweets.delete(`${match[1]}:${match[2]}`)
+        return [200, { data: { retweeted: false } }]
+    }
+    return [404, { detail: 'Not found' }]
+  }
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost')
+    const path = url.pathname.replace(/^\/2(?=\/)/, '')
+    const method = request.method || 'GET'
+    const body = await readBody(request)
+    const payload = body.length > 0 ? JSON.parse(body.toString()) : {}
+
+    const matched = ROUTES.find(candidate => candidate.method === method && candidate.pattern.test(path))
+    const route = matched?.route || `${method} ${path}`
+    const log: StubRequest = {
+      method,
+      path,
+      route,
+      query: Object.fromEntries(url.searchParams),
+      body: body.length > 0 ? payload : undefined,
+      status: 0
+    }
+    requests.push(log)
+
+    const respond = (status: number, responseBody: unknown, headers?: Record<string, string>) => {
+      log.status = status
+      sendJson(response, status, responseBody, headers)
+    }
+
+    if (!request.headers.authorization) {
+      return respond(401, { title: 'Unauthorized', detail: 'Unauthorized' })
+    }
+    if (!matched) {
+      return respond(404, { detail: 'Not found' })
+    }
+
+    const rateLimit = takeRateLimit(route)
+    const failure = takeFailure(route)
+    if (failure) {
+      const headers = { ...rateLimit.headers }
+      if (failure.status === 429) {
+        headers['x-rate-limit-remaining'] = '0'
+      }
+      if (failure.retryAfterSeconds !== undefined) {
+        headers['retry-after'] = String(failure.retryAfterSeconds)
+      }
+      return respond(failure.status, { title: 'Stub failure', detail: `Injected ${failure.status}` }, headers)
+    }
+    if (!rateLimit.allowed) {
+      return respond(429, { title: 'Too Many Requests', detail: 'Too Many Requests' }, rateLimit.headers)
+    }
+
+    const [status, responseBody] = handle(route, path.match(matched.pattern)!, url, payload)
+    respond(status, responseBody, rateLimit.headers)
+  })
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}/2`,
+    me,
+    tweets,
+    users,
+    likes,
+    retweets,
+    requests,
+    addUser,
+    addTweet,
+    failNext: (count, failure) => {
+      failures.push({ ...failure, count })
+    },
+    setRateLimit: (route, limit) => {
+      limits[route] = limit
+      windows.delete(route)
+    },
+    resetRateLimits: () => windows.clear(),
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()))
+    })
+  }
+}
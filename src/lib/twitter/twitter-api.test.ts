@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { TwitterAPIService, TwitterCredentials, TwitterTransport } from './twitter-api'
+import { startTwitterAPIStub, TwitterAPIStub } from './twitter-api-stub'
+import { MediaUploadStub, startMediaUploadStub } from './media-upload-stub'
+
+const credentials: TwitterCredentials = {
+  apiKey: 'key',
+  apiSecret: 'secret',
+  accessToken: '',
+  accessTokenSecret: '',
+  bearerToken: 'app-token',
+  oauth2: { accessToken: 'user-token' }
+}
+
+describe('TwitterAPIService tweet writes', () => {
+  let stub: TwitterAPIStub
+
+  beforeEach(async () => {
+    stub = await startTwitterAPIStub()
+  })
+
+  afterEach(async () => {
+    await stub.close()
+  })
+
+  const posts = () => stub.requests.filter(request => request.route === 'POST /tweets')
+
+  it('retries a 503 that was turned away', async () => {
+    stub.failNext(1, { status: 503, route: 'POST /tweets' })
+    const api = new TwitterAPIService(credentials, { baseUrl: stub.url })
+
+    const result = await api.postTweet('turned away once')
+
+    expect(posts().map(request => request.status)).toEqual([503, 201])
+    expect(stub.tweets.get(result.data.id)?.text).toBe('turned away once')
+  })
+
+  it('does not post twice when a 503 came after the tweet was created', async () => {
+    let failed = false
+    // The write goes through, but the client is told it failed
+    const transport: TwitterTransport = async (url, init) => {
+      const response = await fetch(url, init)
+      if (!failed && init.method === 'POST' && new URL(url).pathname.endsWith('/tweets')) {
+        failed = true
+        return new Response('{}', { status: 503 })
+      }
+      return response
+    }
+    const api = new TwitterAPIService(credentials, { baseUrl: stub.url, transport })
+
+    const result = await api.postTweet('created despite the 503')
+
+    const created = Array.from(stub.tweets.values()).filter(tweet => tweet.text === 'created despite the 503')
+    expect(created).toHaveLength(1)
+    expect(result.data.id).toBe(created[0].id)
+    expect(posts()).toHaveLength(1)
+  })
+
+  it('posts the same text again when no idempotency key is given', async () => {
+    const api = new TwitterAPIService(credentials, { baseUrl: stub.url })
+
+    const first = await api.postTweet('hello world one')
+    await api.deleteTweet(first.data.id)
+    const second = await api.postTweet('hello world one')
+
+    expect(second.data.id).not.toBe(first.data.id)
+    expect(stub.tweets.has(second.data.id)).toBe(true)
+    expect(posts()).toHaveLength(2)
+  })
+
+  it('returns the first result for a repeated idempotency key', async () => {
+    const api = new TwitterAPIService(credentials, { baseUrl: stub.url })
+
+    const first = await api.postTweet('keyed post', { idempotencyKey: 'content_schedule:test-1' })
+    const second = await api.postTweet('keyed post', { idempotencyKey: 'content_schedule:test-1' })
+
+    expect(second.data.id).toBe(first.data.id)
+    expect(posts()).toHaveLength(1)
+  })
+})
+
+describe('TwitterAPIService reads', () => {
+  let stub: TwitterAPIStub
+
+  beforeEach(async () => {
+    stub = await startTwitterAPIStub()
+  })
+
+  afterEach(async () => {
+    await stub.close()
+  })
+
+  it('pages through mentions newer than since_id', async () => {
+    const fan = stub.addUser({ id: '2', username: 'fan', name: 'Fan' })
+    const seen = stub.addTweet({ text: '@stub_agent already seen' }, fan)
+    const newer = [1, 2, 3].map(n => stub.addTweet({ text: `@stub_agent mention ${n}` }, fan))
+    const api = new TwitterAPIService(credentials, { baseUrl: stub.url })
+
+    const first = await api.getMentions(stub.me.id, seen.id, 2)
+    const second = await api.getMentions(stub.me.id, seen.id, 2, first.meta?.next_token)
+
+    expect(first.data?.map(tweet => tweet.id)).toEqual([newer[2].id, newer[1].id])
+    expect(second.data?.map(tweet => tweet.id)).toEqual([newer[0].id])
+    expect(second.data?.[0].author_username).toBe('fan')
+    expect(second.meta?.next_token).toBeUndefined()
+  })
+
+  // Reads go out on the app token; each test gets its own so limits seen here don't carry over
+  const apiFor = (bearerToken: string) => new TwitterAPIService({ ...credentials, bearerToken }, { baseUrl: stub.url })
+  const mentionRequests = () => stub.requests.filter(request => request.route === 'GET /users/:id/mentions')
+
+  it('stops calling an endpoint once its window is spent', async () => {
+    stub.setRateLimit('GET /users/:id/mentions', 1)
+    const api = apiFor('spent-window-token')
+
+    await api.getMentions(stub.me.id)
+    await expect(api.getMentions(stub.me.id)).rejects.toThrow(/Rate limited/)
+
+    expect(mentionRequests()).toHaveLength(1)
+  })
+
+  it('holds off after a 429 for its retry-after', async () => {
+    stub.failNext(1, { status: 429, route: 'GET /users/:id/mentions', retryAfterSeconds: 60 })
+    const api = apiFor('retry-after-token')
+
+    await expect(api.getMentions(stub.me.id)).rejects.toThrow(/Rate limited/)
+    await expect(api.getMentions(stub.me.id)).rejects.toThrow(/Rate limited/)
+
+    expect(mentionRequests().map(request => request.status)).toEqual([429])
+  })
+})
+
+describe('TwitterAPIService media upload', () => {
+  let stub: MediaUploadStub
+
+  beforeEach(async () => {
+    stub = await startMediaUploadStub()
+  })
+
+  afterEach(async () => {
+    await stub.close()
+  })
+
+  const oauth1Credentials: TwitterCredentials = {
+    ...credentials,
+    accessToken: 'oauth1-token',
+    accessTokenSecret: 'oauth1-secret',
+    oauth2: undefined
+  }
+  const image = new Uint8Array(2500).fill(7)
+
+  it('uploads an OAuth 1.0a image in chunks through v1.1', async () => {
+    const api = new TwitterAPIService(oauth1Credentials, { uploadBaseUrl: stub.url })
+
+    const mediaId = await api.uploadMedia(image, 'image/png', { chunkSize: 1000, altText: 'seven' })
+
+    expect(stub.uploads.get(mediaId)).toMatchObject({
+      mediaType: 'image/png',
+      mediaCategory: 'tweet_image',
+      totalBytes: 2500,
+      segments: [0, 1, 2],
+      finalized: true,
+      altText: 'seven'
+    })
+  })
+
+  it('checks STATUS until a GIF finishes processing', async () => {
+    const api = new TwitterAPIService(oauth1Credentials, { uploadBaseUrl: stub.url })
+
+    const mediaId = await api.uploadMedia(image, 'image/gif', { chunkSize: 1000 })
+
+    expect(stub.uploads.get(mediaId)).toMatchObject({ mediaCategory: 'tweet_gif', finalized: true, statusChecks: 1 })
+  })
+
+  it('uploads with an OAuth 2.0 token through the v2 endpoints', async () => {
+    const api = new TwitterAPIService(
+      { ...credentials, oauth2: { accessToken: 'user-token', scopes: ['tweet.write', 'media.write'] } },
+      { baseUrl: stub.apiUrl, uploadBaseUrl: stub.url }
+    )
+
+    const mediaId = await api.uploadMedia(image, 'image/gif', { chunkSize: 1000, altText: 'seven' })
+
+    expect(stub.uploads.get(mediaId)).toMatchObject({
+      totalBytes: 2500,
+      segments: [0, 1, 2],
+      finalized: true,
+      statusChecks: 1,
+      altText: 'seven'
+    })
+  })
+
+  it('refuses an OAuth 2.0 account connected without media.write', async () => {
+    const api = new TwitterAPIService(
+      { ...credentials, oauth2: { accessToken: 'user-token', scopes: ['tweet.write'] } },
+      { baseUrl: stub.apiUrl, uploadBaseUrl: stub.url }
+    )
+
+    await expect(api.uploadMedia(image, 'image/png')).rejects.toThrow(/reconnect/)
+    expect(stub.uploads.size).toBe(0)
+  })
+})
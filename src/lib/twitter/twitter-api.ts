@@ -1,6 +1,29 @@
+import { createHash } from 'crypto'
 import { systemLogger } from '@/lib/logging/system-logger'
-import { TwitterCacheService } from '@/lib/cache/twitter-cache'
+import { twitterSearchCache } from '@/lib/cache/twitter-cache'
 import { TwitterRateLimiter, RateLimitInfo } from '@/lib/rate-limit/twitter-rate-limiter'
+import { buildOAuth1Header } from '@/lib/twitter/oauth1'
+import { isTokenExpiring, refreshAccessToken } from '@/lib/auth/twitter-oauth2'
+import { TwitterOAuthConnectionService } from '@/lib/database/twitter-oauth-connections'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { usageLedger } from '@/lib/usage/usage-ledger'
+import { RequestPriority, twitterRequestScheduler } from './request-scheduler'
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableError, isRetryableStatus, sleep } from './retry-policy'
+import { idempotentWrites } from './idempotent-writes'
+import { authorProfiles } from './author-profiles'
+import { TwitterUsageKind } from '@/types/database'
+
+/**
+ * OAuth 2.0 user-context token. When present it is used instead of the
+ * OAuth 1.0a access token for user-context requests.
+ */
+export interface OAuth2UserToken {
+  accessToken: string
+  refreshToken?: string
+  expiresAt?: number // epoch milliseconds
+  connectionId?: string
+  scopes?: string[] // as granted, when known
+}
 
 export interface TwitterCredentials {
   apiKey: string
@@ -8,6 +31,31 @@ export interface TwitterCredentials {
   accessToken: string
   accessTokenSecret: string
   bearerToken?: string
+  oauth2?: OAuth2UserToken
+  accountId?: string // twitter_oauth_connections row, for counting usage per account
+  userId?: string // app user who connected the account; only they see its rate limit changes
+}
+
+/**
+ * 'app' uses the app-only Bearer token, 'user' signs with OAuth 1.0a user context
+ */
+export type TwitterAuthType = 'app' | 'user'
+
+export type TwitterHttpMethod = 'GET' | 'POST' | 'DELETE'
+
+interface TwitterRequestOptions {
+  body?: unknown
+  formData?: FormData // multipart body, used by media upload APPEND
+  baseUrl?: string
+  auth?: TwitterAuthType
+  rateLimitKey?: string
+  signal?: AbortSignal // lets long-lived requests like the filtered stream be closed
+  priority?: RequestPriority // defaults to 'publish' for writes and 'search' for reads
+  deadline?: number // epoch ms by which the request must have been sent
+  retry?: boolean // retry transient failures; defaults to true for reads only
+  // Before retrying a write that may have gone through, look for its result; one found ends the retries
+  beforeRetry?: () => Promise<Response | undefined>
+  isRetryAfterRefresh?: boolean
 }
 
 export interface TweetFilter {
@@ -32,10 +80,12 @@ export interface TweetData {
     quote_count: number
   }
   lang?: string
+  conversation_id?: string // id of the tweet that started the thread
   referenced_tweets?: Array<{
     type: 'retweeted' | 'replied_to' | 'quoted'
     id: string
   }>
+  author?: TwitterUser // the author's profile, attached from the author profile store
 }
 
 export interface TwitterStreamResponse {
@@ -55,8 +105,25 @@ export interface TwitterUser {
   username: string
   name: string
   profile_image_url?: string
+  description?: string
+  location?: string
+  verified?: boolean
+  verified_type?: 'blue' | 'business' | 'government' | 'none'
+  created_at?: string
+  public_metrics?: {
+    followers_count: number
+    following_count: number
+    tweet_count: number
+    listed_count: number
+  }
 }
 
+// Requested wherever users are returned, so every lookup fills the author profile store
+export const USER_FIELDS = 'username,name,profile_image_url,description,location,verified,verified_type,created_at,public_metrics'
+
+export const USERS_LOOKUP_MAX_IDS = 100
+export const TWEETS_LOOKUP_MAX_IDS = 100
+
 export interface TwitterSearchResult {
   data?: TweetData[]
   includes?: {
@@ -65,16 +132,139 @@ export interface TwitterSearchResult {
   meta?: {
     result_count: number
     next_token?: string
+    newest_id?: string
+    oldest_id?: string
   }
 }
 
+export const SEARCH_MIN_PAGE_SIZE = 10
+export const SEARCH_MAX_PAGE_SIZE = 100
+
+export interface SearchPaginationOptions {
+  pageSize?: number
+  maxPages?: number
+  sinceId?: string // only return tweets newer than this id
+  reserveRequests?: number // stop paging once the endpoint has this many requests left
+}
+
+export interface PaginatedSearchResult extends TwitterSearchResult {
+  pagesFetched: number
+  complete: boolean // false when paging stopped with more results still available
+}
+
+export const CONVERSATION_MAX_ANCESTORS = 5
+export const CONVERSATION_MAX_REPLIES = 20
+
+export interface ConversationOptions {
+  tweet?: TweetData // the tweet being answered; its parent chain is walked up to the root
+  maxAncestors?: number
+  maxReplies?: number
+}
+
+export interface TwitterConversation {
+  conversationId: string
+  root?: TweetData
+  ancestors: TweetData[] // parents of the tweet, oldest first, excluding the root
+  parentId?: string // the tweet being answered replies to this one
+  replies: TweetData[] // other replies in the thread, oldest first
+}
+
+export interface StreamRule {
+  id: string
+  value: string
+  tag?: string
+}
+
+export interface StreamRuleChanges {
+  add?: Array<{ value: string; tag?: string }>
+  delete?: string[] // rule ids
+}
+
+export interface StreamRuleUpdateResult {
+  added: StreamRule[]
+  deleted: number
+  errors: Array<{ value?: string; title: string; detail?: string }>
+}
+
+/**
+ * One message from the filtered stream
+ */
+export interface FilteredStreamMessage {
+  data?: TweetData
+  includes?: {
+    users?: TwitterUser[]
+  }
+  matching_rules?: Array<{ id: string; tag?: string }>
+  errors?: Array<{ title: string; detail?: string; type?: string }>
+}
+
 export interface TwitterTweetResult {
   data?: TweetData
   includes?: {
     users?: TwitterUser[]
+    polls?: TwitterPoll[]
   }
 }
 
+export const POLL_MIN_OPTIONS = 2
+export const POLL_MAX_OPTIONS = 4
+export const POLL_OPTION_MAX_LENGTH = 25
+export const POLL_MIN_DURATION_MINUTES = 5
+export const POLL_MAX_DURATION_MINUTES = 10080 // 7 days
+
+export interface TweetPostOptions {
+  poll?: TwitterPollSettings
+  mediaIds?: string[]
+  idempotencyKey?: string // e.g. the row being published; repeats with it get the first result
+}
+
+export const MEDIA_MAX_ATTACHMENTS = 4
+export const MEDIA_CHUNK_SIZE = 1024 * 1024 // 1 MB per APPEND
+export const MEDIA_SIZE_LIMITS: Record<string, number> = {
+  'image/jpeg': 5 * 1024 * 1024,
+  'image/png': 5 * 1024 * 1024,
+  'image/webp': 5 * 1024 * 1024,
+  'image/gif': 15 * 1024 * 1024
+}
+
+export interface MediaUploadOptions {
+  altText?: string
+  chunkSize?: number
+}
+
+/**
+ * Response from the media upload endpoints for INIT, FINALIZE and STATUS,
+ * with the v2 `id` read as media_id_string
+ */
+export interface TwitterMediaUploadResult {
+  media_id_string: string
+  size?: number
+  expires_after_secs?: number
+  processing_info?: {
+    state: 'pending' | 'in_progress' | 'succeeded' | 'failed'
+    check_after_secs?: number
+    progress_percent?: number
+    error?: { code: number; name: string; message: string }
+  }
+}
+
+export interface TwitterPollSettings {
+  options: string[]
+  durationMinutes: number
+}
+
+export interface TwitterPoll {
+  id: string
+  options: Array<{
+    position: number
+    label: string
+    votes: number
+  }>
+  duration_minutes?: number
+  end_datetime?: string
+  voting_status?: 'open' | 'closed'
+}
+
 export interface TwitterPostResult {
   data: {
     id: string
@@ -82,97 +272,471 @@ export interface TwitterPostResult {
   }
 }
 
+export interface ThreadPostResult {
+  tweetIds: string[] // every posted part in order, including parts from earlier attempts
+  completed: boolean
+  failedAt?: number // index of the part that failed
+  error?: string
+}
+
+/**
+ * Check poll settings against Twitter's limits, returning the first problem found
+ */
+export function validatePollSettings(poll: TwitterPollSettings): string | null {
+  if (poll.options.length < POLL_MIN_OPTIONS || poll.options.length > POLL_MAX_OPTIONS) {
+    return `Polls need between ${POLL_MIN_OPTIONS} and ${POLL_MAX_OPTIONS} options`
+  }
+
+  if (poll.options.some(option => !option.trim())) {
+    return 'Poll options cannot be empty'
+  }
+
+  const tooLong = poll.options.find(option => option.trim().length > POLL_OPTION_MAX_LENGTH)
+  if (tooLong) {
+    return `Poll option "${tooLong}" exceeds ${POLL_OPTION_MAX_LENGTH} characters`
+  }
+
+  if (
+    !Number.isInteger(poll.durationMinutes) ||
+    poll.durationMinutes < POLL_MIN_DURATION_MINUTES ||
+    poll.durationMinutes > POLL_MAX_DURATION_MINUTES
+  ) {
+    return `Poll duration must be between ${POLL_MIN_DURATION_MINUTES} and ${POLL_MAX_DURATION_MINUTES} minutes`
+  }
+
+  return null
+}
+
+/**
+ * Check that a file can be uploaded as tweet media, returning the problem if not
+ */
+export function validateMediaFile(mediaType: string, size: number): string | null {
+  const limit = MEDIA_SIZE_LIMITS[mediaType]
+  if (!limit) {
+    return `Unsupported media type ${mediaType}; use JPEG, PNG, WEBP or GIF`
+  }
+
+  if (size > limit) {
+    return `Media is ${Math.ceil(size / 1024 / 1024)} MB; ${mediaType} uploads are limited to ${limit / 1024 / 1024} MB`
+  }
+
+  return null
+}
+
+// Search page sizes outside Twitter's range are clamped into it
+function getSearchPageSize(pageSize?: number): number {
+  return Math.min(Math.max(pageSize || SEARCH_MAX_PAGE_SIZE, SEARCH_MIN_PAGE_SIZE), SEARCH_MAX_PAGE_SIZE)
+}
+
+// Tweet ids are numeric strings that outgrow Number
+function compareTweetIds(a: string, b: string): number {
+  return a.length - b.length || (a > b ? 1 : a < b ? -1 : 0)
+}
+
+/**
+ * Sends one HTTP request for the client
+ */
+export type TwitterTransport = (url: string, init: RequestInit) => Promise<Response>
+
+// Looks fetch up on each call, so a replaced global fetch is picked up
+const fetchTransport: TwitterTransport = (url, init) => fetch(url, init)
+
+export interface TwitterAPIServiceOptions {
+  baseUrl?: string
+  uploadBaseUrl?: string
+  transport?: TwitterTransport
+}
+
 export class TwitterAPIService {
   private credentials: TwitterCredentials
-  private baseUrl = 'https://api.twitter.com/2'
-  private cacheService = new TwitterCacheService()
-  private rateLimiter = new TwitterRateLimiter()
+  // Overridable so the client can run against local stub servers
+  private baseUrl: string
+  private uploadBaseUrl: string
+  private transport: TwitterTransport
+  private rateLimiters = new Map<string, TwitterRateLimiter>() // by token scope
+  private tokenRefresh: Promise<void> | null = null
+  private connectionService?: TwitterOAuthConnectionService
 
-  constructor(credentials: TwitterCredentials) {
+  constructor(credentials: TwitterCredentials, options: TwitterAPIServiceOptions = {}) {
     this.credentials = credentials
+    this.baseUrl = options.baseUrl || process.env.TWITTER_API_BASE_URL || 'https://api.twitter.com/2'
+    this.uploadBaseUrl = options.uploadBaseUrl || process.env.TWITTER_UPLOAD_BASE_URL || 'https://upload.twitter.com/1.1'
+    this.transport = options.transport || fetchTransport
+  }
+
+  /**
+   * Pick the auth context for a request. Writes always act on behalf of a
+   * user; reads use the app-only Bearer token when one is configured.
+   */
+  private resolveAuthType(method: TwitterHttpMethod, auth?: TwitterAuthType): TwitterAuthType {
+    if (auth) {
+      return auth
+    }
+
+    if (method === 'GET' && this.credentials.bearerToken) {
+      return 'app'
+    }
+
+    return 'user'
+  }
+
+  /**
+   * The rate limiter for the token an auth context uses. Limits are shared
+   * with every other client using the same token.
+   */
+  private getRateLimiter(authType: TwitterAuthType): TwitterRateLimiter {
+    const scope = this.getRateLimitScope(authType)
+    let rateLimiter = this.rateLimiters.get(scope)
+    if (!rateLimiter) {
+      rateLimiter = new TwitterRateLimiter({
+        scope,
+        owner: authType === 'user' ? this.credentials.userId : undefined,
+        shared: authType === 'app'
+      })
+      this.rateLimiters.set(scope, rateLimiter)
+    }
+    return rateLimiter
+  }
+
+  /**
+   * Name for the token behind an auth context. OAuth 2.0 tokens rotate on
+   * refresh, so they are named by their connection; other tokens by a hash,
+   * which keeps them out of the shared store.
+   */
+  private getRateLimitScope(authType: TwitterAuthType): string {
+    const fingerprint = (token = '') => createHash('sha256').update(token).digest('hex').slice(0, 16)
+
+    if (authType === 'app') {
+      return `app:${fingerprint(this.credentials.bearerToken)}`
+    }
+    if (this.credentials.oauth2) {
+      return this.credentials.oauth2.connectionId
+        ? `user:${this.credentials.oauth2.connectionId}`
+        : `user:${fingerprint(this.credentials.oauth2.accessToken)}`
+    }
+    return `user:${fingerprint(this.credentials.accessToken)}`
   }
 
   /**
-   * Get OAuth 1.0a signature for Twitter API v1.1 endpoints
+   * Count tweets read or writes made toward the monthly caps
    */
-  private async getOAuthSignature(): Promise<string> {
-    // For Bearer token authentication, we don't need OAuth signature
-    if (this.credentials.bearerToken) {
+  private async recordUsage(kind: TwitterUsageKind, operation: string, units: number = 1): Promise<void> {
+    await usageLedger.record(kind, operation, units, this.credentials.accountId)
+  }
+
+  /**
+   * Build the Authorization header for the given auth context
+   */
+  private getAuthorizationHeader(
+    method: TwitterHttpMethod,
+    url: string,
+    authType: TwitterAuthType
+  ): string {
+    if (authType === 'app') {
+      if (!this.credentials.bearerToken) {
+        throw new Error('Twitter API credentials invalid: bearer token required for app-only requests')
+      }
       return `Bearer ${this.credentials.bearerToken}`
     }
-    
-    // This is a simplified OAuth implementation
-    // In production, you'd want to use a proper OAuth library
-    
-    // For now, we'll use Bearer token authentication which is simpler
-    return `Bearer ${this.credentials.bearerToken || ''}`
+
+    if (this.credentials.oauth2) {
+      return `Bearer ${this.credentials.oauth2.accessToken}`
+    }
+
+    const { apiKey, apiSecret, accessToken, accessTokenSecret } = this.credentials
+    if (!apiKey || !apiSecret || !accessToken || !accessTokenSecret) {
+      throw new Error('Twitter API credentials invalid: user access token and secret required')
+    }
+
+    return buildOAuth1Header(
+      {
+        consumerKey: apiKey,
+        consumerSecret: apiSecret,
+        token: accessToken,
+        tokenSecret: accessTokenSecret
+      },
+      { method, url }
+    )
   }
 
   /**
-   * Make authenticated request to Twitter API
+   * Make authenticated request to Twitter API, retrying transient failures
+   * with backoff when the request allows it. Each attempt waits its turn in
+   * the shared scheduler, which orders them by priority and holds them
+   * while their endpoint is rate limited. Backoff happens outside the
+   * scheduler, so a retrying request doesn't hold a slot while it waits.
+   * Failures that don't get retried become errors.
    */
   private async makeRequest(
     endpoint: string,
-    method: 'GET' | 'POST' = 'GET',
-    params: Record<string, string> = {}
+    method: TwitterHttpMethod = 'GET',
+    params: Record<string, string> = {},
+    options: TwitterRequestOptions = {}
+  ): Promise<Response> {
+    const rateLimitKey = options.rateLimitKey || endpoint
+    const authType = this.resolveAuthType(method, options.auth)
+    const budget = {
+      key: `${this.getRateLimitScope(authType)}:${rateLimitKey}`,
+      limiter: this.getRateLimiter(authType),
+      endpoint: rateLimitKey
+    }
+    const policy = DEFAULT_RETRY_POLICY
+    const maxAttempts = (options.retry ?? method === 'GET') ? policy.maxAttempts : 1
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response
+      let delayMs: number | null
+
+      try {
+        response = await twitterRequestScheduler.schedule(budget, () => this.sendAttempt(endpoint, method, params, options), {
+          priority: options.priority || (method === 'GET' ? 'search' : 'publish'),
+          // The deadline is for sending the request at all; retries get their class's usual wait
+          deadline: attempt === 1 ? options.deadline : undefined,
+          signal: options.signal
+        })
+      } catch (error) {
+        if (attempt >= maxAttempts || !isRetryableError(error, options.signal)) {
+          throw error
+        }
+
+        delayMs = getRetryDelay(policy, attempt)!
+        await this.waitToRetry(method, rateLimitKey, attempt, maxAttempts, delayMs, options.signal, {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+
+        const earlierResult = await options.beforeRetry?.()
+        if (earlierResult) {
+          return earlierResult
+        }
+        continue
+      }
+
+      if (response.ok) {
+        return response
+      }
+
+      delayMs = attempt < maxAttempts && isRetryableStatus(response.status)
+        ? getRetryDelay(policy, attempt, response.headers)
+        : null
+      if (delayMs === null) {
+        return this.handleAPIError(response, rateLimitKey, budget.limiter)
+      }
+
+      await response.body?.cancel()
+      await this.waitToRetry(method, rateLimitKey, attempt, maxAttempts, delayMs, options.signal, {
+        status: response.status
+      })
+
+      // A 429 was turned away, but a server error may have come after the write went through
+      if (response.status !== 429) {
+        const earlierResult = await options.beforeRetry?.()
+        if (earlierResult) {
+          return earlierResult
+        }
+      }
+    }
+  }
+
+  private async waitToRetry(
+    method: TwitterHttpMethod,
+    endpoint: string,
+    attempt: number,
+    maxAttempts: number,
+    delayMs: number,
+    signal: AbortSignal | undefined,
+    failure: Record<string, unknown>
+  ): Promise<void> {
+    await systemLogger.warn('Twitter API', `Retrying ${method} ${endpoint}`, {
+      attempt,
+      maxAttempts,
+      delayMs: Math.round(delayMs),
+      ...failure
+    })
+    await sleep(delayMs, signal)
+  }
+
+  /**
+   * Send one attempt of a request and track its rate limit. Error responses
+   * are returned for the caller to retry or turn into errors.
+   */
+  private async sendAttempt(
+    endpoint: string,
+    method: TwitterHttpMethod,
+    params: Record<string, string>,
+    options: TwitterRequestOptions
   ): Promise<Response> {
-    const url = new URL(`${this.baseUrl}${endpoint}`)
+    const url = new URL(`${options.baseUrl || this.baseUrl}${endpoint}`)
     
     // Add query parameters
     Object.entries(params).forEach(([key, value]) => {
       url.searchParams.append(key, value)
     })
 
+    const rateLimitKey = options.rateLimitKey || endpoint
+    const authType = this.resolveAuthType(method, options.auth)
+
+    // Refresh OAuth 2.0 user tokens shortly before they expire
+    if (authType === 'user' && this.credentials.oauth2 && isTokenExpiring(this.credentials.oauth2.expiresAt)) {
+      await this.refreshUserToken()
+    }
+
     const headers: Record<string, string> = {
-      'Authorization': `Bearer ${this.credentials.bearerToken || ''}`,
-      'Content-Type': 'application/json',
+      'Authorization': this.getAuthorizationHeader(method, url.toString(), authType),
     }
 
-    // Check rate limits
-    if (this.rateLimiter.isRateLimited(endpoint)) {
-      const message = this.rateLimiter.getRateLimitMessage(endpoint)
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json'
+    }
+
+    // Check rate limits, including what other clients of this token have seen
+    const rateLimiter = this.getRateLimiter(authType)
+    await rateLimiter.sync(rateLimitKey)
+    if (rateLimiter.isRateLimited(rateLimitKey)) {
+      const message = rateLimiter.getRateLimitMessage(rateLimitKey)
       
-      await systemLogger.warn('Twitter API', `Rate limited for ${endpoint}: ${message}`)
+      await systemLogger.warn('Twitter API', `Rate limited for ${rateLimitKey}: ${message}`)
       throw new Error(`Rate limited: ${message}`)
     }
 
-    const response = await fetch(url.toString(), {
+    const response = await this.transport(url.toString(), {
       method,
       headers,
+      body: options.formData || (options.body !== undefined ? JSON.stringify(options.body) : undefined),
+      signal: options.signal
     })
 
     // Update rate limit tracking from response headers
-    this.rateLimiter.updateRateLimit(endpoint, response.headers)
+    await rateLimiter.updateRateLimit(rateLimitKey, response.headers)
 
-    if (!response.ok) {
-      await this.handleAPIError(response, endpoint)
+    // A 401 on a user-context request may mean the token was revoked early; refresh once and retry
+    if (
+      response.status === 401 &&
+      authType === 'user' &&
+      this.credentials.oauth2?.refreshToken &&
+      !options.isRetryAfterRefresh
+    ) {
+      await this.refreshUserToken()
+      return this.sendAttempt(endpoint, method, params, { ...options, isRetryAfterRefresh: true })
     }
 
     return response
   }
 
   /**
-   * Check rate limits before making request
+   * Refresh the OAuth 2.0 user token, sharing one in-flight refresh between callers
    */
-  private async checkRateLimit(endpoint: string): Promise<void> {
-    if (this.rateLimiter.isRateLimited(endpoint)) {
-      const retryDelay = this.rateLimiter.getRetryDelay(endpoint)
-      await systemLogger.warn('Twitter API', `Rate limited for ${endpoint}, waiting ${retryDelay}ms`)
-      await new Promise(resolve => setTimeout(resolve, retryDelay))
+  private async refreshUserToken(): Promise<void> {
+    if (!this.tokenRefresh) {
+      this.tokenRefresh = this.performTokenRefresh().finally(() => {
+        this.tokenRefresh = null
+      })
     }
+    return this.tokenRefresh
   }
 
   /**
-   * Update rate limit tracking from response headers
+   * Exchange the refresh token and persist the rotated tokens. Twitter
+   * rotates the refresh token on every use, so another client of the same
+   * connection (another instance or process) may have refreshed first and
+   * spent ours; its stored tokens are used instead. Only when the stored
+   * tokens can't be refreshed either is the connection marked 'expired' so
+   * the user reconnects.
    */
-  private updateRateLimit(endpoint: string, headers: Headers): void {
-    this.rateLimiter.updateRateLimit(endpoint, headers)
+  private async performTokenRefresh(afterStoredToken = false): Promise<void> {
+    const token = this.credentials.oauth2
+    if (!token?.refreshToken) {
+      throw new Error('Twitter API credentials invalid: OAuth 2.0 token expired and no refresh token available')
+    }
+
+    // Skip our own refresh when another client already stored a usable token
+    if (!afterStoredToken && await this.adoptStoredToken(token)) {
+      if (!isTokenExpiring(this.credentials.oauth2?.expiresAt)) {
+        return
+      }
+      return this.performTokenRefresh(true)
+    }
+
+    try {
+      const refreshed = await refreshAccessToken(token.refreshToken)
+
+      this.credentials.oauth2 = {
+        ...token,
+        accessToken: refreshed.accessToken,
+        refreshToken: refreshed.refreshToken || token.refreshToken,
+        expiresAt: refreshed.expiresAt
+      }
+
+      if (token.connectionId) {
+        await this.getConnectionService().updateConnection(token.connectionId, {
+          access_token: refreshed.accessToken,
+          refresh_token: refreshed.refreshToken || token.refreshToken,
+          token_expires_at: new Date(refreshed.expiresAt).toISOString(),
+          connection_status: 'connected'
+        })
+      }
+
+      await systemLogger.info('Twitter API', 'Refreshed OAuth 2.0 user token', {
+        connectionId: token.connectionId,
+        expiresAt: new Date(refreshed.expiresAt).toISOString()
+      })
+    } catch (error) {
+      // Lost a race with another client's refresh; retry once with what it stored
+      if (!afterStoredToken && await this.adoptStoredToken(token)) {
+        return this.performTokenRefresh(true)
+      }
+
+      await systemLogger.error('Twitter API', 'OAuth 2.0 token refresh failed', {
+        connectionId: token.connectionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+
+      if (token.connectionId) {
+        await this.getConnectionService().updateConnectionStatus(token.connectionId, 'expired')
+      }
+
+      throw new Error('Twitter API credentials invalid: OAuth 2.0 token refresh failed')
+    }
+  }
+
+  private getConnectionService(): TwitterOAuthConnectionService {
+    // Refreshes also run in workers with no session, so stored tokens go through the admin client
+    if (!this.connectionService) {
+      this.connectionService = new TwitterOAuthConnectionService(createAdminClient())
+    }
+    return this.connectionService
   }
 
   /**
-   * Handle Twitter API errors with exponential backoff
+   * Switch to the connection's stored tokens when another client has
+   * refreshed them since ours were loaded, returning whether it had
    */
-  private async handleAPIError(response: Response, endpoint: string): Promise<never> {
+  private async adoptStoredToken(token: OAuth2UserToken): Promise<boolean> {
+    if (!token.connectionId) {
+      return false
+    }
+
+    const stored = await this.getConnectionService().getConnectionById(token.connectionId)
+    if (!stored?.access_token || !stored.refresh_token || stored.refresh_token === token.refreshToken) {
+      return false
+    }
+
+    this.credentials.oauth2 = {
+      ...token,
+      accessToken: stored.access_token,
+      refreshToken: stored.refresh_token,
+      expiresAt: stored.token_expires_at ? new Date(stored.token_expires_at).getTime() : undefined
+    }
+
+    await systemLogger.info('Twitter API', 'Using OAuth 2.0 token refreshed by another client', {
+      connectionId: token.connectionId
+    })
+    return true
+  }
+
+  /**
+   * Turn a failed response into an error, recording any rate limit it reports
+   */
+  private async handleAPIError(response: Response, endpoint: string, rateLimiter: TwitterRateLimiter): Promise<never> {
     const errorData = await response.json().catch(() => ({}))
     const status = response.status
 
@@ -186,7 +750,7 @@ export class TwitterAPIService {
     switch (status) {
       case 429: // Rate limited
         const retryAfter = response.headers.get('retry-after')
-        const rateLimitInfo = this.rateLimiter.handleRateLimitError(endpoint, retryAfter ? parseInt(retryAfter) : undefined)
+        const rateLimitInfo = await rateLimiter.handleRateLimitError(endpoint, retryAfter ? parseInt(retryAfter) : undefined)
         
         await systemLogger.warn('Twitter API', `Rate limited for ${endpoint}`, {
           endpoint,
@@ -213,18 +777,77 @@ export class TwitterAPIService {
    * Get user information by username
    */
   async getUserByUsername(username: string): Promise<TwitterUser | null> {
-    const response = await this.makeRequest(`/users/by/username/${username}`)
-    const result = await response.json() as TwitterUser
-    return result || null
+    const response = await this.makeRequest(`/users/by/username/${encodeURIComponent(username)}`, 'GET', {
+      'user.fields': USER_FIELDS
+    }, { rateLimitKey: '/users/by/username/:username' })
+    return this.readUser(response)
+  }
+
+  /**
+   * The user the credentials act as
+   */
+  async getAuthenticatedUser(): Promise<TwitterUser | null> {
+    const response = await this.makeRequest('/users/me', 'GET', {
+      'user.fields': USER_FIELDS
+    }, { auth: 'user', rateLimitKey: '/users/me' })
+    return this.readUser(response)
   }
 
   /**
    * Get user information by ID
    */
   async getUserById(userId: string): Promise<TwitterUser | null> {
-    const response = await this.makeRequest(`/users/${userId}`)
-    const result = await response.json() as TwitterUser
-    return result || null
+    const response = await this.makeRequest(`/users/${userId}`, 'GET', {
+      'user.fields': USER_FIELDS
+    }, { rateLimitKey: '/users/:id' })
+    return this.readUser(response)
+  }
+
+  /**
+   * Look up users by id, USERS_LOOKUP_MAX_IDS per request. Users Twitter
+   * can't return, such as suspended accounts, are left out.
+   */
+  async getUsersByIds(userIds: string[]): Promise<TwitterUser[]> {
+    const users: TwitterUser[] = []
+
+    for (let start = 0; start < userIds.length; start += USERS_LOOKUP_MAX_IDS) {
+      const response = await this.makeRequest('/users', 'GET', {
+        'ids': userIds.slice(start, start + USERS_LOOKUP_MAX_IDS).join(','),
+        'user.fields': USER_FIELDS
+      }, { priority: 'analytics' })
+      const result = await response.json() as { data?: TwitterUser[] }
+      users.push(...(result.data || []))
+    }
+
+    return users
+  }
+
+  /**
+   * Unwrap a single user lookup; a user Twitter can't find comes back as
+   * errors with no data
+   */
+  private async readUser(response: Response): Promise<TwitterUser | null> {
+    const result = await response.json() as { data?: TwitterUser }
+    if (!result.data) {
+      return null
+    }
+
+    authorProfiles.remember([result.data])
+    return result.data
+  }
+
+  /**
+   * Attach author profiles to a result's tweets, looking up authors the
+   * result didn't include, and list those authors in includes.users
+   */
+  private async withAuthors<T extends TwitterSearchResult>(result: T): Promise<T> {
+    if (!result.data) {
+      authorProfiles.remember(result.includes?.users)
+      return result
+    }
+
+    const data = await authorProfiles.hydrate(this, result.data, result.includes?.users)
+    return { ...result, data, includes: { ...result.includes, users: authorProfiles.getAuthors(data) } }
   }
 
   /**
@@ -237,17 +860,50 @@ export class TwitterAPIService {
       'exclude': 'retweets,replies'
     }
 
-    const response = await this.makeRequest(`/users/${userId}/tweets`, 'GET', params)
-    return response.json() as Promise<TwitterSearchResult>
+    const response = await this.makeRequest(`/users/${userId}/tweets`, 'GET', params, { rateLimitKey: '/users/:id/tweets' })
+    const result = await response.json() as TwitterSearchResult
+    await this.recordUsage('read', 'user_tweets', result.data?.length || 0)
+    return this.withAuthors(result)
   }
 
   /**
-   * Search tweets with filters
+   * Get a page of tweets mentioning a user, optionally only those newer
+   * than sinceId; pass meta.next_token back for the next, older page
    */
-  async searchTweets(query: string, filters: TweetFilter, maxResults: number = 100): Promise<TwitterSearchResult> {
+  async getMentions(
+    userId: string,
+    sinceId?: string,
+    maxResults: number = 100,
+    paginationToken?: string
+  ): Promise<TwitterSearchResult> {
+    const params: Record<string, string> = {
+      'max_results': maxResults.toString(),
+      'tweet.fields': 'created_at,public_metrics,lang,referenced_tweets,author_id,conversation_id',
+      'user.fields': USER_FIELDS,
+      'expansions': 'author_id'
+    }
+    if (sinceId) {
+      params['since_id'] = sinceId
+    }
+    if (paginationToken) {
+      params['pagination_token'] = paginationToken
+    }
+
+    const response = await this.makeRequest(`/users/${userId}/mentions`, 'GET', params, {
+      rateLimitKey: '/users/:id/mentions',
+      priority: 'mentions'
+    })
+    const result = await response.json() as TwitterSearchResult
+    await this.recordUsage('read', 'mentions', result.data?.length || 0)
+    return this.withAuthors(result)
+  }
+
+  /**
+   * Append filter operators to a search query
+   */
+  private buildSearchQuery(query: string, filters: TweetFilter): string {
     let searchQuery = query
 
-    // Add filters to search query
     if (filters.excludeRetweets) {
       searchQuery += ' -is:retweet'
     }
@@ -261,165 +917,772 @@ export class TwitterAPIService {
       searchQuery += ` from:${filters.authors.join(' OR from:')}`
     }
 
-    // Check cache first
-    const cachedResult = this.cacheService.getCachedResult(filters.keywords || [], searchQuery)
-    if (cachedResult && !this.rateLimiter.isRateLimited('/tweets/search/recent')) {
+    return searchQuery
+  }
+
+  /**
+   * Search tweets with filters. Fresh cached results are returned as they
+   * are; stale ones are returned at once while a background search
+   * refreshes them, unless the endpoint is rate limited.
+   */
+  async searchTweets(query: string, filters: TweetFilter, maxResults: number = 100): Promise<TwitterSearchResult> {
+    const searchQuery = this.buildSearchQuery(query, filters)
+
+    const rateLimiter = this.getRateLimiter(this.resolveAuthType('GET'))
+    await rateLimiter.sync('/tweets/search/recent')
+    const rateLimited = rateLimiter.isRateLimited('/tweets/search/recent')
+
+    const cached = await twitterSearchCache.getCachedResult(searchQuery, maxResults)
+    if (cached) {
+      const revalidating = cached.state === 'stale' && !rateLimited
+      if (revalidating) {
+        twitterSearchCache.revalidate(searchQuery, maxResults, () => this.fetchSearchResults(searchQuery, filters, maxResults))
+      }
+
       await systemLogger.info('Twitter API', 'Returning cached search results', {
         query: searchQuery,
-        tweetCount: cachedResult.tweets.length,
-        cacheAge: Date.now() - cachedResult.cached_at
+        tweetCount: cached.result.tweets.length,
+        cacheAge: Date.now() - cached.result.cachedAt,
+        state: cached.state,
+        revalidating
+      })
+
+      return this.withAuthors({
+        data: cached.result.tweets,
+        includes: { users: cached.result.users },
+        meta: { result_count: cached.result.tweets.length }
       })
-      
-      return {
-        data: cachedResult.tweets,
-        includes: { users: [] }, // Simplified for cached results
-        meta: { result_count: cachedResult.tweets.length }
-      }
     }
 
-    // Check if we're rate limited
-    if (this.rateLimiter.isRateLimited('/tweets/search/recent')) {
-      const retryDelay = this.rateLimiter.getRetryDelay('/tweets/search/recent')
-      const message = this.rateLimiter.getRateLimitMessage('/tweets/search/recent')
-      
-      await systemLogger.warn('Twitter API', 'Rate limited, returning cached data if available', {
+    if (rateLimited) {
+      const message = rateLimiter.getRateLimitMessage('/tweets/search/recent')
+      await systemLogger.warn('Twitter API', 'Rate limited with no cached search results', {
         query: searchQuery,
-        retryDelay,
+        retryDelay: rateLimiter.getRetryDelay('/tweets/search/recent'),
         message
       })
-
-      // Return cached data if available, otherwise throw rate limit error
-      if (cachedResult) {
-        return {
-          data: cachedResult.tweets,
-          includes: { users: [] },
-          meta: { result_count: cachedResult.tweets.length }
-        }
-      }
-
       throw new Error(`Rate limited: ${message}`)
     }
 
+    return this.fetchSearchResults(searchQuery, filters, maxResults)
+  }
+
+  /**
+   * Run a recent search and cache the result, empty or not
+   */
+  private async fetchSearchResults(searchQuery: string, filters: TweetFilter, maxResults: number): Promise<TwitterSearchResult> {
     const params: Record<string, string> = {
       'query': searchQuery,
       'max_results': maxResults.toString(),
-      'tweet.fields': 'created_at,public_metrics,lang,referenced_tweets,author_id',
-      'user.fields': 'username,name,profile_image_url',
+      'tweet.fields': 'created_at,public_metrics,lang,referenced_tweets,author_id,conversation_id',
+      'user.fields': USER_FIELDS,
       'expansions': 'author_id'
     }
 
-    try {
-      const response = await this.makeRequest('/tweets/search/recent', 'GET', params)
-      const result = await response.json() as TwitterSearchResult
-      
-      // Cache the successful result
-      if (result.data && result.data.length > 0) {
-        this.cacheService.cacheResult(filters.keywords || [], searchQuery, result.data, result.includes)
-        await systemLogger.info('Twitter API', 'Cached search results', {
+    const response = await this.makeRequest('/tweets/search/recent', 'GET', params)
+    const result = await this.withAuthors(await response.json() as TwitterSearchResult)
+    await this.recordUsage('read', 'search', result.data?.length || 0)
+
+    await twitterSearchCache.cacheResult(filters.keywords || [], searchQuery, maxResults, result.data || [], result.includes)
+    await systemLogger.info('Twitter API', 'Cached search results', {
+      query: searchQuery,
+      tweetCount: result.data?.length || 0
+    })
+
+    return result
+  }
+
+  /**
+   * Page through recent search results, newest first. Paging stops after
+   * maxPages, when Twitter has no more results, or when the endpoint's
+   * remaining requests drop to the reserve. Pages always come from Twitter;
+   * searchTweetsPaginated is the cached way in.
+   */
+  async *searchTweetPages(
+    query: string,
+    filters: TweetFilter,
+    options: SearchPaginationOptions = {}
+  ): AsyncGenerator<TwitterSearchResult> {
+    const searchQuery = this.buildSearchQuery(query, filters)
+    const pageSize = getSearchPageSize(options.pageSize)
+    const maxPages = options.maxPages ?? 1
+    const reserveRequests = options.reserveRequests ?? 0
+    const rateLimiter = this.getRateLimiter(this.resolveAuthType('GET'))
+    let nextToken: string | undefined
+
+    for (let page = 0; page < maxPages; page++) {
+      await rateLimiter.sync('/tweets/search/recent')
+      const remaining = rateLimiter.getRemainingRequests('/tweets/search/recent')
+      if (remaining !== undefined && remaining <= reserveRequests) {
+        await systemLogger.info('Twitter API', 'Stopped paging search to stay within rate budget', {
           query: searchQuery,
-          tweetCount: result.data.length
+          pagesFetched: page,
+          remaining
         })
+        return
       }
-      
-      return result
-    } catch (error) {
-      // If API call fails and we have cached data, return it
-      if (cachedResult) {
-        await systemLogger.warn('Twitter API', 'API call failed, returning cached data', {
-          query: searchQuery,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        })
-        
-        return {
-          data: cachedResult.tweets,
-          includes: { users: [] },
-          meta: { result_count: cachedResult.tweets.length }
-        }
+
+      const params: Record<string, string> = {
+        'query': searchQuery,
+        'max_results': pageSize.toString(),
+        'tweet.fields': 'created_at,public_metrics,lang,referenced_tweets,author_id,conversation_id',
+        'user.fields': USER_FIELDS,
+        'expansions': 'author_id'
+      }
+      if (options.sinceId) {
+        params['since_id'] = options.sinceId
+      }
+      if (nextToken) {
+        params['next_token'] = nextToken
+      }
+
+      const response = await this.makeRequest('/tweets/search/recent', 'GET', params)
+      const result = await response.json() as TwitterSearchResult
+      await this.recordUsage('read', 'search', result.data?.length || 0)
+      yield result
+
+      nextToken = result.meta?.next_token
+      if (!nextToken) {
+        return
       }
-      
-      throw error
     }
   }
 
+  /**
+   * Collect search pages into one result. meta.newest_id is the id to pass
+   * as sinceId on the next poll. The newest page of results is cached like
+   * searchTweets; a cached entry reaching back to sinceId is served without
+   * a request (pagesFetched 0) and refreshed in the background once stale.
+   */
+  async searchTweetsPaginated(
+    query: string,
+    filters: TweetFilter,
+    options: SearchPaginationOptions = {}
+  ): Promise<PaginatedSearchResult> {
+    const searchQuery = this.buildSearchQuery(query, filters)
+    const pageSize = getSearchPageSize(options.pageSize)
+    const sinceId = options.sinceId
+
+    const cached = await twitterSearchCache.getCachedResult(searchQuery, pageSize)
+    const cachedTweets = cached?.result.tweets || []
+    const oldestCached = cachedTweets[cachedTweets.length - 1]
+    // A full entry that stops short of sinceId may have missed tweets in between
+    if (cached && (!sinceId || cachedTweets.length < pageSize || compareTweetIds(oldestCached.id, sinceId) <= 0)) {
+      const rateLimiter = this.getRateLimiter(this.resolveAuthType('GET'))
+      await rateLimiter.sync('/tweets/search/recent')
+      const revalidating = cached.state === 'stale' && !rateLimiter.isRateLimited('/tweets/search/recent')
+      if (revalidating) {
+        twitterSearchCache.revalidate(searchQuery, pageSize, () => this.fetchSearchResults(searchQuery, filters, pageSize))
+      }
+
+      const newTweets = sinceId
+        ? cachedTweets.filter(tweet => compareTweetIds(tweet.id, sinceId) > 0)
+        : cachedTweets
+      await systemLogger.info('Twitter API', 'Returning cached search results', {
+        query: searchQuery,
+        tweetCount: newTweets.length,
+        cacheAge: Date.now() - cached.result.cachedAt,
+        state: cached.state,
+        revalidating
+      })
+
+      return this.withAuthors({
+        data: newTweets,
+        includes: { users: cached.result.users },
+        meta: {
+          result_count: newTweets.length,
+          newest_id: newTweets[0]?.id,
+          oldest_id: newTweets[newTweets.length - 1]?.id
+        },
+        pagesFetched: 0,
+        complete: true
+      })
+    }
+
+    const tweets: TweetData[] = []
+    const users = new Map<string, TwitterUser>()
+    let newestId: string | undefined
+    let oldestId: string | undefined
+    let nextToken: string | undefined
+    let pagesFetched = 0
+
+    for await (const page of this.searchTweetPages(query, filters, options)) {
+      pagesFetched++
+      tweets.push(...(page.data || []))
+      page.includes?.users?.forEach(user => users.set(user.id, user))
+
+      // Pages run newest to oldest, so the first page holds the newest id
+      newestId = newestId || page.meta?.newest_id
+      oldestId = page.meta?.oldest_id || oldestId
+      nextToken = page.meta?.next_token
+    }
+
+    // Cache the newest page only when it's known to be the newest pageSize tweets
+    if (pagesFetched > 0 && (tweets.length >= pageSize || (!nextToken && !sinceId))) {
+      await twitterSearchCache.cacheResult(
+        filters.keywords || [],
+        searchQuery,
+        pageSize,
+        tweets.slice(0, pageSize),
+        { users: Array.from(users.values()) }
+      )
+    }
+
+    return this.withAuthors({
+      data: tweets,
+      includes: { users: Array.from(users.values()) },
+      meta: {
+        result_count: tweets.length,
+        newest_id: newestId,
+        oldest_id: oldestId,
+        next_token: nextToken
+      },
+      pagesFetched,
+      complete: !nextToken
+    })
+  }
+
   /**
    * Get tweet by ID
    */
   async getTweetById(tweetId: string): Promise<TwitterTweetResult> {
     const params: Record<string, string> = {
-      'tweet.fields': 'created_at,public_metrics,lang,referenced_tweets,author_id',
-      'user.fields': 'username,name,profile_image_url',
+      'tweet.fields': 'created_at,public_metrics,lang,referenced_tweets,author_id,conversation_id',
+      'user.fields': USER_FIELDS,
       'expansions': 'author_id'
     }
 
-    const response = await this.makeRequest(`/tweets/${tweetId}`, 'GET', params)
-    return response.json() as Promise<TwitterTweetResult>
+    const response = await this.makeRequest(`/tweets/${tweetId}`, 'GET', params, { rateLimitKey: '/tweets/:id' })
+    const result = await response.json() as TwitterTweetResult
+    await this.recordUsage('read', 'tweet_lookup', result.data ? 1 : 0)
+    authorProfiles.remember(result.includes?.users)
+    return result.data ? { ...result, data: authorProfiles.apply([result.data])[0] } : result
   }
 
   /**
-   * Post a tweet (requires elevated access)
+   * Look up tweets by id, TWEETS_LOOKUP_MAX_IDS per request, with their
+   * authors attached. Tweets Twitter can't return, such as deleted or
+   * protected ones, are left out.
    */
-  async postTweet(text: string): Promise<TwitterPostResult> {
-    const body = { text }
-    const response = await fetch(`${this.baseUrl}/tweets`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.credentials.bearerToken || ''}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body)
+  async getTweetsByIds(tweetIds: string[]): Promise<TweetData[]> {
+    const tweets: TweetData[] = []
+    const users: TwitterUser[] = []
+
+    for (let start = 0; start < tweetIds.length; start += TWEETS_LOOKUP_MAX_IDS) {
+      const response = await this.makeRequest('/tweets', 'GET', {
+        'ids': tweetIds.slice(start, start + TWEETS_LOOKUP_MAX_IDS).join(','),
+        'tweet.fields': 'created_at,public_metrics,lang,referenced_tweets,author_id,conversation_id',
+        'user.fields': USER_FIELDS,
+        'expansions': 'author_id'
+      }, { priority: 'analytics' })
+      const result = await response.json() as TwitterSearchResult
+      tweets.push(...(result.data || []))
+      users.push(...(result.includes?.users || []))
+    }
+
+    await this.recordUsage('read', 'tweet_lookup', tweets.length)
+    return authorProfiles.hydrate(this, tweets, users)
+  }
+
+  /**
+   * Get the thread around a tweet: the root, the chain of tweets the given
+   * tweet replies to, and the other replies in the conversation. Replies
+   * come from recent search, so threads older than seven days only return
+   * the root and parent chain.
+   */
+  async getConversation(conversationId: string, options: ConversationOptions = {}): Promise<TwitterConversation> {
+    const maxAncestors = options.maxAncestors ?? CONVERSATION_MAX_ANCESTORS
+    const maxReplies = options.maxReplies ?? CONVERSATION_MAX_REPLIES
+    const tweets = new Map<string, TweetData>()
+
+    const remember = (data: TweetData[] = [], users: TwitterUser[] = []) => {
+      authorProfiles.remember(users)
+      authorProfiles.apply(data).forEach(tweet => tweets.set(tweet.id, tweet))
+    }
+
+    const fetchTweet = async (tweetId: string): Promise<TweetData | undefined> => {
+      if (!tweets.has(tweetId)) {
+        try {
+          const result = await this.getTweetById(tweetId)
+          remember(result.data ? [result.data] : [], result.includes?.users)
+        } catch (error) {
+          // Deleted or protected tweets leave a gap in the chain rather than failing the lookup
+          await systemLogger.warn('Twitter API', 'Could not fetch tweet in conversation', {
+            conversationId,
+            tweetId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          })
+        }
+      }
+      return tweets.get(tweetId)
+    }
+
+    const search = await this.makeRequest('/tweets/search/recent', 'GET', {
+      'query': `conversation_id:${conversationId}`,
+      'max_results': Math.min(Math.max(maxReplies + maxAncestors, SEARCH_MIN_PAGE_SIZE), SEARCH_MAX_PAGE_SIZE).toString(),
+      'tweet.fields': 'created_at,public_metrics,lang,referenced_tweets,author_id,conversation_id',
+      'user.fields': USER_FIELDS,
+      'expansions': 'author_id'
+    })
+    const searchResult = await search.json() as TwitterSearchResult
+    await this.recordUsage('read', 'conversation', searchResult.data?.length || 0)
+    remember(searchResult.data, searchResult.includes?.users)
+
+    const root = await fetchTweet(conversationId)
+
+    // Walk up from the tweet being answered until the root or the ancestor limit
+    const ancestors: TweetData[] = []
+    const directParentId = options.tweet?.referenced_tweets?.find(ref => ref.type === 'replied_to')?.id
+    let parentId = directParentId
+    while (parentId && parentId !== conversationId && ancestors.length < maxAncestors) {
+      const parent = await fetchTweet(parentId)
+      if (!parent) {
+        break
+      }
+      ancestors.unshift(parent)
+      parentId = parent.referenced_tweets?.find(ref => ref.type === 'replied_to')?.id
+    }
+
+    const excluded = new Set([conversationId, options.tweet?.id, ...ancestors.map(tweet => tweet.id)])
+    const replies = Array.from(tweets.values())
+      .filter(tweet => !excluded.has(tweet.id))
+      .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))
+      .slice(-maxReplies)
+
+    return { conversationId, root, ancestors, parentId: directParentId, replies }
+  }
+
+  /**
+   * List the app's filtered stream rules
+   */
+  async getStreamRules(): Promise<StreamRule[]> {
+    const response = await this.makeRequest('/tweets/search/stream/rules', 'GET')
+    const result = await response.json() as { data?: StreamRule[] }
+    return result.data || []
+  }
+
+  /**
+   * Add and delete filtered stream rules. Twitter applies each half as its
+   * own request; rejected rules come back in errors rather than failing.
+   */
+  async updateStreamRules(changes: StreamRuleChanges): Promise<StreamRuleUpdateResult> {
+    const result: StreamRuleUpdateResult = { added: [], deleted: 0, errors: [] }
+
+    if (changes.delete && changes.delete.length > 0) {
+      const response = await this.makeRequest('/tweets/search/stream/rules', 'POST', {}, {
+        body: { delete: { ids: changes.delete } },
+        auth: 'app'
+      })
+      const deleted = await response.json() as { meta?: { summary?: { deleted?: number } }; errors?: StreamRuleUpdateResult['errors'] }
+      result.deleted = deleted.meta?.summary?.deleted || 0
+      result.errors.push(...(deleted.errors || []))
+    }
+
+    if (changes.add && changes.add.length > 0) {
+      const response = await this.makeRequest('/tweets/search/stream/rules', 'POST', {}, {
+        body: { add: changes.add },
+        auth: 'app'
+      })
+      const added = await response.json() as { data?: StreamRule[]; errors?: StreamRuleUpdateResult['errors'] }
+      result.added = added.data || []
+      result.errors.push(...(added.errors || []))
+    }
+
+    return result
+  }
+
+  /**
+   * Open the filtered stream. The response body stays open and delivers one
+   * JSON message per line, with blank keep-alive lines in between.
+   */
+  async connectFilteredStream(signal?: AbortSignal): Promise<Response> {
+    const params: Record<string, string> = {
+      'tweet.fields': 'created_at,public_metrics,lang,referenced_tweets,author_id,conversation_id',
+      'user.fields': USER_FIELDS,
+      'expansions': 'author_id'
+    }
+
+    // The stream reconnects with its own backoff
+    return this.makeRequest('/tweets/search/stream', 'GET', params, { signal, retry: false })
+  }
+
+  /**
+   * Get a tweet's poll with vote counts, or null if the tweet has no poll
+   */
+  async getPollResults(tweetId: string): Promise<TwitterPoll | null> {
+    const params: Record<string, string> = {
+      'expansions': 'attachments.poll_ids',
+      'poll.fields': 'duration_minutes,end_datetime,voting_status,options'
+    }
+
+    const response = await this.makeRequest(`/tweets/${tweetId}`, 'GET', params, {
+      rateLimitKey: '/tweets/:id',
+      priority: 'analytics'
     })
+    const result = await response.json() as TwitterTweetResult
+    await this.recordUsage('read', 'poll', result.data ? 1 : 0)
+    return result.includes?.polls?.[0] || null
+  }
+
+  /**
+   * Build the POST /tweets body, validating any poll or media attached
+   */
+  private buildTweetBody(text: string, options: TweetPostOptions): Record<string, unknown> {
+    const { poll, mediaIds } = options
+    const body: Record<string, unknown> = { text }
 
-    if (!response.ok) {
-      await this.handleAPIError(response, '/tweets')
+    if (poll && mediaIds && mediaIds.length > 0) {
+      throw new Error('A tweet cannot have both a poll and media attached')
     }
 
-    return response.json() as Promise<TwitterPostResult>
+    if (mediaIds && mediaIds.length > 0) {
+      if (mediaIds.length > MEDIA_MAX_ATTACHMENTS) {
+        throw new Error(`A tweet can have at most ${MEDIA_MAX_ATTACHMENTS} media attachments`)
+      }
+      body.media = { media_ids: mediaIds }
+    }
+
+    if (poll) {
+      const pollError = validatePollSettings(poll)
+      if (pollError) {
+        throw new Error(`Invalid poll: ${pollError}`)
+      }
+
+      body.poll = {
+        options: poll.options.map(option => option.trim()),
+        duration_minutes: poll.durationMinutes
+      }
+    }
+
+    return body
+  }
+
+  /**
+   * Post a tweet (requires elevated access), optionally with a poll or media attached
+   */
+  async postTweet(text: string, options: TweetPostOptions = {}): Promise<TwitterPostResult> {
+    return this.createTweet(this.buildTweetBody(text, options), 'post', options.idempotencyKey)
   }
 
   /**
    * Reply to a tweet
    */
-  async replyToTweet(text: string, replyToTweetId: string): Promise<TwitterPostResult> {
-    const body = { 
-      text,
+  async replyToTweet(
+    text: string,
+    replyToTweetId: string,
+    mediaIds?: string[],
+    idempotencyKey?: string
+  ): Promise<TwitterPostResult> {
+    const body = {
+      ...this.buildTweetBody(text, { mediaIds }),
       reply: {
         in_reply_to_tweet_id: replyToTweetId
       }
     }
 
-    const response = await fetch(`${this.baseUrl}/tweets`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.credentials.bearerToken || ''}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body)
+    return this.createTweet(body, 'reply', idempotencyKey)
+  }
+
+  /**
+   * Quote a tweet with commentary
+   */
+  async quoteTweet(
+    text: string,
+    quotedTweetId: string,
+    mediaIds?: string[],
+    idempotencyKey?: string
+  ): Promise<TwitterPostResult> {
+    const body = {
+      ...this.buildTweetBody(text, { mediaIds }),
+      quote_tweet_id: quotedTweetId
+    }
+
+    return this.createTweet(body, 'quote', idempotencyKey)
+  }
+
+  /**
+   * Create a tweet, at most once per idempotency key when one is given.
+   * Transient failures are retried, but only after checking the account's
+   * timeline for the tweet, since a failed response doesn't mean the tweet
+   * wasn't created. Without a key each call posts.
+   */
+  private async createTweet(
+    body: Record<string, unknown>,
+    operation: 'post' | 'reply' | 'quote',
+    idempotencyKey?: string
+  ): Promise<TwitterPostResult> {
+    const write = async () => {
+      const startedAt = Date.now()
+      const response = await this.makeRequest('/tweets', 'POST', {}, {
+        body,
+        auth: 'user',
+        retry: true,
+        beforeRetry: () => this.findCreatedTweet(body, startedAt)
+      })
+      await this.recordUsage('write', operation)
+
+      return response.json() as Promise<TwitterPostResult>
+    }
+
+    const { result, replayed } = idempotencyKey
+      ? await idempotentWrites.run(idempotencyKey, write)
+      : { result: await write(), replayed: false }
+
+    if (replayed) {
+      await systemLogger.info('Twitter API', 'Skipped repeated tweet write', { operation, tweetId: result.data.id })
+    }
+    return result
+  }
+
+  /**
+   * Look for a tweet this account created since a write began, matching
+   * its text and reply or quote target, as a response from creating it
+   */
+  private async findCreatedTweet(body: Record<string, unknown>, since: number): Promise<Response | undefined> {
+    // t.co rewrites links, so compare text with links removed
+    const normalize = (text: string) => text.replace(/https?:\/\/\S+/g, '').replace(/\s+/g, ' ').trim()
+    const text = normalize(String(body.text || ''))
+    const replyTo = (body.reply as { in_reply_to_tweet_id?: string } | undefined)?.in_reply_to_tweet_id
+    const quoted = body.quote_tweet_id as string | undefined
+
+    try {
+      const me = await this.makeRequest('/users/me', 'GET', {}, { auth: 'user', priority: 'publish', retry: false })
+      const { data: user } = await me.json() as { data: TwitterUser }
+
+      const timeline = await this.makeRequest(`/users/${user.id}/tweets`, 'GET', {
+        'max_results': '10',
+        'start_time': new Date(since - 60000).toISOString(), // allow for clock skew
+        'tweet.fields': 'created_at,referenced_tweets'
+      }, { auth: 'user', rateLimitKey: '/users/:id/tweets', priority: 'publish', retry: false })
+      const { data: tweets = [] } = await timeline.json() as TwitterSearchResult
+
+      const created = tweets.find(tweet =>
+        normalize(tweet.text) === text &&
+        (!replyTo || tweet.referenced_tweets?.some(ref => ref.type === 'replied_to' && ref.id === replyTo)) &&
+        (!quoted || tweet.referenced_tweets?.some(ref => ref.type === 'quoted' && ref.id === quoted))
+      )
+      if (!created) {
+        return undefined
+      }
+
+      await systemLogger.warn('Twitter API', 'Tweet was created by an attempt that reported failure; not retrying', {
+        tweetId: created.id
+      })
+      return new Response(JSON.stringify({ data: { id: created.id, text: created.text } }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    } catch (error) {
+      // Retrying is still safe: Twitter rejects a second identical tweet as duplicate content
+      await systemLogger.warn('Twitter API', 'Could not check whether a failed tweet was created', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return undefined
+    }
+  }
+
+  /**
+   * Post a thread as a reply chain. Stops at the first failed part and
+   * reports what was posted; pass those ids back in to resume from the
+   * last posted tweet. Media is attached to the first part.
+   */
+  async postThread(parts: string[], postedTweetIds: string[] = [], mediaIds?: string[]): Promise<ThreadPostResult> {
+    if (parts.length === 0) {
+      throw new Error('Thread must have at least one part')
+    }
+
+    const tweetIds = [...postedTweetIds]
+
+    for (let index = tweetIds.length; index < parts.length; index++) {
+      const previousTweetId = tweetIds[tweetIds.length - 1]
+
+      try {
+        const result = previousTweetId
+          ? await this.replyToTweet(parts[index], previousTweetId)
+          : await this.postTweet(parts[index], { mediaIds })
+        tweetIds.push(result.data.id)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+
+        await systemLogger.warn('Twitter API', 'Thread posting stopped midway', {
+          failedAt: index,
+          postedCount: tweetIds.length,
+          totalParts: parts.length,
+          lastTweetId: previousTweetId,
+          error: message
+        })
+
+        return { tweetIds, completed: false, failedAt: index, error: message }
+      }
+    }
+
+    return { tweetIds, completed: true }
+  }
+
+  /**
+   * Upload an image or GIF with the chunked INIT/APPEND/FINALIZE flow,
+   * waiting for any async processing to finish. Returns the media id to
+   * attach to a tweet. OAuth 1.0a accounts use the v1.1 upload endpoint;
+   * OAuth 2.0 user tokens are only accepted by the v2 endpoints, and only
+   * when the account granted media.write.
+   */
+  async uploadMedia(data: Uint8Array, mediaType: string, options: MediaUploadOptions = {}): Promise<string> {
+    const fileError = validateMediaFile(mediaType, data.byteLength)
+    if (fileError) {
+      throw new Error(fileError)
+    }
+
+    const scopes = this.credentials.oauth2?.scopes
+    if (scopes && !scopes.includes('media.write')) {
+      throw new Error('This Twitter account was connected without media upload permission; reconnect it to post images')
+    }
+
+    const chunkSize = options.chunkSize || MEDIA_CHUNK_SIZE
+    const mediaCategory = mediaType === 'image/gif' ? 'tweet_gif' : 'tweet_image'
+
+    const init = await this.mediaCommand('INIT', {
+      total_bytes: data.byteLength.toString(),
+      media_type: mediaType,
+      media_category: mediaCategory
+    })
+    const mediaId = init.media_id_string
+
+    for (let offset = 0, segment = 0; offset < data.byteLength; offset += chunkSize, segment++) {
+      await this.appendMediaChunk(mediaId, segment, new Blob([data.slice(offset, offset + chunkSize)], { type: mediaType }))
+    }
+
+    let status = await this.mediaCommand('FINALIZE', { media_id: mediaId })
+
+    while (status.processing_info && ['pending', 'in_progress'].includes(status.processing_info.state)) {
+      const waitSeconds = status.processing_info.check_after_secs ?? 1
+      await new Promise(resolve => setTimeout(resolve, waitSeconds * 1000))
+      status = await this.mediaCommand('STATUS', { media_id: mediaId }, 'GET')
+    }
+
+    if (status.processing_info?.state === 'failed') {
+      throw new Error(`Media processing failed: ${status.processing_info.error?.message || 'Unknown error'}`)
+    }
+
+    if (options.altText) {
+      await this.setMediaAltText(mediaId, options.altText)
+    }
+
+    await systemLogger.info('Twitter API', 'Media uploaded', {
+      mediaId,
+      mediaType,
+      size: data.byteLength,
+      hasAltText: !!options.altText
     })
 
-    if (!response.ok) {
-      await this.handleAPIError(response, '/tweets')
+    return mediaId
+  }
+
+  /**
+   * Run one media upload command. On v1.1 command parameters travel in the
+   * query string so they are covered by the OAuth 1.0a signature; v2 gives
+   * INIT and FINALIZE their own paths and reports results under `data`.
+   */
+  private async mediaCommand(
+    command: 'INIT' | 'FINALIZE' | 'STATUS',
+    params: Record<string, string>,
+    method: TwitterHttpMethod = 'POST'
+  ): Promise<TwitterMediaUploadResult> {
+    if (!this.credentials.oauth2) {
+      const response = await this.makeRequest('/media/upload.json', method, { command, ...params }, {
+        auth: 'user',
+        baseUrl: this.uploadBaseUrl,
+        rateLimitKey: `/media/upload.json:${command}`
+      })
+
+      return response.json() as Promise<TwitterMediaUploadResult>
+    }
+
+    let response: Response
+    switch (command) {
+      case 'INIT':
+        response = await this.makeRequest('/media/upload/initialize', 'POST', {}, {
+          body: { ...params, total_bytes: Number(params.total_bytes) },
+          auth: 'user'
+        })
+        break
+      case 'FINALIZE':
+        response = await this.makeRequest(`/media/upload/${params.media_id}/finalize`, 'POST', {}, {
+          auth: 'user',
+          rateLimitKey: '/media/upload/:id/finalize'
+        })
+        break
+      default:
+        response = await this.makeRequest('/media/upload', 'GET', { command, ...params }, { auth: 'user' })
     }
 
-    return response.json() as Promise<TwitterPostResult>
+    const { data } = await response.json() as { data: Omit<TwitterMediaUploadResult, 'media_id_string'> & { id: string } }
+    return { ...data, media_id_string: data.id }
   }
 
   /**
-   * Like a tweet
+   * Send one chunk of an upload
    */
-  async likeTweet(tweetId: string, userId: string): Promise<{ data: { liked: boolean } }> {
-    const response = await fetch(`${this.baseUrl}/users/${userId}/likes`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.credentials.bearerToken || ''}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ tweet_id: tweetId })
+  private async appendMediaChunk(mediaId: string, segment: number, chunk: Blob): Promise<void> {
+    const formData = new FormData()
+    formData.append('media', chunk)
+
+    if (this.credentials.oauth2) {
+      formData.append('segment_index', segment.toString())
+      await this.makeRequest(`/media/upload/${mediaId}/append`, 'POST', {}, {
+        formData,
+        auth: 'user',
+        rateLimitKey: '/media/upload/:id/append'
+      })
+      return
+    }
+
+    await this.makeRequest('/media/upload.json', 'POST', {
+      command: 'APPEND',
+      media_id: mediaId,
+      segment_index: segment.toString()
+    }, {
+      formData,
+      auth: 'user',
+      baseUrl: this.uploadBaseUrl
     })
+  }
 
-    if (!response.ok) {
-      await this.handleAPIError(response, '/users/:id/likes')
+  /**
+   * Attach alt text to uploaded media before it is used in a tweet
+   */
+  async setMediaAltText(mediaId: string, altText: string): Promise<void> {
+    const text = altText.slice(0, 1000)
+
+    if (this.credentials.oauth2) {
+      await this.makeRequest('/media/metadata', 'POST', {}, {
+        body: { id: mediaId, metadata: { alt_text: { text } } },
+        auth: 'user'
+      })
+      return
     }
 
+    await this.makeRequest('/media/metadata/create.json', 'POST', {}, {
+      body: {
+        media_id: mediaId,
+        alt_text: { text }
+      },
+      auth: 'user',
+      baseUrl: this.uploadBaseUrl
+    })
+  }
+
+  /**
+   * Like a tweet
+   */
+  async likeTweet(tweetId: string, userId: string): Promise<{ data: { liked: boolean } }> {
+    const response = await this.makeRequest(`/users/${userId}/likes`, 'POST', {}, {
+      body: { tweet_id: tweetId },
+      auth: 'user',
+      rateLimitKey: '/users/:id/likes',
+      retry: true // repeating it leaves the same state
+    })
+    await this.recordUsage('write', 'like')
+
     return response.json() as Promise<{ data: { liked: boolean } }>
   }
 
@@ -427,27 +1690,62 @@ export class TwitterAPIService {
    * Retweet a tweet
    */
   async retweet(tweetId: string, userId: string): Promise<{ data: { retweeted: boolean } }> {
-    const response = await fetch(`${this.baseUrl}/users/${userId}/retweets`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.credentials.bearerToken || ''}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ tweet_id: tweetId })
+    const response = await this.makeRequest(`/users/${userId}/retweets`, 'POST', {}, {
+      body: { tweet_id: tweetId },
+      auth: 'user',
+      rateLimitKey: '/users/:id/retweets',
+      retry: true // repeating it leaves the same state
     })
+    await this.recordUsage('write', 'retweet')
 
-    if (!response.ok) {
-      await this.handleAPIError(response, '/users/:id/retweets')
-    }
+    return response.json() as Promise<{ data: { retweeted: boolean } }>
+  }
+
+  /**
+   * Remove a like
+   */
+  async unlikeTweet(tweetId: string, userId: string): Promise<{ data: { liked: boolean } }> {
+    const response = await this.makeRequest(`/users/${userId}/likes/${tweetId}`, 'DELETE', {}, {
+      auth: 'user',
+      rateLimitKey: '/users/:id/likes/:tweet_id',
+      retry: true // repeating it leaves the same state
+    })
+
+    return response.json() as Promise<{ data: { liked: boolean } }>
+  }
+
+  /**
+   * Undo a retweet
+   */
+  async unretweet(tweetId: string, userId: string): Promise<{ data: { retweeted: boolean } }> {
+    const response = await this.makeRequest(`/users/${userId}/retweets/${tweetId}`, 'DELETE', {}, {
+      auth: 'user',
+      rateLimitKey: '/users/:id/retweets/:tweet_id',
+      retry: true // repeating it leaves the same state
+    })
 
     return response.json() as Promise<{ data: { retweeted: boolean } }>
   }
 
   /**
-   * Get current rate limit status
+   * Delete one of the acting account's tweets
+   */
+  async deleteTweet(tweetId: string): Promise<{ data: { deleted: boolean } }> {
+    const response = await this.makeRequest(`/tweets/${tweetId}`, 'DELETE', {}, {
+      auth: 'user',
+      rateLimitKey: 'DELETE /tweets/:id'
+    })
+
+    return response.json() as Promise<{ data: { deleted: boolean } }>
+  }
+
+  /**
+   * Get current rate limit status for a token, by default the one reads use
    */
-  getRateLimitStatus(): Record<string, RateLimitInfo> {
-    return this.rateLimiter.getRateLimitStatus()
+  async getRateLimitStatus(auth?: TwitterAuthType): Promise<Record<string, RateLimitInfo>> {
+    const rateLimiter = this.getRateLimiter(this.resolveAuthType('GET', auth))
+    await rateLimiter.sync()
+    return rateLimiter.getRateLimitStatus()
   }
 
   /**
@@ -455,7 +1753,7 @@ export class TwitterAPIService {
    */
   async validateCredentials(): Promise<boolean> {
     try {
-      const response = await this.makeRequest('/users/me')
+      const response = await this.makeRequest('/users/me', 'GET', {}, { auth: 'user' })
       return response.ok
     } catch (error) {
       await systemLogger.error('Twitter API', 'Credential validation failed', { error })
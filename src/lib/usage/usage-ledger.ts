@@ -0,0 +1,280 @@
+/**
+ * Usage Ledger
+ *
+ * Counts Twitter API consumption against the plan's monthly caps: tweets
+ * read and writes made (posts, replies, quotes, likes, retweets). Only
+ * returned tweets count as reads, so user lookups are free. Every call that
+ * returns tweets or makes a write appends a row to twitter_usage with the
+ * account it acted as, so totals are available for the whole app and per
+ * account. The summary projects the month from the pace so far and flags
+ * thresholds; past the hard stop, automated writes are refused until the
+ * month rolls over.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+import { systemLogger } from '@/lib/logging/system-logger'
+import { CreateTwitterUsageEntry, TwitterUsageEntry, TwitterUsageKind } from '@/types/database'
+
+const DEFAULT_MONTHLY_READ_CAP = 10000
+const DEFAULT_MONTHLY_WRITE_CAP = 3000
+const DEFAULT_HARD_STOP_PERCENT = 95
+const WARNING_THRESHOLDS = [50, 75, 90] // percent of a cap
+const SUMMARY_TTL_MS = 60000
+const PAGE_SIZE = 1000 // PostgREST's default row limit
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type UsageLevel = 'ok' | 'warning' | 'critical' | 'stopped'
+
+export interface UsageBudget {
+  used: number
+  cap: number
+  projected: number // at this month's pace so far
+  percentUsed: number
+  level: UsageLevel
+}
+
+export interface AccountUsage {
+  reads: number
+  writes: number
+}
+
+export interface UsageSummary {
+  month: string
+  periodEnd: string
+  reads: UsageBudget
+  writes: UsageBudget
+  hardStopPercent: number
+  warnings: string[]
+  accounts: Record<string, AccountUsage> // by connection id
+}
+
+export interface UsageLedgerOptions {
+  readCap?: number
+  writeCap?: number
+  hardStopPercent?: number
+}
+
+interface MonthTotals {
+  month: string
+  reads: number
+  writes: number
+  accounts: Record<string, AccountUsage>
+  loadedAt: number
+}
+
+/**
+ * UTC month a time falls in, as "YYYY-MM"
+ */
+export function getUsageMonth(time: number = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 7)
+}
+
+function getMonthBounds(time: number): { start: number; end: number } {
+  const date = new Date(time)
+  return {
+    start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+    end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+  }
+}
+
+export class UsageLedger {
+  private supabase: ReturnType<typeof createAdminClient> | null = null
+  private readCap: number
+  private writeCap: number
+  private hardStopPercent: number
+  private totals: MonthTotals | null = null
+  private loading: Promise<MonthTotals> | null = null
+
+  constructor(options: UsageLedgerOptions = {}) {
+    this.readCap = options.readCap ?? (parseInt(process.env.TWITTER_MONTHLY_READ_CAP || '') || DEFAULT_MONTHLY_READ_CAP)
+    this.writeCap = options.writeCap ?? (parseInt(process.env.TWITTER_MONTHLY_WRITE_CAP || '') || DEFAULT_MONTHLY_WRITE_CAP)
+    this.hardStopPercent = options.hardStopPercent
+      ?? (parseInt(process.env.TWITTER_USAGE_HARD_STOP_PERCENT || '') || DEFAULT_HARD_STOP_PERCENT)
+  }
+
+  /**
+   * Append usage to the ledger. Failures are logged rather than thrown,
+   * since the request being counted has already happened.
+   */
+  async record(kind: TwitterUsageKind, operation: string, units: number, accountId?: string): Promise<void> {
+    if (units <= 0) {
+      return
+    }
+
+    const entry: CreateTwitterUsageEntry = {
+      month: getUsageMonth(),
+      account_id: accountId || null,
+      kind,
+      operation,
+      units
+    }
+
+    try {
+      const { error } = await this.getClient().from('twitter_usage').insert(entry)
+      if (error) {
+        throw error
+      }
+    } catch (error) {
+      await systemLogger.error('Usage Ledger', 'Failed to record usage', { error, entry })
+      return
+    }
+
+    // Keep the cached totals current, logging any threshold this crosses
+    if (this.totals?.month === entry.month) {
+      const before = kind === 'read' ? this.totals.reads : this.totals.writes
+      this.addToTotals(this.totals, entry)
+      await this.logCrossedThresholds(kind, before, before + units)
+    }
+  }
+
+  /**
+   * This month's usage, with projections and warnings
+   */
+  async getSummary(now: number = Date.now()): Promise<UsageSummary> {
+    const totals = await this.getTotals(now)
+    const { end } = getMonthBounds(now)
+    const reads = this.buildBudget(totals.reads, this.readCap, now)
+    const writes = this.buildBudget(totals.writes, this.writeCap, now)
+
+    return {
+      month: totals.month,
+      periodEnd: new Date(end).toISOString(),
+      reads,
+      writes,
+      hardStopPercent: this.hardStopPercent,
+      warnings: [...this.buildWarnings('Reads', reads), ...this.buildWarnings('Writes', writes)],
+      accounts: totals.accounts
+    }
+  }
+
+  /**
+   * Whether automated writes may go ahead. If usage can't be loaded,
+   * writes are allowed rather than stalling the agent.
+   */
+  async canWrite(): Promise<{ allowed: boolean; reason?: string }> {
+    try {
+      const { writes } = await this.getSummary()
+      if (writes.level === 'stopped') {
+        return {
+          allowed: false,
+          reason: `Monthly write budget reached: ${writes.used} of ${writes.cap} used (hard stop at ${this.hardStopPercent}%)`
+        }
+      }
+    } catch (error) {
+      await systemLogger.warn('Usage Ledger', 'Could not check write budget', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+    return { allowed: true }
+  }
+
+  private buildBudget(used: number, cap: number, now: number): UsageBudget {
+    const { start, end } = getMonthBounds(now)
+    // Extrapolate from at least a day, so the first hours of a month don't project wildly
+    const projected = Math.round(used * (end - start) / Math.max(now - start, DAY_MS))
+    const percentUsed = cap > 0 ? Math.round(used / cap * 1000) / 10 : 0
+
+    let level: UsageLevel = 'ok'
+    if (percentUsed >= this.hardStopPercent) {
+      level = 'stopped'
+    } else if (percentUsed >= WARNING_THRESHOLDS[WARNING_THRESHOLDS.length - 1]) {
+      level = 'critical'
+    } else if (percentUsed >= WARNING_THRESHOLDS[0] || projected >= cap) {
+      level = 'warning'
+    }
+
+    return { used, cap, projected, percentUsed, level }
+  }
+
+  private buildWarnings(label: string, budget: UsageBudget): string[] {
+    const warnings: string[] = []
+    if (budget.level === 'stopped') {
+      warnings.push(`${label} passed the ${this.hardStopPercent}% hard stop; automated writes are paused until next month`)
+    } else if (budget.percentUsed >= WARNING_THRESHOLDS[0]) {
+      warnings.push(`${label} are at ${budget.percentUsed}% of the monthly cap`)
+    }
+    if (budget.projected >= budget.cap && budget.level !== 'stopped') {
+      warnings.push(`${label} are on pace for ${budget.projected} of ${budget.cap} this month`)
+    }
+    return warnings
+  }
+
+  private async logCrossedThresholds(kind: TwitterUsageKind, before: number, after: number): Promise<void> {
+    const cap = kind === 'read' ? this.readCap : this.writeCap
+    const crossed = [...WARNING_THRESHOLDS, this.hardStopPercent]
+      .filter(threshold => before < cap * threshold / 100 && after >= cap * threshold / 100)
+
+    for (const threshold of crossed) {
+      await systemLogger.warn('Usage Ledger', `Monthly ${kind}s passed ${threshold}% of the cap`, {
+        kind,
+        used: after,
+        cap,
+        hardStop: threshold === this.hardStopPercent
+      })
+    }
+  }
+
+  /**
+   * Month totals, cached briefly and shared by concurrent callers
+   */
+  private async getTotals(now: number): Promise<MonthTotals> {
+    const month = getUsageMonth(now)
+    if (this.totals?.month === month && now - this.totals.loadedAt < SUMMARY_TTL_MS) {
+      return this.totals
+    }
+
+    if (!this.loading) {
+      this.loading = this.loadTotals(month, now).finally(() => {
+        this.loading = null
+      })
+    }
+    this.totals = await this.loading
+    return this.totals
+  }
+
+  private async loadTotals(month: string, now: number): Promise<MonthTotals> {
+    const totals: MonthTotals = { month, reads: 0, writes: 0, accounts: {}, loadedAt: now }
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.getClient()
+        .from('twitter_usage')
+        .select('account_id, kind, units')
+        .eq('month', month)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        await systemLogger.error('Usage Ledger', 'Failed to load usage', { error, month })
+        throw error
+      }
+
+      const rows = (data || []) as Pick<TwitterUsageEntry, 'account_id' | 'kind' | 'units'>[]
+      rows.forEach(row => this.addToTotals(totals, row))
+      if (rows.length < PAGE_SIZE) {
+        return totals
+      }
+    }
+  }
+
+  private addToTotals(totals: MonthTotals, entry: Pick<TwitterUsageEntry, 'account_id' | 'kind' | 'units'>): void {
+    const field = entry.kind === 'read' ? 'reads' : 'writes'
+    totals[field] += entry.units
+
+    if (entry.account_id) {
+      const account = totals.accounts[entry.account_id] || { reads: 0, writes: 0 }
+      account[field] += entry.units
+      totals.accounts[entry.account_id] = account
+    }
+  }
+
+  private getClient(): ReturnType<typeof createAdminClient> {
+    // Usage is app-wide, so rows from every user count toward the totals
+    if (!this.supabase) {
+      this.supabase = createAdminClient()
+    }
+    return this.supabase
+  }
+}
+
+// One ledger per server process, so the cached totals are shared
+export const usageLedger = new UsageLedger()
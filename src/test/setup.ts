@@ -0,0 +1,23 @@
+/**
+ * Runs before every test file. Logs and usage are written to Supabase in
+ * the app, which tests don't have, so both are replaced with mocks.
+ */
+
+import { vi } from 'vitest'
+
+vi.mock('@/lib/logging/system-logger', () => ({
+  systemLogger: {
+    debug: vi.fn(async () => {}),
+    info: vi.fn(async () => {}),
+    warn: vi.fn(async () => {}),
+    error: vi.fn(async () => {})
+  }
+}))
+
+vi.mock('@/lib/usage/usage-ledger', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/usage/usage-ledger')>()),
+  usageLedger: {
+    record: vi.fn(async () => {}),
+    canWrite: vi.fn(async () => ({ allowed: true }))
+  }
+}))
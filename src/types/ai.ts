@@ -24,6 +24,14 @@ export interface IntentAnalysis {
   reasoning: string
 }
 
+export interface AgentDecision {
+  shouldRespond: boolean
+  priority: 'high' | 'medium' | 'low'
+  responseType: 'reply' | 'quote' | 'retweet' | 'like'
+  reasoning: string
+  confidence: number
+}
+
 export interface ContentGenerationRequest {
   prompt: string
   context: string
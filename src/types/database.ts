@@ -1,5 +1,8 @@
 // Database types for simplified Twitter monitoring system
 
+import { AgentDecision, IntentAnalysis } from './ai';
+import type { TweetData, TwitterUser } from '@/lib/twitter/twitter-api';
+
 // ========================================
 // USER PROFILES
 // ========================================
@@ -19,6 +22,7 @@ export interface IntentFilter {
   id: string;
   user_id: string;
   keyword: string;
+  since_id?: string | null;
   created_at: string;
 }
 
@@ -30,11 +34,17 @@ export interface TwitterOAuthConnection {
   user_id: string;
   twitter_user_id: string;
   twitter_username: string;
-  oauth_token: string;
-  oauth_token_secret: string;
+  oauth_token?: string;
+  oauth_token_secret?: string;
+  access_token?: string;
+  refresh_token?: string;
+  token_expires_at?: string;
+  encrypted_data_key?: string | null;
+  encryption_key_version?: number | null;
   connection_status: TwitterConnectionStatus;
   permissions: Record<string, unknown>;
   last_used: string;
+  mentions_since_id?: string | null; // newest mention already pulled into the inbox
   created_at: string;
   updated_at: string;
 }
@@ -46,14 +56,21 @@ export interface AIResponse {
   id: string;
   user_id: string;
   tweet_id?: string;
+  account_id?: string;
   content: string;
   intent: string;
   response_type: ResponseType;
   status: ResponseStatus;
   ai_generated: boolean;
   confidence_score?: number;
+  send_at?: string; // end of the undo window while status is 'sending'
+  claimed_at?: string; // when a sender took the row to post it
+  twitter_post_id?: string;
+  published_at?: string;
+  error_message?: string;
   created_at: string;
   updated_at: string;
+  original_tweet?: TweetData | null; // the tweet being answered, attached by the API rather than stored
 }
 
 // ========================================
@@ -62,6 +79,8 @@ export interface AIResponse {
 export interface ContentSchedule {
   id: string;
   user_id: string;
+  account_id?: string;
+  content_id?: string; // linked ai_superconnector_content item, when scheduled from the content creator
   content_type: ContentType;
   title?: string;
   content: string;
@@ -69,11 +88,150 @@ export interface ContentSchedule {
   scheduled_at?: string;
   published_at?: string;
   twitter_post_id?: string;
+  thread_progress?: ThreadProgress;
+  poll_options?: string[];
+  poll_duration_minutes?: number;
+  poll_results_collected_at?: string;
+  error_message?: string;
   engagement_metrics: Record<string, unknown>;
   created_at: string;
   updated_at: string;
 }
 
+// Parts of a thread already posted, so a failed thread can resume
+export interface ThreadProgress {
+  posted_tweet_ids: string[];
+  total_parts: number;
+  resume_attempts?: number; // automatic resumes after the first partial post
+}
+
+// ========================================
+// CONTENT MEDIA ATTACHMENTS
+// ========================================
+export interface ContentMediaAttachment {
+  id: string;
+  content_id: string;
+  user_id: string;
+  file_name: string;
+  media_type: string;
+  size_bytes: number;
+  storage_path: string;
+  alt_text?: string;
+  alt_text_ai_suggested: boolean;
+  position: number;
+  twitter_media_id?: string;
+  uploaded_to_twitter_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// ========================================
+// TWITTER ACTION AUDIT
+// ========================================
+export interface TwitterActionAudit {
+  id: string;
+  user_id: string;
+  account_id?: string;
+  action: AuditedTwitterAction;
+  twitter_post_id?: string;
+  source_table?: 'ai_responses' | 'content_schedule';
+  source_id?: string;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+// ========================================
+// MONITORED TWEETS
+// ========================================
+export interface MonitoredTweet {
+  id: string;
+  user_id: string;
+  tweet_id: string;
+  author_id: string;
+  author_username?: string;
+  text: string;
+  matched_keywords: string[];
+  matched_filter_ids: string[];
+  source: MonitoredTweetSource;
+  engagement_score: number;
+  tweet_created_at?: string;
+  intent_analysis?: IntentAnalysis | null;
+  agent_decision?: AgentDecision | null;
+  analyzed_at?: string | null;
+  status: TriageStatus;
+  snoozed_until?: string | null; // a snoozed tweet counts as new again after this
+  status_changed_at?: string | null;
+  created_at: string;
+}
+
+// ========================================
+// TWITTER MENTIONS
+// ========================================
+export interface TwitterMention {
+  id: string;
+  user_id: string;
+  account_id: string;
+  tweet_id: string;
+  author_id: string;
+  author_username?: string;
+  text: string;
+  mentioned_at: string;
+  priority: number;
+  response_id?: string | null; // draft reply queued in ai_responses
+  processed_at?: string | null;
+  read_at?: string | null;
+  created_at: string;
+}
+
+// ========================================
+// TWITTER USAGE
+// ========================================
+export interface TwitterUsageEntry {
+  id: string;
+  month: string; // UTC month the usage counts toward, e.g. "2026-10"
+  account_id?: string | null; // connection the request acted as; null for app-only requests
+  kind: TwitterUsageKind;
+  operation: string; // e.g. 'search', 'reply', 'like'
+  units: number; // tweets read, or writes made
+  created_at: string;
+}
+
+// ========================================
+// TWITTER RATE LIMITS
+// ========================================
+export interface TwitterRateLimitRecord {
+  key: string; // token scope and endpoint, e.g. "app:3f2a9c1b0d4e:/tweets/search/recent"
+  endpoint: string;
+  remaining: number;
+  reset_at: string;
+  limit?: number | null;
+  retry_after_ms?: number | null;
+  updated_at: string;
+}
+
+// ========================================
+// TWITTER TWEET CACHE
+// ========================================
+export interface CachedTweetRecord {
+  tweet_id: string;
+  data: TweetData | null; // null when Twitter couldn't return the tweet (deleted, protected or suspended)
+  fetched_at: string;
+}
+
+// ========================================
+// TWITTER SEARCH CACHE
+// ========================================
+export interface TwitterSearchCacheRecord {
+  key: string; // normalised search query
+  query: string;
+  keywords: string[];
+  tweets: TweetData[];
+  users: TwitterUser[]; // the users Twitter included with the tweets
+  cached_at: string;
+  fresh_until: string;
+  stale_until: string; // served while revalidating until then
+}
+
 // ========================================
 // SYSTEM LOGS
 // ========================================
@@ -92,18 +250,23 @@ export interface SystemLog {
 // ========================================
 export type TwitterConnectionStatus = 'connected' | 'disconnected' | 'error' | 'expired';
 export type ResponseType = 'reply' | 'quote' | 'retweet' | 'like';
-export type ResponseStatus = 'pending' | 'approved' | 'rejected' | 'published';
+export type ResponseStatus = 'pending' | 'approved' | 'rejected' | 'sending' | 'published' | 'failed' | 'deleted';
 export type ContentType = 'tweet' | 'thread' | 'poll';
-export type ContentStatus = 'draft' | 'scheduled' | 'published' | 'failed';
+export type ContentStatus = 'draft' | 'scheduled' | 'published' | 'failed' | 'deleted';
+export type MonitoredTweetSource = 'stream' | 'search';
+export type TriageStatus = 'new' | 'seen' | 'replied' | 'dismissed' | 'snoozed';
+export type TwitterUsageKind = 'read' | 'write';
+export type AuditedTwitterAction = 'cancel_send' | 'delete_tweet' | 'unlike' | 'unretweet';
 
 // ========================================
 // CONSTANTS
 // ========================================
 export const TWITTER_CONNECTION_STATUSES: TwitterConnectionStatus[] = ['connected', 'disconnected', 'error', 'expired'];
 export const RESPONSE_TYPES: ResponseType[] = ['reply', 'quote', 'retweet', 'like'];
-export const RESPONSE_STATUSES: ResponseStatus[] = ['pending', 'approved', 'rejected', 'published'];
+export const RESPONSE_STATUSES: ResponseStatus[] = ['pending', 'approved', 'rejected', 'sending', 'published', 'failed', 'deleted'];
 export const CONTENT_TYPES: ContentType[] = ['tweet', 'thread', 'poll'];
-export const CONTENT_STATUSES: ContentStatus[] = ['draft', 'scheduled', 'published', 'failed'];
+export const CONTENT_STATUSES: ContentStatus[] = ['draft', 'scheduled', 'published', 'failed', 'deleted'];
+export const TRIAGE_STATUSES: TriageStatus[] = ['new', 'seen', 'replied', 'dismissed', 'snoozed'];
 
 // ========================================
 // CREATE/UPDATE TYPES
@@ -123,5 +286,20 @@ export type UpdateAIResponse = Partial<Omit<AIResponse, 'id' | 'created_at' | 'u
 export type CreateContentSchedule = Omit<ContentSchedule, 'id' | 'created_at' | 'updated_at'>;
 export type UpdateContentSchedule = Partial<Omit<ContentSchedule, 'id' | 'created_at' | 'updated_at'>>;
 
+export type CreateContentMediaAttachment = Omit<ContentMediaAttachment, 'id' | 'created_at' | 'updated_at'>;
+export type UpdateContentMediaAttachment = Partial<Omit<ContentMediaAttachment, 'id' | 'created_at' | 'updated_at'>>;
+
+export type CreateTwitterActionAudit = Omit<TwitterActionAudit, 'id' | 'created_at'>;
+export type CreateTwitterUsageEntry = Omit<TwitterUsageEntry, 'id' | 'created_at'>;
+
+// New matches start out untriaged; the table defaults status to 'new'
+export type CreateMonitoredTweet = Omit<
+  MonitoredTweet,
+  'id' | 'created_at' | 'status' | 'snoozed_until' | 'status_changed_at' | 'intent_analysis' | 'agent_decision' | 'analyzed_at'
+>;
+
+export type CreateTwitterMention = Omit<TwitterMention, 'id' | 'created_at'>;
+export type UpdateTwitterMention = Partial<Omit<TwitterMention, 'id' | 'created_at'>>;
+
 export type CreateSystemLog = Omit<SystemLog, 'id' | 'created_at'>;
 export type UpdateSystemLog = Partial<Omit<SystemLog, 'id' | 'created_at'>>;